@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { getLatestProgress, subscribeRunEvents } from "@/lib/run-events";
+import type { RunEvent } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /api/events — server-sent events stream of run lifecycle events.
+ * On connect a "snapshot" event carries the latest progress of every
+ * active run; after that each queued/started/progress/finished event
+ * is sent as a "run" event.
+ */
+export async function GET(req: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      write(`event: snapshot\ndata: ${JSON.stringify(getLatestProgress())}\n\n`);
+
+      const unsubscribe = subscribeRunEvents((event: RunEvent) => {
+        write(`event: run\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try { controller.close(); } catch { /* already closed */ }
+      };
+      req.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFileTouches } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/files/history?path= — which runs touched a file, newest first.
+ * Matches the exact path; add &partial=1 to search by substring instead.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const filePath = searchParams.get("path")?.trim();
+  if (!filePath) return NextResponse.json({ error: "path is required" }, { status: 400 });
+
+  const partial = searchParams.get("partial") === "1";
+  const limit = Math.min(Number(searchParams.get("limit")) || 50, 500);
+  return NextResponse.json(getFileTouches(filePath, !partial, limit));
+}
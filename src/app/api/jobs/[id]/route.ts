@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getJobById, updateJob, deleteJob, toggleJob } from "@/lib/db";
+import { getJobById, updateJob, deleteJob, toggleJob, setJobDependencies, getAllJobDependencies } from "@/lib/db";
+import { validateSchedule } from "@/lib/scheduler";
+import { validateBandwidthSchedule } from "@/lib/bandwidth";
+import { parseJobHooks, validateJobHooks } from "@/lib/hooks";
+import { validateJobDependencies } from "@/lib/dependencies";
 
 export async function GET(
   _req: NextRequest,
@@ -17,8 +21,36 @@ export async function PUT(
 ) {
   const { id } = await params;
   const body = await req.json();
-  const job = updateJob(Number(id), body);
+  const bwError = typeof body.bwlimit === "string" ? validateBandwidthSchedule(body.bwlimit) : null;
+  if (bwError) return NextResponse.json({ error: `Bandwidth limit: ${bwError}` }, { status: 400 });
+  for (const [field, label] of [
+    ["schedule", "Schedule"],
+    ["verify_schedule", "Verify schedule"],
+    ["verify_checksum_schedule", "Checksum verify schedule"],
+  ]) {
+    const scheduleError = typeof body[field] === "string" ? validateSchedule(body[field]) : null;
+    if (scheduleError) return NextResponse.json({ error: `${label}: ${scheduleError}` }, { status: 400 });
+  }
+  if (body.hooks != null) {
+    // Accepted as a JSON string (the job form) or as an object
+    const hooksJson = typeof body.hooks === "string" ? body.hooks : JSON.stringify(body.hooks);
+    const hooksError = validateJobHooks(hooksJson);
+    if (hooksError) return NextResponse.json({ error: `Hooks: ${hooksError}` }, { status: 400 });
+    body.hooks = JSON.stringify(parseJobHooks(hooksJson));
+  }
+  const { dependencies, ...data } = body;
+  const existing = getJobById(Number(id));
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  // A new type can invalidate the stored dependencies as well
+  const typeChanged = data.type != null && data.type !== existing.type;
+  if (dependencies != null || typeChanged) {
+    const deps = dependencies ?? getAllJobDependencies().filter((d) => d.job_id === existing.id);
+    const depError = validateJobDependencies({ id: existing.id, type: data.type || existing.type }, deps);
+    if (depError) return NextResponse.json({ error: depError }, { status: 400 });
+  }
+  const job = updateJob(Number(id), data);
   if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (dependencies != null) setJobDependencies(job.id, dependencies);
   return NextResponse.json(job);
 }
 
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobById, getJobTuningHistory, setJobTuning } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+/** GET /api/jobs/[id]/tuning — learned rclone limits and how they changed */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getJobById(Number(id));
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({
+    tpslimit: job.tuned_tpslimit,
+    transfers: job.tuned_transfers,
+    history: getJobTuningHistory(job.id),
+  });
+}
+
+/** DELETE /api/jobs/[id]/tuning — forget learned limits; runs use the job's flags again */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getJobById(Number(id));
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  setJobTuning(job.id, null, { run_id: null, rate_limit_hits: 0, reason: "reset" });
+  return NextResponse.json({ ok: true });
+}
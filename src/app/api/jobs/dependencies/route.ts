@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getAllJobDependencies, seedDatabase } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    seedDatabase();
+    return NextResponse.json(getAllJobDependencies());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAllJobs, createJob, seedDatabase } from "@/lib/db";
+import { getAllJobs, createJob, seedDatabase, setJobDependencies } from "@/lib/db";
+import { validateSchedule } from "@/lib/scheduler";
+import { validateBandwidthSchedule } from "@/lib/bandwidth";
+import { parseJobHooks, validateJobHooks } from "@/lib/hooks";
+import { validateJobDependencies } from "@/lib/dependencies";
 
 export const dynamic = "force-dynamic";
 
@@ -17,7 +21,30 @@ export async function POST(req: NextRequest) {
   try {
     seedDatabase();
     const body = await req.json();
-    const job = createJob(body);
+    const bwError = typeof body.bwlimit === "string" ? validateBandwidthSchedule(body.bwlimit) : null;
+    if (bwError) return NextResponse.json({ error: `Bandwidth limit: ${bwError}` }, { status: 400 });
+    for (const [field, label] of [
+      ["schedule", "Schedule"],
+      ["verify_schedule", "Verify schedule"],
+      ["verify_checksum_schedule", "Checksum verify schedule"],
+    ]) {
+      const scheduleError = typeof body[field] === "string" ? validateSchedule(body[field]) : null;
+      if (scheduleError) return NextResponse.json({ error: `${label}: ${scheduleError}` }, { status: 400 });
+    }
+    if (body.hooks != null) {
+      // Accepted as a JSON string (the job form) or as an object
+      const hooksJson = typeof body.hooks === "string" ? body.hooks : JSON.stringify(body.hooks);
+      const hooksError = validateJobHooks(hooksJson);
+      if (hooksError) return NextResponse.json({ error: `Hooks: ${hooksError}` }, { status: 400 });
+      body.hooks = JSON.stringify(parseJobHooks(hooksJson));
+    }
+    const { dependencies, ...data } = body;
+    if (dependencies != null) {
+      const depError = validateJobDependencies({ type: data.type || "rclone_copy" }, dependencies);
+      if (depError) return NextResponse.json({ error: depError }, { status: 400 });
+    }
+    const job = createJob(data);
+    if (dependencies != null) setJobDependencies(job.id, dependencies);
     return NextResponse.json(job, { status: 201 });
   } catch (error) {
     return NextResponse.json({ error: String(error) }, { status: 500 });
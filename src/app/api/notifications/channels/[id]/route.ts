@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteChannel, getChannelById, updateChannel } from "@/lib/db";
+import { parseChannelConfig, validateChannel } from "@/lib/notification-channels";
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const existing = getChannelById(Number(id));
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json();
+  const type = body.type ?? existing.type;
+  const name = body.name ?? existing.name;
+  // Accepted as a JSON string or as an object
+  const configJson = body.config == null
+    ? existing.config
+    : typeof body.config === "string" ? body.config : JSON.stringify(body.config);
+  const config = parseChannelConfig(type, configJson);
+  const error = validateChannel(type, name, config);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const channel = updateChannel(existing.id, {
+    type,
+    name: name.trim(),
+    enabled: body.enabled,
+    config: JSON.stringify(config),
+  });
+  return NextResponse.json(channel);
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ok = deleteChannel(Number(id));
+  if (!ok) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ ok: true });
+}
+
+/** Toggle enabled */
+export async function PATCH(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const existing = getChannelById(Number(id));
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json(updateChannel(existing.id, { enabled: existing.enabled ? 0 : 1 }));
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createChannel, getAllChannels, seedDatabase } from "@/lib/db";
+import { parseChannelConfig, validateChannel } from "@/lib/notification-channels";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    seedDatabase();
+    return NextResponse.json(getAllChannels());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    seedDatabase();
+    const body = await req.json();
+    // Accepted as a JSON string or as an object
+    const configJson = typeof body.config === "string" ? body.config : JSON.stringify(body.config ?? {});
+    const config = parseChannelConfig(body.type, configJson);
+    const error = validateChannel(body.type, body.name, config);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    const channel = createChannel({
+      type: body.type,
+      name: body.name.trim(),
+      enabled: body.enabled,
+      config: JSON.stringify(config),
+    });
+    return NextResponse.json(channel, { status: 201 });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { sendDailyDigest } from "@/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+
+/** Send the daily digest of the last 24 hours right away */
+export async function POST() {
+  const error = await sendDailyDigest();
+  if (error) return NextResponse.json({ error }, { status: 502 });
+  return NextResponse.json({ ok: true, message: "Daily digest sent!" });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteNotificationRule,
+  getAllChannels,
+  getAllJobs,
+  getNotificationRuleById,
+  updateNotificationRule,
+} from "@/lib/db";
+import { parseJobTags, parseRuleChannelIds, validateNotificationRule } from "@/lib/notification-rules";
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const existing = getNotificationRuleById(Number(id));
+    if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const body = await req.json();
+    // Lists are accepted as arrays or as the stored strings
+    if (Array.isArray(body.events)) body.events = body.events.join(",");
+    if (Array.isArray(body.channel_ids)) body.channel_ids = JSON.stringify(body.channel_ids);
+    const merged = { ...existing, ...body };
+    const error = validateNotificationRule(merged, { jobs: getAllJobs(), channels: getAllChannels() });
+    if (error) return NextResponse.json({ error }, { status: 400 });
+
+    const rule = updateNotificationRule(existing.id, {
+      name: merged.name.trim(),
+      enabled: body.enabled,
+      job_id: merged.job_id == null ? null : Number(merged.job_id),
+      job_tag: parseJobTags(merged.job_tag ?? "")[0] ?? "",
+      events: merged.events ?? "",
+      min_severity: merged.min_severity ?? "",
+      channel_ids: JSON.stringify(parseRuleChannelIds(merged.channel_ids ?? "[]")),
+    });
+    return NextResponse.json(rule);
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ok = deleteNotificationRule(Number(id));
+    if (!ok) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+/** Toggle enabled */
+export async function PATCH(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const existing = getNotificationRuleById(Number(id));
+    if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json(updateNotificationRule(existing.id, { enabled: existing.enabled ? 0 : 1 }));
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
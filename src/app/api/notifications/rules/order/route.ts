@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllNotificationRules, reorderNotificationRules } from "@/lib/db";
+
+/** Set the order rules are tried in: { ids: [first, second, ...] }, every rule once */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    if (!Array.isArray(body.ids) || !body.ids.every((id: unknown) => Number.isInteger(id))) {
+      return NextResponse.json({ error: "ids must be a list of rule ids" }, { status: 400 });
+    }
+    if (!reorderNotificationRules(body.ids)) {
+      return NextResponse.json({ error: "ids must list every rule exactly once" }, { status: 400 });
+    }
+    return NextResponse.json(getAllNotificationRules());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
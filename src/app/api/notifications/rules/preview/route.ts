@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { routeNotification } from "@/lib/channels";
+import { getJobById, seedDatabase } from "@/lib/db";
+import { NOTIFICATION_EVENTS, SEVERITIES } from "@/lib/notification-rules";
+import type { NotificationEventType, NotificationSeverity } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Dry run: which channels a notification would go to, without sending.
+ * Body: { event, severity, job_id? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    seedDatabase();
+    const body = await req.json();
+    if (!(body.event in NOTIFICATION_EVENTS)) {
+      return NextResponse.json({ error: `Unknown event "${body.event}"` }, { status: 400 });
+    }
+    if (!SEVERITIES.includes(body.severity)) {
+      return NextResponse.json({ error: `Invalid severity "${body.severity}"` }, { status: 400 });
+    }
+    const jobId = body.job_id == null || body.job_id === "" ? null : Number(body.job_id);
+    if (jobId != null && !getJobById(jobId)) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+    const { rule, channels, reason } = routeNotification({
+      event: body.event as NotificationEventType,
+      severity: body.severity as NotificationSeverity,
+      title: "Preview",
+      body: "",
+      job_id: jobId,
+    });
+    return NextResponse.json({ rule, channels, reason });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
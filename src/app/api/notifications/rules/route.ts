@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createNotificationRule, getAllChannels, getAllJobs, getAllNotificationRules, seedDatabase } from "@/lib/db";
+import { parseJobTags, parseRuleChannelIds, validateNotificationRule } from "@/lib/notification-rules";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    seedDatabase();
+    return NextResponse.json(getAllNotificationRules());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    seedDatabase();
+    const body = await req.json();
+    // Lists are accepted as arrays or as the stored strings
+    if (Array.isArray(body.events)) body.events = body.events.join(",");
+    if (Array.isArray(body.channel_ids)) body.channel_ids = JSON.stringify(body.channel_ids);
+    const error = validateNotificationRule(body, { jobs: getAllJobs(), channels: getAllChannels() });
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    const rule = createNotificationRule({
+      name: body.name.trim(),
+      enabled: body.enabled,
+      job_id: body.job_id == null ? null : Number(body.job_id),
+      job_tag: parseJobTags(body.job_tag ?? "")[0] ?? "",
+      events: body.events ?? "",
+      min_severity: body.min_severity ?? "",
+      channel_ids: JSON.stringify(parseRuleChannelIds(body.channel_ids ?? "[]")),
+    });
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -1,59 +1,44 @@
-import { NextResponse } from "next/server";
-import { getSetting } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { getChannelById } from "@/lib/db";
+import { sendToChannel } from "@/lib/channels";
+import { CHANNEL_TYPES, parseChannelConfig, validateChannel } from "@/lib/notification-channels";
+import type { NotificationChannel } from "@/lib/types";
 
-export async function POST() {
-  const botToken = getSetting("telegram_bot_token");
-  const chatId = getSetting("telegram_chat_id");
+/**
+ * Send a test notification to one channel: a saved one ({ channel_id })
+ * or the unsaved form ({ type, config }), enabled or not.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
 
-  if (!botToken || !chatId) {
-    return NextResponse.json(
-      { error: "Telegram Bot Token and Chat ID must be configured in Settings." },
-      { status: 400 }
-    );
+  let channel: { type: NotificationChannel; config: string; name: string };
+  if (body.channel_id != null) {
+    const saved = getChannelById(Number(body.channel_id));
+    if (!saved) return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    channel = saved;
+  } else {
+    const configJson = typeof body.config === "string" ? body.config : JSON.stringify(body.config ?? {});
+    const config = parseChannelConfig(body.type, configJson);
+    const error = validateChannel(body.type, body.name || "Test", config);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    channel = { type: body.type, config: JSON.stringify(config), name: body.name || body.type };
   }
 
-  const message = [
-    "✅ *Backup Control — Test Notification*",
-    "",
-    "Your Telegram integration is working correctly!",
-    "",
-    `🕐 ${new Date().toISOString()}`,
-    "📡 Sent from Homelab Backup Control Plane",
-  ].join("\n");
+  const error = await sendToChannel(channel, {
+    event: "TEST",
+    severity: "info",
+    title: "✅ Backup Control — Test Notification",
+    body: [
+      `Your ${CHANNEL_TYPES[channel.type]?.label ?? channel.type} channel "${channel.name}" is working correctly!`,
+      "",
+      `🕐 ${new Date().toISOString()}`,
+      "📡 Sent from Homelab Backup Control Plane",
+    ].join("\n"),
+  });
+  if (error) return NextResponse.json({ error }, { status: 502 });
 
-  try {
-    const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: "Markdown",
-      }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok || !data.ok) {
-      return NextResponse.json(
-        {
-          error: `Telegram API error: ${data.description || "Unknown error"}`,
-          details: data,
-        },
-        { status: 502 }
-      );
-    }
-
-    return NextResponse.json({
-      ok: true,
-      message: "Test notification sent successfully!",
-    });
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json(
-      { error: `Failed to connect to Telegram API: ${errorMessage}` },
-      { status: 502 }
-    );
-  }
+  return NextResponse.json({
+    ok: true,
+    message: "Test notification sent successfully!",
+  });
 }
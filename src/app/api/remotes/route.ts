@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { seedDatabase } from "@/lib/db";
+import { getRemoteHealth, probeRemotes } from "@/lib/rclone-auth";
+
+export const dynamic = "force-dynamic";
+
+/** Last known credential state of every remote used by an enabled job */
+export async function GET() {
+  try {
+    seedDatabase();
+    return NextResponse.json(getRemoteHealth());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+/** Probe all of them now */
+export async function POST() {
+  try {
+    seedDatabase();
+    return NextResponse.json(await probeRemotes());
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidBwRate } from "@/lib/bandwidth";
+import { setRunBandwidth, type BandwidthResult } from "@/lib/rclone-rc";
+
+function errorResponse(result: BandwidthResult) {
+  const status = result.error === "Run not found" ? 404 : result.rcFailed ? 502 : 400;
+  return NextResponse.json({ error: result.error }, { status });
+}
+
+/** GET /api/runs/[id]/bandwidth — current bandwidth limit of a live rclone run */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const result = await setRunBandwidth(Number(id));
+  if (!result.ok) return errorResponse(result);
+  return NextResponse.json({ rate: result.rate });
+}
+
+/** POST /api/runs/[id]/bandwidth — change the bandwidth limit without restarting the run */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const runId = Number(id);
+  const body = await req.json().catch(() => ({}));
+  const rate = typeof body.rate === "string" ? body.rate.trim() : "";
+
+  if (!isValidBwRate(rate)) {
+    return NextResponse.json({ error: "rate must be \"off\" or a value like 10M, 512K or 10M:100M" }, { status: 400 });
+  }
+
+  const result = await setRunBandwidth(runId, rate);
+  if (!result.ok) return errorResponse(result);
+  return NextResponse.json({ ok: true, rate: result.rate, message: `Run #${runId} bandwidth set to ${result.rate}.` });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRunById, getRunFiles } from "@/lib/db";
+import type { RunFileAction } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS: RunFileAction[] = ["copied", "updated", "deleted", "error"];
+
+/**
+ * GET /api/runs/[id]/files — the run's file manifest.
+ * ?search= filters by path substring, ?action= by copied/updated/deleted/error,
+ * ?limit & ?offset paginate (default 100, max 1000).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const run = getRunById(Number(id));
+  if (!run) return NextResponse.json({ error: "Run not found" }, { status: 404 });
+
+  const { searchParams } = new URL(req.url);
+  const action = searchParams.get("action") || undefined;
+  if (action && !ACTIONS.includes(action as RunFileAction)) {
+    return NextResponse.json({ error: `action must be one of ${ACTIONS.join(", ")}` }, { status: 400 });
+  }
+
+  const result = getRunFiles(run.id, {
+    search: searchParams.get("search")?.trim() || undefined,
+    action: action as RunFileAction | undefined,
+    limit: Math.min(Number(searchParams.get("limit")) || 100, 1000),
+    offset: Number(searchParams.get("offset")) || 0,
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { getRunById } from "@/lib/db";
+import { openRunLogStream, readRunLogRange, readRunLogTail } from "@/lib/run-logs";
+
+export const dynamic = "force-dynamic";
+
+const ACTIVE_STATUSES = ["queued", "running", "paused"];
+const DEFAULT_LIMIT = 256 * 1024;
+const MAX_LIMIT = 4 * 1024 * 1024;
+const MAX_TAIL_LINES = 5000;
+const FOLLOW_INTERVAL_MS = 1000;
+
+/**
+ * GET /api/runs/[id]/log
+ *   ?tail=N              last N lines
+ *   ?offset=X&limit=Y    byte range of the uncompressed log
+ *   ?follow=1&offset=X   server-sent events from X until the run finishes
+ *   ?download=1          whole log as a text file
+ * Runs from before full logs were stored fall back to log_excerpt.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const runId = Number(id);
+  const run = getRunById(runId);
+  if (!run) return NextResponse.json({ error: "Run not found" }, { status: 404 });
+
+  const { searchParams } = new URL(req.url);
+  const offset = Math.max(0, Number(searchParams.get("offset")) || 0);
+  const active = ACTIVE_STATUSES.includes(run.status);
+
+  if (searchParams.get("follow") === "1") {
+    return followLog(runId, offset);
+  }
+
+  if (searchParams.get("download") === "1") {
+    const stream = openRunLogStream(runId);
+    const body = stream ? (Readable.toWeb(stream) as ReadableStream<Uint8Array>) : run.log_excerpt;
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="run-${runId}.log"`,
+      },
+    });
+  }
+
+  const tail = Number(searchParams.get("tail")) || 0;
+  const chunk = tail > 0
+    ? await readRunLogTail(runId, Math.min(tail, MAX_TAIL_LINES))
+    : await readRunLogRange(runId, offset, Math.min(Number(searchParams.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT));
+
+  if (!chunk) {
+    const text = run.log_excerpt || "";
+    return NextResponse.json({
+      run_id: runId,
+      source: "excerpt",
+      active,
+      text,
+      offset: 0,
+      next_offset: Buffer.byteLength(text),
+      size: Buffer.byteLength(text),
+      compressed: false,
+    });
+  }
+
+  return NextResponse.json({ run_id: runId, source: "file", active, ...chunk });
+}
+
+/** Stream new log text as "log" events, then an "end" event once the run finished */
+function followLog(runId: number, startOffset: number): Response {
+  const encoder = new TextEncoder();
+  let offset = startOffset;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let busy = false;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      const close = () => {
+        closed = true;
+        clearInterval(timer);
+        controller.close();
+      };
+
+      const poll = async () => {
+        if (busy || closed) return;
+        busy = true;
+        try {
+          const chunk = await readRunLogRange(runId, offset, DEFAULT_LIMIT);
+          if (chunk && chunk.next_offset > offset) {
+            offset = chunk.next_offset;
+            send("log", { text: chunk.text, offset: chunk.offset, next_offset: chunk.next_offset });
+          }
+
+          const run = getRunById(runId);
+          const caughtUp = !chunk || chunk.next_offset >= chunk.size;
+          if (!run || (!ACTIVE_STATUSES.includes(run.status) && caughtUp)) {
+            send("end", { status: run?.status ?? null });
+            close();
+          }
+        } catch (err) {
+          // Client went away (enqueue on a closed stream) or the log vanished
+          console.error(`[logs] Follow for run ${runId} stopped:`, err);
+          if (!closed) {
+            closed = true;
+            clearInterval(timer);
+            try { controller.close(); } catch { /* already closed */ }
+          }
+        } finally {
+          busy = false;
+        }
+      };
+
+      timer = setInterval(poll, FOLLOW_INTERVAL_MS);
+      poll();
+    },
+    cancel() {
+      closed = true;
+      clearInterval(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
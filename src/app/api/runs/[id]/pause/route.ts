@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pauseRun } from "@/lib/run-control";
+
+/** POST /api/runs/[id]/pause — suspend a running run's process */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const runId = Number(id);
+  const error = pauseRun(runId);
+  if (error) {
+    return NextResponse.json({ error }, { status: error === "Run not found" ? 404 : 400 });
+  }
+  return NextResponse.json({ ok: true, message: `Run #${runId} paused.` });
+}
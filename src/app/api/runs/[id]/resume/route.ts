@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeRun } from "@/lib/run-control";
+
+/** POST /api/runs/[id]/resume — continue a paused run */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const runId = Number(id);
+  const error = resumeRun(runId);
+  if (error) {
+    return NextResponse.json({ error }, { status: error === "Run not found" ? 404 : 400 });
+  }
+  return NextResponse.json({ ok: true, message: `Run #${runId} resumed.` });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getRunById, completeRun } from "@/lib/db";
-import { stopProcess } from "@/lib/process-manager";
+import { clearStopRequest, isRunClaimed, requestStop } from "@/lib/process-manager";
+import { cancelQueuedRun } from "@/lib/run-queue";
+import { publishRunEvent } from "@/lib/run-events";
 
 export async function POST(
   _req: NextRequest,
@@ -11,23 +13,38 @@ export async function POST(
   const run = getRunById(runId);
 
   if (!run) return NextResponse.json({ error: "Run not found" }, { status: 404 });
-  if (run.status !== "running") {
+
+  // Not started yet — just take it out of the queue
+  if (run.status === "queued") {
+    cancelQueuedRun(runId);
+    return NextResponse.json({
+      ok: true,
+      message: `Run #${runId} removed from queue.`,
+    });
+  }
+
+  if (run.status !== "running" && run.status !== "paused") {
     return NextResponse.json({ error: "Run is not currently running" }, { status: 400 });
   }
 
-  const killed = stopProcess(runId);
+  const killed = requestStop(runId);
 
-  if (!killed) {
+  // Between two steps of a run no process is registered; its executor sees
+  // the stop before starting the next one and completes the run itself
+  if (!killed && !isRunClaimed(runId)) {
     // Process not found in memory — mark as cancelled in DB directly
+    clearStopRequest(runId);
+    const summary = "Force stopped by user (process not found in memory).";
     completeRun(runId, {
       status: "cancelled",
-      short_summary: "Force stopped by user (process not found in memory).",
+      short_summary: summary,
       log_excerpt: run.log_excerpt || "",
     });
+    publishRunEvent({ type: "finished", run_id: runId, job_id: run.job_id, status: "cancelled", summary });
   }
 
-  // Note: if killed=true, the child.on("close") handler in run/route.ts
-  // will fire and update the run status. We mark it cancelled there via signal detection.
+  // Note: if killed=true, the executor (lib/executor) sees the process close
+  // and completes the run — the adapters mark it cancelled via signal detection.
 
   return NextResponse.json({
     ok: true,
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidBwRate } from "@/lib/bandwidth";
+import { setAllRunsBandwidth } from "@/lib/rclone-rc";
+
+/** POST /api/runs/bandwidth — apply one bandwidth limit to every running rclone run */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const rate = typeof body.rate === "string" ? body.rate.trim() : "";
+
+  if (!isValidBwRate(rate)) {
+    return NextResponse.json({ error: "rate must be \"off\" or a value like 10M, 512K or 10M:100M" }, { status: 400 });
+  }
+
+  const results = await setAllRunsBandwidth(rate);
+  const updated = results.filter((r) => r.ok).length;
+  return NextResponse.json({
+    ok: true,
+    updated,
+    failed: results.length - updated,
+    results,
+    message: results.length === 0
+      ? "No running jobs to throttle."
+      : `Bandwidth set to ${rate} on ${updated} of ${results.length} running job${results.length === 1 ? "" : "s"}.`,
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAllSettings, setSetting, seedDatabase } from "@/lib/db";
+import { validateBandwidthSchedule } from "@/lib/bandwidth";
 
 export const dynamic = "force-dynamic";
 
@@ -21,6 +22,11 @@ export async function PUT(req: NextRequest) {
   try {
     seedDatabase();
     const body = await req.json();
+    for (const key of ["max_bandwidth", "bandwidth_schedule"]) {
+      if (body[key] === undefined) continue;
+      const error = validateBandwidthSchedule(String(body[key]));
+      if (error) return NextResponse.json({ error: `${key}: ${error}` }, { status: 400 });
+    }
     for (const [key, value] of Object.entries(body)) {
       setSetting(key, String(value));
     }
@@ -42,9 +42,25 @@ import {
   HelpCircle,
   ShieldCheck,
   Search,
+  Gauge,
+  ArrowRight,
+  Workflow,
 } from "lucide-react";
 import { toast } from "sonner";
-import type { Job, JobType } from "@/lib/types";
+import type {
+  DependencyTrigger,
+  HookCommand,
+  HookStage,
+  Job,
+  JobDependency,
+  JobHooks,
+  JobTuningEntry,
+  JobType,
+  NewJobDependency,
+  RunType,
+} from "@/lib/types";
+import { DEFAULT_HOOK_TIMEOUT_SECONDS, HOOK_STAGES, emptyJobHooks, parseJobHooks } from "@/lib/hooks";
+import { looksLikeCron, parseCron } from "@/lib/cron";
 
 // ── Job type config with descriptions ────────────────────────
 
@@ -76,13 +92,13 @@ const jobTypeConfig: Record<JobType, {
     label: "Immich DB Backup",
     icon: Database,
     color: "text-orange-500",
-    description: "Backs up the Immich PostgreSQL database dump files. Critical for disaster recovery — the database can't be regenerated from photos.",
+    description: "Dumps the Immich PostgreSQL database with pg_dump (settings under Settings → Immich Database), compresses and rotates the dumps, then optionally copies the dump offsite with rclone. Critical for disaster recovery — the database can't be regenerated from photos.",
   },
   immich_go_import: {
     label: "Immich-go Import",
     icon: ImagePlus,
     color: "text-pink-500",
-    description: "Bulk import photos and videos into Immich using the immich-go CLI tool. Supports large libraries with duplicate detection.",
+    description: "Bulk import photos and videos into Immich with the immich-go CLI, using the server URL and API key from Settings → Immich Server. Google Takeout archives (paths containing \"takeout\" or ending in .zip) are imported with from-google-photos, anything else with from-folder. Duplicates already on the server are skipped.",
   },
 };
 
@@ -335,6 +351,17 @@ function buildSchedule(p: ParsedSchedule): string {
   }
 }
 
+/** Why a custom cron expression won't parse; the server checks every format on save */
+function cronError(text: string): string | null {
+  if (!looksLikeCron(text)) return null;
+  try {
+    parseCron(text);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
 // ── Flags helpers ────────────────────────────────────────────
 
 interface FlagState {
@@ -433,31 +460,95 @@ const emptyJob: Partial<Job> = {
   schedule: "daily 02:00",
   flags: "",
   description: "",
+  retry_max_attempts: 1,
+  retry_backoff_seconds: 300,
+  retry_exit_codes: "",
+  retry_on_rate_limit: 0,
+  bwlimit: "",
+  max_runtime_minutes: 0,
+  stall_timeout_minutes: 0,
+  hooks: "{}",
+  verify_schedule: "",
+  verify_checksum_schedule: "",
+  verify_max_age_days: 0,
+  tags: "",
+};
+
+const HOOK_STAGE_INFO: Record<HookStage, { label: string; short: string; hint: string }> = {
+  pre: { label: "Before run", short: "before", hint: "Run in order; if one fails the transfer is skipped and the run fails." },
+  post: { label: "After run", short: "after", hint: "Always run once the transfer ends, whatever its result — use them to undo the pre-run hooks." },
+  on_failure: { label: "On failure", short: "on failure", hint: "Run after the post-run hooks when the run failed or timed out and won't be retried." },
+};
+
+const DEPENDENCY_TRIGGER_INFO: Record<DependencyTrigger, { label: string; color: string }> = {
+  success: { label: "on success", color: "text-emerald-500" },
+  failure: { label: "on failure", color: "text-red-500" },
+  always: { label: "always", color: "text-muted-foreground" },
 };
 
+/** Manual and scheduled runs of check jobs are verifications (mirrors getDefaultRunType) */
+function regularRunType(type: JobType | undefined): RunType {
+  return type === "rclone_check" ? "verify" : "backup";
+}
+
+/**
+ * Jobs started after `jobId`, nested by what they start in turn. Only
+ * regular runs pass the chain on; a queued verify ends the branch.
+ */
+function ChainBranch({ jobId, dependencies, jobs }: { jobId: number; dependencies: JobDependency[]; jobs: Job[] }) {
+  const edges = dependencies.filter((d) => d.depends_on_job_id === jobId);
+  if (edges.length === 0) return null;
+  return (
+    <ul className="ml-2 border-l border-border/50 pl-3 space-y-1 mt-1">
+      {edges.map((dep) => {
+        const target = jobs.find((j) => j.id === dep.job_id);
+        const continues = dep.run_type === regularRunType(target?.type) && dep.job_id !== jobId;
+        return (
+          <li key={dep.id}>
+            <div className="flex items-center gap-2 text-xs">
+              <ArrowRight className={`w-3 h-3 flex-shrink-0 ${DEPENDENCY_TRIGGER_INFO[dep.trigger].color}`} />
+              <span className="text-muted-foreground">{DEPENDENCY_TRIGGER_INFO[dep.trigger].label}</span>
+              <span className={`font-medium truncate ${target && !target.enabled ? "opacity-60" : ""}`}>{dep.job_name}</span>
+              {dep.run_type === "verify" && target?.type !== "rclone_check" && (
+                <Badge variant="outline" className="text-[10px]">verify</Badge>
+              )}
+            </div>
+            {continues && <ChainBranch jobId={dep.job_id} dependencies={dependencies} jobs={jobs} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 // ═════════════════════════════════════════════════════════════
 // Component
 // ═════════════════════════════════════════════════════════════
 
 export default function JobsPage() {
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [dependencies, setDependencies] = useState<JobDependency[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingJob, setEditingJob] = useState<Partial<Job>>(emptyJob);
   const [isEdit, setIsEdit] = useState(false);
   const [runningJobs, setRunningJobs] = useState<Set<number>>(new Set());
   const [verifyingJobs, setVerifyingJobs] = useState<Set<number>>(new Set());
+  const [tuningJob, setTuningJob] = useState<Job | null>(null);
+  const [tuningHistory, setTuningHistory] = useState<JobTuningEntry[] | null>(null);
 
   // Schedule state (parsed from editingJob.schedule)
   const [schedule, setSchedule] = useState<ParsedSchedule>(parseSchedule("daily 02:00"));
   // Flags state (parsed from editingJob.flags)
   const [flagsState, setFlagsState] = useState<Record<string, FlagState>>(parseFlagsString(""));
+  const [hooksState, setHooksState] = useState<JobHooks>(emptyJobHooks());
+  const [depsState, setDepsState] = useState<NewJobDependency[]>([]);
 
   const fetchJobs = useCallback(async () => {
     try {
-      const res = await fetch("/api/jobs");
-      const data = await res.json();
-      setJobs(data);
+      const [jobsRes, depsRes] = await Promise.all([fetch("/api/jobs"), fetch("/api/jobs/dependencies")]);
+      setJobs(await jobsRes.json());
+      if (depsRes.ok) setDependencies(await depsRes.json());
     } catch (e) {
       console.error("Failed to fetch jobs", e);
     } finally {
@@ -530,6 +621,31 @@ export default function JobsPage() {
     }
   };
 
+  const openTuning = async (job: Job) => {
+    setTuningJob(job);
+    setTuningHistory(null);
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/tuning`);
+      const data = await res.json();
+      setTuningHistory(res.ok ? data.history : []);
+    } catch {
+      setTuningHistory([]);
+    }
+  };
+
+  const handleResetTuning = async () => {
+    if (!tuningJob) return;
+    try {
+      const res = await fetch(`/api/jobs/${tuningJob.id}/tuning`, { method: "DELETE" });
+      if (!res.ok) throw new Error();
+      toast.success(`Learned limits of "${tuningJob.name}" reset`);
+      setTuningJob(null);
+      fetchJobs();
+    } catch {
+      toast.error("Failed to reset limits");
+    }
+  };
+
   const handleDelete = async (id: number, name: string) => {
     if (!confirm(`Delete job "${name}"? This will also delete all run history.`)) return;
     try {
@@ -545,6 +661,8 @@ export default function JobsPage() {
     setEditingJob({ ...emptyJob });
     setSchedule(parseSchedule("daily 02:00"));
     setFlagsState(parseFlagsString(""));
+    setHooksState(emptyJobHooks());
+    setDepsState([]);
     setIsEdit(false);
     setDialogOpen(true);
   };
@@ -553,6 +671,12 @@ export default function JobsPage() {
     setEditingJob({ ...job });
     setSchedule(parseSchedule(job.schedule));
     setFlagsState(parseFlagsString(job.flags));
+    setHooksState(parseJobHooks(job.hooks));
+    setDepsState(
+      dependencies
+        .filter((d) => d.job_id === job.id)
+        .map(({ depends_on_job_id, trigger, run_type }) => ({ depends_on_job_id, trigger, run_type }))
+    );
     setIsEdit(true);
     setDialogOpen(true);
   };
@@ -561,25 +685,30 @@ export default function JobsPage() {
     const payload = {
       ...editingJob,
       schedule: buildSchedule(schedule),
-      flags: buildFlagsString(flagsState),
+      // immich-go takes its own flags, not the rclone flag picker's
+      flags: editingJob.type === "immich_go_import" ? (editingJob.flags || "").trim() : buildFlagsString(flagsState),
+      // Rows left without a command are dropped rather than rejected
+      hooks: JSON.stringify(Object.fromEntries(
+        HOOK_STAGES.map((stage) => [stage, hooksState[stage].filter((hook) => hook.command.trim())])
+      )),
+      // Check jobs only have verify runs
+      dependencies: depsState.map((dep) => (
+        editingJob.type === "rclone_check" ? { ...dep, run_type: "verify" as RunType } : dep
+      )),
     };
 
     try {
-      if (isEdit && editingJob.id) {
-        await fetch(`/api/jobs/${editingJob.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        });
-        toast.success("Job updated");
-      } else {
-        await fetch("/api/jobs", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        });
-        toast.success("Job created");
+      const res = await fetch(isEdit && editingJob.id ? `/api/jobs/${editingJob.id}` : "/api/jobs", {
+        method: isEdit && editingJob.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || "Failed to save job");
+        return;
       }
+      toast.success(isEdit ? "Job updated" : "Job created");
       setDialogOpen(false);
       fetchJobs();
     } catch {
@@ -605,6 +734,40 @@ export default function JobsPage() {
     }));
   };
 
+  const addHook = (stage: HookStage) => {
+    setHooksState((prev) => ({
+      ...prev,
+      [stage]: [...prev[stage], { command: "", timeout_seconds: DEFAULT_HOOK_TIMEOUT_SECONDS }],
+    }));
+  };
+
+  const updateHook = (stage: HookStage, index: number, partial: Partial<HookCommand>) => {
+    setHooksState((prev) => ({
+      ...prev,
+      [stage]: prev[stage].map((hook, i) => (i === index ? { ...hook, ...partial } : hook)),
+    }));
+  };
+
+  const removeHook = (stage: HookStage, index: number) => {
+    setHooksState((prev) => ({
+      ...prev,
+      [stage]: prev[stage].filter((_, i) => i !== index),
+    }));
+  };
+
+  const addDependency = () => {
+    const upstream = jobs.find((j) => j.id !== editingJob.id);
+    if (!upstream) return;
+    setDepsState((prev) => [
+      ...prev,
+      { depends_on_job_id: upstream.id, trigger: "success", run_type: regularRunType(editingJob.type) },
+    ]);
+  };
+
+  const updateDependency = (index: number, partial: Partial<NewJobDependency>) => {
+    setDepsState((prev) => prev.map((dep, i) => (i === index ? { ...dep, ...partial } : dep)));
+  };
+
   const applyPreset = (preset: Preset) => {
     // Start with all flags disabled
     const newState: Record<string, FlagState> = {};
@@ -700,6 +863,32 @@ export default function JobsPage() {
           </div>
         </div>
 
+        {/* Job Chains */}
+        {dependencies.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Workflow className="w-4 h-4" />
+                Job Chains
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              {jobs
+                // Chains start at jobs that run after nothing else (a job's own verify doesn't count)
+                .filter((job) =>
+                  dependencies.some((d) => d.depends_on_job_id === job.id) &&
+                  !dependencies.some((d) => d.job_id === job.id && d.depends_on_job_id !== job.id)
+                )
+                .map((job) => (
+                  <div key={job.id}>
+                    <span className={`text-xs font-medium ${!job.enabled ? "opacity-60" : ""}`}>{job.name}</span>
+                    <ChainBranch jobId={job.id} dependencies={dependencies} jobs={jobs} />
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Jobs Grid */}
         <div className="grid gap-4 md:grid-cols-2">
           {jobs.map((job) => {
@@ -717,7 +906,12 @@ export default function JobsPage() {
                       </div>
                       <div className="min-w-0">
                         <CardTitle className="text-sm truncate">{job.name}</CardTitle>
-                        <Badge variant="outline" className="text-[10px] mt-1">{cfg.label}</Badge>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          <Badge variant="outline" className="text-[10px]">{cfg.label}</Badge>
+                          {job.tags && job.tags.split(",").map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-[10px]">#{tag}</Badge>
+                          ))}
+                        </div>
                       </div>
                     </div>
                     <Switch
@@ -749,6 +943,80 @@ export default function JobsPage() {
                         <span className="font-mono text-[11px] truncate">{job.flags}</span>
                       </div>
                     )}
+                    {job.bwlimit && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Bandwidth:</span>
+                        <span className="font-mono text-[11px] truncate">{job.bwlimit}</span>
+                      </div>
+                    )}
+                    {(job.verify_schedule || job.verify_checksum_schedule) && job.type !== "rclone_check" && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Verify:</span>
+                        <span className="truncate">
+                          {[
+                            job.verify_schedule && `size ${job.verify_schedule}`,
+                            job.verify_checksum_schedule && `checksum ${job.verify_checksum_schedule}`,
+                            job.verify_max_age_days > 0 && `stale after ${job.verify_max_age_days}d`,
+                          ].filter(Boolean).join(" · ")}
+                        </span>
+                      </div>
+                    )}
+                    {job.retry_max_attempts > 1 && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Retries:</span>
+                        <span>
+                          {job.retry_max_attempts - 1}× after {Math.round(job.retry_backoff_seconds / 60)}m+
+                          {job.retry_exit_codes && <span className="text-muted-foreground"> (exit {job.retry_exit_codes})</span>}
+                        </span>
+                      </div>
+                    )}
+                    {(job.max_runtime_minutes > 0 || job.stall_timeout_minutes > 0) && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Timeouts:</span>
+                        <span>
+                          {[
+                            job.max_runtime_minutes > 0 && `max ${job.max_runtime_minutes}m`,
+                            job.stall_timeout_minutes > 0 && `stalled ${job.stall_timeout_minutes}m`,
+                          ].filter(Boolean).join(" · ")}
+                        </span>
+                      </div>
+                    )}
+                    {dependencies.some((d) => d.job_id === job.id) && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Runs after:</span>
+                        <span className="truncate">
+                          {dependencies
+                            .filter((d) => d.job_id === job.id)
+                            .map((d) => `${d.depends_on_job_name} (${DEPENDENCY_TRIGGER_INFO[d.trigger].label}${d.run_type === "verify" && job.type !== "rclone_check" ? ", verify" : ""})`)
+                            .join(", ")}
+                        </span>
+                      </div>
+                    )}
+                    {(() => {
+                      const hooks = parseJobHooks(job.hooks);
+                      const parts = HOOK_STAGES.filter((stage) => hooks[stage].length > 0)
+                        .map((stage) => `${hooks[stage].length} ${HOOK_STAGE_INFO[stage].short}`);
+                      return parts.length > 0 && (
+                        <div className="flex gap-2">
+                          <span className="text-muted-foreground w-20 flex-shrink-0">Hooks:</span>
+                          <span>{parts.join(" · ")}</span>
+                        </div>
+                      );
+                    })()}
+                    {(job.tuned_tpslimit != null || job.tuned_transfers != null) && (
+                      <div className="flex gap-2">
+                        <span className="text-muted-foreground w-20 flex-shrink-0">Limits:</span>
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 text-amber-500 hover:underline"
+                          title="Learned from rate limiting — click for history"
+                          onClick={() => openTuning(job)}
+                        >
+                          <Gauge className="w-3 h-3" />
+                          tpslimit {job.tuned_tpslimit ?? "∞"} · {job.tuned_transfers ?? 4} transfers
+                        </button>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-2 pt-2 border-t border-border/50">
@@ -814,6 +1082,52 @@ export default function JobsPage() {
         )}
 
         {/* ── Create/Edit Dialog ────────────────────────────── */}
+        {/* ── Learned rate limits ──────────────────────────── */}
+        <Dialog open={!!tuningJob} onOpenChange={(open) => !open && setTuningJob(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Learned Limits — {tuningJob?.name}</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              Runs of this job hit Google Drive rate limits, so they start with lower
+              {" "}<code className="bg-accent px-1 rounded">--tpslimit</code> / <code className="bg-accent px-1 rounded">--transfers</code> than the job flags.
+            </p>
+            <div className="max-h-72 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+              {tuningHistory === null ? (
+                <p className="text-xs text-muted-foreground text-center py-6">Loading...</p>
+              ) : tuningHistory.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">No changes recorded</p>
+              ) : (
+                tuningHistory.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+                    <span className="text-muted-foreground w-32 flex-shrink-0">
+                      {new Date(entry.created_at).toLocaleString("uk-UA", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                    <span className="flex-1">
+                      {entry.reason === "reset"
+                        ? "Reset to job flags"
+                        : `tpslimit ${entry.tpslimit ?? "∞"} · ${entry.transfers} transfers`}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {entry.reason === "restart" ? "mid-run restart" : entry.reason === "next_run" ? "for next run" : ""}
+                      {entry.run_id != null && ` · run #${entry.run_id}`}
+                      {entry.rate_limit_hits > 0 && ` · ${entry.rate_limit_hits} hits`}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTuningJob(null)}>
+                Close
+              </Button>
+              <Button variant="destructive" onClick={handleResetTuning}>
+                Reset to Job Flags
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
           <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
@@ -875,25 +1189,29 @@ export default function JobsPage() {
 
               {/* Source Path */}
               <div className="space-y-2">
-                <Label>Source Path</Label>
+                <Label>{editingJob.type === "immich_db_backup" ? "Dump Directory (optional)" : editingJob.type === "immich_go_import" ? "Import Source" : "Source Path"}</Label>
                 <Input
                   value={editingJob.source_path || ""}
                   onChange={(e) => setEditingJob({ ...editingJob, source_path: e.target.value })}
-                  placeholder="/mnt/toshiba/nextcloud-data"
+                  placeholder={editingJob.type === "immich_db_backup"
+                    ? "Defaults to Settings → Immich DB Backups"
+                    : editingJob.type === "immich_go_import"
+                      ? "/mnt/toshiba/takeout/takeout-*.zip"
+                      : "/mnt/toshiba/nextcloud-data"}
                   className="font-mono text-sm"
                 />
               </div>
 
-              {/* Destination Path */}
-              <div className="space-y-2">
-                <Label>Destination Path</Label>
+              {/* Destination Path (immich-go uploads straight to the Immich server) */}
+              {editingJob.type !== "immich_go_import" && <div className="space-y-2">
+                <Label>{editingJob.type === "immich_db_backup" ? "Offsite Destination (optional)" : "Destination Path"}</Label>
                 <Input
                   value={editingJob.destination_path || ""}
                   onChange={(e) => setEditingJob({ ...editingJob, destination_path: e.target.value })}
-                  placeholder="gdrive:backups/nextcloud"
+                  placeholder={editingJob.type === "immich_db_backup" ? "gdrive:backups/immich-db (leave empty to keep local only)" : "gdrive:backups/nextcloud"}
                   className="font-mono text-sm"
                 />
-              </div>
+              </div>}
 
               {/* ── Schedule Picker ─────────────────────────── */}
               <div className="space-y-3">
@@ -914,7 +1232,7 @@ export default function JobsPage() {
                         <SelectItem value="daily">Every day</SelectItem>
                         <SelectItem value="every_hours">Every N hours</SelectItem>
                         <SelectItem value="weekly">Weekly</SelectItem>
-                        <SelectItem value="custom">Custom (text)</SelectItem>
+                        <SelectItem value="custom">Custom (cron)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -1009,6 +1327,15 @@ export default function JobsPage() {
                       />
                     </div>
                   )}
+                  {schedule.freq === "custom" && cronError(schedule.customText) && (
+                    <p className="text-[10px] text-red-500">{cronError(schedule.customText)}</p>
+                  )}
+                  {schedule.freq === "custom" && (
+                    <p className="text-[10px] text-muted-foreground">
+                      5-field cron (minute hour day month weekday), evaluated in the Settings timezone.
+                      Supports ranges, steps and lists, e.g. <code className="bg-accent px-1 rounded">30 1 * * mon-fri</code> or <code className="bg-accent px-1 rounded">0 */6 1,15 * *</code>
+                    </p>
+                  )}
 
                   {/* Preview */}
                   <p className="text-[10px] text-muted-foreground pt-1 border-t border-border/30">
@@ -1017,8 +1344,24 @@ export default function JobsPage() {
                 </div>
               </div>
 
+              {/* ── immich-go flags (free text) ─────────────── */}
+              {editingJob.type === "immich_go_import" && (
+                <div className="space-y-2">
+                  <Label>immich-go Flags</Label>
+                  <Input
+                    value={editingJob.flags || ""}
+                    onChange={(e) => setEditingJob({ ...editingJob, flags: e.target.value })}
+                    placeholder="--manage-raw-jpeg=StackCoverRaw --include-partner=false"
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Extra flags appended to <code className="bg-accent px-1 rounded">immich-go upload</code>. Server, API key and --no-ui are added automatically.
+                  </p>
+                </div>
+              )}
+
               {/* ── Flags (presets + checkboxes with tooltips) ── */}
-              <div className="space-y-3">
+              {editingJob.type !== "immich_go_import" && <div className="space-y-3">
                 <div className="flex items-center gap-1.5">
                   <Label>Rclone Flags</Label>
                   <Tooltip>
@@ -1079,6 +1422,273 @@ export default function JobsPage() {
                     {renderFlagGroup("behavior")}
                   </div>
                 </div>
+              </div>}
+
+              {/* ── Bandwidth ───────────────────────────────── */}
+              {editingJob.type !== "immich_go_import" && (
+                <div className="space-y-2">
+                  <Label>Bandwidth Limit</Label>
+                  <Input
+                    value={editingJob.bwlimit || ""}
+                    onChange={(e) => setEditingJob({ ...editingJob, bwlimit: e.target.value })}
+                    placeholder="Settings default"
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    A rate like <code className="bg-accent px-1 rounded">5M</code> or a timetable like <code className="bg-accent px-1 rounded">08:00,512K 23:00,off</code>.
+                    Leave empty to use the bandwidth schedule from Settings.
+                  </p>
+                </div>
+              )}
+
+              {/* ── Scheduled verification ──────────────────── */}
+              {(editingJob.type === "rclone_copy" || editingJob.type === "rclone_sync") && (
+                <div className="space-y-2">
+                  <Label>Scheduled Verification</Label>
+                  <div className="space-y-2 p-3 rounded-lg border border-border/50 bg-accent/20">
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Size check</Label>
+                      <Input
+                        value={editingJob.verify_schedule || ""}
+                        onChange={(e) => setEditingJob({ ...editingJob, verify_schedule: e.target.value })}
+                        placeholder="weekly sun 04:00"
+                        className="h-8 text-xs font-mono"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Checksum</Label>
+                      <Input
+                        value={editingJob.verify_checksum_schedule || ""}
+                        onChange={(e) => setEditingJob({ ...editingJob, verify_checksum_schedule: e.target.value })}
+                        placeholder="0 4 1 * *"
+                        className="h-8 text-xs font-mono"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Stale after</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={editingJob.verify_max_age_days ?? 0}
+                        onChange={(e) => setEditingJob({ ...editingJob, verify_max_age_days: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                        className="h-8 text-xs w-20"
+                      />
+                      <span className="text-xs text-muted-foreground">days without a successful verify (0 = never)</span>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      Same formats as the schedule: <code className="bg-accent px-1 rounded">daily 03:00</code>, <code className="bg-accent px-1 rounded">every 24h</code>,{" "}
+                      <code className="bg-accent px-1 rounded">weekly sun 04:00</code> or a cron expression (<code className="bg-accent px-1 rounded">0 4 1 * *</code> = monthly).
+                      Leave empty for manual verification only. The dashboard flags the job once its last successful verification is too old.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* ── Retries ─────────────────────────────────── */}
+              <div className="space-y-2">
+                <Label>Retries</Label>
+                <div className="space-y-2 p-3 rounded-lg border border-border/50 bg-accent/20">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Attempts</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={editingJob.retry_max_attempts ?? 1}
+                      onChange={(e) => setEditingJob({ ...editingJob, retry_max_attempts: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className="h-8 text-xs w-20"
+                    />
+                    <span className="text-xs text-muted-foreground">total, including the first run (1 = no retries)</span>
+                  </div>
+                  {(editingJob.retry_max_attempts ?? 1) > 1 && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Backoff</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={Math.round((editingJob.retry_backoff_seconds ?? 300) / 60)}
+                          onChange={(e) => setEditingJob({ ...editingJob, retry_backoff_seconds: Math.max(0, parseInt(e.target.value, 10) || 0) * 60 })}
+                          className="h-8 text-xs w-20"
+                        />
+                        <span className="text-xs text-muted-foreground">minutes before the first retry, doubled each time</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Exit codes</Label>
+                        <Input
+                          value={editingJob.retry_exit_codes || ""}
+                          onChange={(e) => setEditingJob({ ...editingJob, retry_exit_codes: e.target.value })}
+                          placeholder="any failure"
+                          className="h-8 text-xs font-mono"
+                        />
+                      </div>
+                      {(editingJob.retry_exit_codes || "").trim() && (
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={!!editingJob.retry_on_rate_limit}
+                            onCheckedChange={(checked) => setEditingJob({ ...editingJob, retry_on_rate_limit: checked ? 1 : 0 })}
+                          />
+                          <span className="text-xs text-muted-foreground">Also retry when rate limiting (403/429) was detected</span>
+                        </div>
+                      )}
+                      <p className="text-[10px] text-muted-foreground">
+                        Comma-separated exit codes worth retrying, e.g. <code className="bg-accent px-1 rounded">1, 5, 7</code>. Leave empty to retry any failure.
+                        Failure notifications are only sent once the last attempt fails.
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* ── Timeouts ────────────────────────────────── */}
+              <div className="space-y-2">
+                <Label>Timeouts</Label>
+                <div className="space-y-2 p-3 rounded-lg border border-border/50 bg-accent/20">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Max runtime</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={editingJob.max_runtime_minutes ?? 0}
+                      onChange={(e) => setEditingJob({ ...editingJob, max_runtime_minutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="h-8 text-xs w-20"
+                    />
+                    <span className="text-xs text-muted-foreground">minutes (0 = no limit)</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground w-20 flex-shrink-0">Stalled</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={editingJob.stall_timeout_minutes ?? 0}
+                      onChange={(e) => setEditingJob({ ...editingJob, stall_timeout_minutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="h-8 text-xs w-20"
+                    />
+                    <span className="text-xs text-muted-foreground">minutes without progress (0 = off)</span>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    The run is stopped and marked as timed out, and a failure notification is sent. Time spent paused doesn&apos;t count.
+                  </p>
+                </div>
+              </div>
+
+              {/* ── Dependencies ────────────────────────────── */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Run After</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={addDependency}
+                    disabled={!jobs.some((j) => j.id !== editingJob.id)}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                <div className="space-y-2 p-3 rounded-lg border border-border/50 bg-accent/20">
+                  {depsState.map((dep, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <Select
+                        value={String(dep.depends_on_job_id)}
+                        onValueChange={(v) => updateDependency(i, { depends_on_job_id: Number(v) })}
+                      >
+                        <SelectTrigger className="h-8 text-xs flex-1 min-w-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {jobs.map((j) => (
+                            <SelectItem key={j.id} value={String(j.id)}>
+                              {j.id === editingJob.id ? `${j.name} (this job)` : j.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={dep.trigger} onValueChange={(v) => updateDependency(i, { trigger: v as DependencyTrigger })}>
+                        <SelectTrigger className="h-8 text-xs w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="success">On success</SelectItem>
+                          <SelectItem value="failure">On failure</SelectItem>
+                          <SelectItem value="always">Always</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {editingJob.type !== "rclone_check" && (
+                        <Select value={dep.run_type} onValueChange={(v) => updateDependency(i, { run_type: v as RunType })}>
+                          <SelectTrigger className="h-8 text-xs w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="backup">Run</SelectItem>
+                            <SelectItem value="verify">Verify</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setDepsState((prev) => prev.filter((_, j) => j !== i))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-[10px] text-muted-foreground">
+                    Queue this job when another job&apos;s run finishes — e.g. back up the library after the database dump succeeded,
+                    or pick this job with <em>Verify</em> to check it after its own backup. Cancelled runs and failures that will
+                    still be retried don&apos;t start anything.
+                  </p>
+                </div>
+              </div>
+
+              {/* ── Hooks ───────────────────────────────────── */}
+              <div className="space-y-2">
+                <Label>Hooks</Label>
+                <div className="space-y-3 p-3 rounded-lg border border-border/50 bg-accent/20">
+                  {HOOK_STAGES.map((stage) => (
+                    <div key={stage} className="space-y-1.5">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs">{HOOK_STAGE_INFO[stage].label}</Label>
+                        <Button type="button" variant="ghost" size="sm" className="h-6 text-xs" onClick={() => addHook(stage)}>
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add
+                        </Button>
+                      </div>
+                      {hooksState[stage].map((hook, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                          <Input
+                            value={hook.command}
+                            onChange={(e) => updateHook(stage, i, { command: e.target.value })}
+                            placeholder={stage === "pre" ? "docker exec nextcloud php occ maintenance:mode --on" : "shell command"}
+                            className="h-8 text-xs font-mono flex-1"
+                          />
+                          <Input
+                            type="number"
+                            min={1}
+                            value={hook.timeout_seconds}
+                            onChange={(e) => updateHook(stage, i, { timeout_seconds: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                            className="h-8 text-xs w-20"
+                            title="Timeout in seconds"
+                          />
+                          <span className="text-xs text-muted-foreground">s</span>
+                          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeHook(stage, i)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                      <p className="text-[10px] text-muted-foreground">{HOOK_STAGE_INFO[stage].hint}</p>
+                    </div>
+                  ))}
+                  <p className="text-[10px] text-muted-foreground">
+                    Commands run with <code className="bg-accent px-1 rounded">sh -c</code> on backup runs (not verify runs), with their output in the run log.
+                    They get <code className="bg-accent px-1 rounded">BACKUP_JOB_ID</code>, <code className="bg-accent px-1 rounded">BACKUP_JOB_NAME</code>, <code className="bg-accent px-1 rounded">BACKUP_RUN_ID</code> and, after the run, <code className="bg-accent px-1 rounded">BACKUP_RUN_STATUS</code>.
+                  </p>
+                </div>
               </div>
 
               {/* Description */}
@@ -1092,6 +1702,19 @@ export default function JobsPage() {
                 />
               </div>
 
+              {/* Tags */}
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <Input
+                  value={editingJob.tags || ""}
+                  onChange={(e) => setEditingJob({ ...editingJob, tags: e.target.value })}
+                  placeholder="immich, photos"
+                />
+                <p className="text-[10px] text-muted-foreground">
+                  Comma-separated. Notification rules in Settings can route messages by tag.
+                </p>
+              </div>
+
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setDialogOpen(false)}>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -11,6 +11,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   CheckCircle2,
   XCircle,
@@ -27,9 +35,18 @@ import {
   ShieldCheck,
   ShieldAlert,
   ShieldQuestion,
+  ShieldEllipsis,
+  ListOrdered,
+  Pause,
+  Play,
+  Gauge,
+  TimerOff,
 } from "lucide-react";
 import { toast } from "sonner";
-import type { DashboardStats, Run, RunStatus } from "@/lib/types";
+import { RunLogViewer } from "@/components/run-log-viewer";
+import { RunFileList } from "@/components/run-file-list";
+import { useRunEvents } from "@/hooks/use-run-events";
+import type { DashboardStats, JobWithLastRun, Run, RunEvent, RunProgress, RunStatus } from "@/lib/types";
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B";
@@ -48,6 +65,24 @@ function formatDuration(seconds: number | null): string {
   return `${h}h ${m}m`;
 }
 
+/** One-line live progress: "1.2 GB / 4.0 GB (30%) · 12/40 files · 8.1 MB/s · ETA 5m 2s" */
+function formatProgress(p: RunProgress): string {
+  const parts: string[] = [];
+  if (p.total_checks != null) {
+    parts.push(`Checked ${p.checks ?? 0}${p.total_checks != null ? `/${p.total_checks}` : ""} files`);
+  } else {
+    if (p.bytes > 0 || p.total_bytes != null) {
+      parts.push(p.total_bytes != null ? `${formatBytes(p.bytes)} / ${formatBytes(p.total_bytes)}` : formatBytes(p.bytes));
+    }
+    parts.push(`${p.files}${p.total_files != null ? `/${p.total_files}` : ""} files`);
+  }
+  if (p.percent != null) parts[0] += ` (${Math.round(p.percent)}%)`;
+  if (p.speed_bps) parts.push(`${formatBytes(p.speed_bps)}/s`);
+  if (p.eta_seconds) parts.push(`ETA ${formatDuration(p.eta_seconds)}`);
+  if (p.errors > 0) parts.push(`${p.errors} errors`);
+  return parts.join(" \u00B7 ");
+}
+
 /** Parse a date string from SQLite, ensuring UTC interpretation */
 function parseUTC(dateStr: string): Date {
   // If the string has no timezone indicator, append "Z" so JS treats it as UTC
@@ -80,24 +115,50 @@ function statusBadge(status: RunStatus | null) {
       return <Badge variant="outline" className="border-emerald-500/30 text-emerald-500 bg-emerald-500/10">Success</Badge>;
     case "failure":
       return <Badge variant="outline" className="border-red-500/30 text-red-500 bg-red-500/10">Failed</Badge>;
+    case "timed_out":
+      return <Badge variant="outline" className="border-orange-500/30 text-orange-500 bg-orange-500/10">Timed out</Badge>;
     case "running":
       return <Badge variant="outline" className="border-blue-500/30 text-blue-500 bg-blue-500/10">Running</Badge>;
+    case "paused":
+      return <Badge variant="outline" className="border-amber-500/30 text-amber-500 bg-amber-500/10">Paused</Badge>;
     case "cancelled":
       return <Badge variant="outline" className="border-yellow-500/30 text-yellow-500 bg-yellow-500/10">Cancelled</Badge>;
+    case "queued":
+      return <Badge variant="outline" className="border-violet-500/30 text-violet-400 bg-violet-500/10">Queued</Badge>;
+    case "skipped":
+      return <Badge variant="outline" className="border-gray-500/30 text-gray-400 bg-gray-500/10">Skipped</Badge>;
     default:
       return <Badge variant="outline" className="text-muted-foreground">No runs</Badge>;
   }
 }
 
-function verifyBadge(verifyStatus: string | null, verifyAt: string | null) {
+/** Whether the job has verify_max_age_days set and no successful verification within it */
+function isVerifyStale(job: JobWithLastRun): boolean {
+  if (!job.verify_max_age_days) return false;
+  if (!job.last_verify_ok_at) return true;
+  const okAt = job.last_verify_ok_at.endsWith("Z") ? job.last_verify_ok_at : job.last_verify_ok_at + "Z";
+  return Date.now() - new Date(okAt).getTime() > job.verify_max_age_days * 86400_000;
+}
+
+function verifyBadge(job: JobWithLastRun) {
+  const { last_verify_status: verifyStatus, last_verify_at: verifyAt } = job;
+  const stale = isVerifyStale(job);
   if (!verifyStatus || !verifyAt) {
     return (
-      <span className="inline-flex items-center gap-1 text-[10px] text-muted-foreground">
+      <span className={`inline-flex items-center gap-1 text-[10px] ${stale ? "text-amber-500" : "text-muted-foreground"}`}>
         <ShieldQuestion className="w-3 h-3" />
         Not verified
       </span>
     );
   }
+  if (verifyStatus === "success" && stale) {
+    return (
+      <span className="inline-flex items-center gap-1 text-[10px] text-amber-500">
+        <ShieldEllipsis className="w-3 h-3" />
+        Verification stale — last OK {timeAgo(job.last_verify_ok_at ?? verifyAt)}
+      </span>
+    );
+  }
   if (verifyStatus === "success") {
     return (
       <span className="inline-flex items-center gap-1 text-[10px] text-emerald-500">
@@ -122,6 +183,55 @@ function verifyBadge(verifyStatus: string | null, verifyAt: string | null) {
   );
 }
 
+// ── Live bandwidth ───────────────────────────────────────────
+
+const BANDWIDTH_PRESETS = [
+  { rate: "off", label: "Unlimited" },
+  { rate: "50M", label: "50 MB/s" },
+  { rate: "10M", label: "10 MB/s" },
+  { rate: "5M", label: "5 MB/s" },
+  { rate: "1M", label: "1 MB/s" },
+  { rate: "512K", label: "512 KB/s" },
+];
+
+/** Preset bandwidth limits for live rclone runs */
+function BandwidthMenu({
+  label,
+  variant = "ghost",
+  disabled,
+  className,
+  onSelect,
+}: {
+  label: string;
+  variant?: "ghost" | "outline";
+  disabled?: boolean;
+  className?: string;
+  onSelect: (rate: string) => void;
+}) {
+  return (
+    // Menu clicks must not open the run dialog of the card underneath
+    <span onClick={(e) => e.stopPropagation()} className="flex-shrink-0">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={variant} size="sm" className={className} disabled={disabled} title="Change bandwidth limit">
+            <Gauge className="w-3.5 h-3.5 mr-1" />
+            {label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="text-xs">Bandwidth limit</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {BANDWIDTH_PRESETS.map((preset) => (
+            <DropdownMenuItem key={preset.rate} onSelect={() => onSelect(preset.rate)}>
+              {preset.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </span>
+  );
+}
+
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -142,25 +252,30 @@ export default function DashboardPage() {
     }
   }, []);
 
-  useEffect(() => {
-    fetchStats();
-    const interval = setInterval(fetchStats, 10000);
-    return () => clearInterval(interval);
+  // Lifecycle events (queued/started/finished) refresh the overview right away;
+  // the slow poll only catches what happened while the stream was down
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const selectedRunId = useRef<number | null>(null);
+  selectedRunId.current = dialogOpen && selectedRun ? selectedRun.id : null;
+
+  const handleRunEvent = useCallback((event: RunEvent) => {
+    if (event.type === "progress") return;
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(fetchStats, 300);
+    if (event.run_id === selectedRunId.current) {
+      fetch(`/api/runs/${event.run_id}`).then((r) => r.json()).then(setSelectedRun).catch(() => {});
+    }
   }, [fetchStats]);
+  const liveProgress = useRunEvents(handleRunEvent);
 
-  // Also auto-refresh selected run if it's still running
   useEffect(() => {
-    if (!selectedRun || selectedRun.status !== "running" || !dialogOpen) return;
-    const interval = setInterval(async () => {
-      try {
-        const res = await fetch(`/api/runs/${selectedRun.id}`);
-        const data = await res.json();
-        setSelectedRun(data);
-        if (data.status !== "running") clearInterval(interval);
-      } catch { /* ignore */ }
-    }, 3000);
-    return () => clearInterval(interval);
-  }, [selectedRun, dialogOpen]);
+    fetchStats();
+    const interval = setInterval(fetchStats, 60000);
+    return () => {
+      clearInterval(interval);
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
+  }, [fetchStats]);
 
   const handleStopRun = async (runId: number, e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
@@ -169,14 +284,8 @@ export default function DashboardPage() {
       const res = await fetch(`/api/runs/${runId}/stop`, { method: "POST" });
       const data = await res.json();
       if (res.ok) {
+        // The "finished" event refreshes the dashboard once the process exits
         toast.success(data.message || "Stop signal sent");
-        // Refresh after a moment
-        setTimeout(() => {
-          fetchStats();
-          if (selectedRun?.id === runId) {
-            fetch(`/api/runs/${runId}`).then(r => r.json()).then(setSelectedRun).catch(() => {});
-          }
-        }, 2000);
       } else {
         toast.error(data.error || "Failed to stop");
       }
@@ -191,6 +300,66 @@ export default function DashboardPage() {
     }
   };
 
+  const handlePauseResume = async (runId: number, action: "pause" | "resume", e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+    setStoppingRuns((prev) => new Set(prev).add(runId));
+    try {
+      const res = await fetch(`/api/runs/${runId}/${action}`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(data.message || (action === "pause" ? "Run paused" : "Run resumed"));
+      } else {
+        toast.error(data.error || `Failed to ${action}`);
+      }
+    } catch {
+      toast.error("Network error");
+    } finally {
+      setStoppingRuns((prev) => {
+        const next = new Set(prev);
+        next.delete(runId);
+        return next;
+      });
+    }
+  };
+
+  const handleBandwidth = async (runId: number, rate: string) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}/bandwidth`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rate }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(data.message || "Bandwidth changed");
+      } else {
+        toast.error(data.error || "Failed to change bandwidth");
+      }
+    } catch {
+      toast.error("Network error");
+    }
+  };
+
+  const handleThrottleAll = async (rate: string) => {
+    try {
+      const res = await fetch("/api/runs/bandwidth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rate }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to change bandwidth");
+      } else if (data.failed > 0) {
+        toast.warning(data.message);
+      } else {
+        toast.success(data.message);
+      }
+    } catch {
+      toast.error("Network error");
+    }
+  };
+
   const openRunDetail = async (runId: number) => {
     setLoadingRun(true);
     setDialogOpen(true);
@@ -205,6 +374,8 @@ export default function DashboardPage() {
     }
   };
 
+  const selectedLive = selectedRun ? liveProgress[selectedRun.id] : undefined;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -231,10 +402,15 @@ export default function DashboardPage() {
             Overview of your homelab backup system
           </p>
         </div>
-        <Button variant="outline" size="sm" onClick={fetchStats}>
-          <RefreshCw className="w-4 h-4 mr-2" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {stats.jobs_with_last_run.some((j) => j.last_run_status === "running") && (
+            <BandwidthMenu label="Throttle all" variant="outline" onSelect={handleThrottleAll} />
+          )}
+          <Button variant="outline" size="sm" onClick={fetchStats}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -315,6 +491,9 @@ export default function DashboardPage() {
               <div className="space-y-3">
                 {stats.jobs_with_last_run.map((job) => {
                   const isRunning = job.last_run_status === "running";
+                  const isQueued = job.last_run_status === "queued";
+                  const isPaused = job.last_run_status === "paused";
+                  const live = job.last_run_id ? liveProgress[job.last_run_id] : undefined;
 
                   return (
                     <div
@@ -328,7 +507,10 @@ export default function DashboardPage() {
                         <div className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${
                           job.last_run_status === "success" ? "bg-emerald-500" :
                           job.last_run_status === "failure" ? "bg-red-500" :
+                          job.last_run_status === "timed_out" ? "bg-orange-500" :
                           isRunning ? "bg-blue-500 animate-pulse" :
+                          isQueued ? "bg-violet-400" :
+                          isPaused ? "bg-amber-500" :
                           "bg-gray-500"
                         }`} />
                         <div className="flex-1 min-w-0">
@@ -345,12 +527,31 @@ export default function DashboardPage() {
                       </div>
 
                       {/* Live stats for running jobs */}
+                      {isRunning && live?.progress.percent != null && (
+                        <Progress value={live.progress.percent} className="mt-3 h-1.5" />
+                      )}
                       {isRunning && (
                         <div className="mt-3 flex items-center gap-3">
                           <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin flex-shrink-0" />
                           <p className="text-xs text-blue-400 flex-1 truncate">
-                            {job.last_run_summary || "Starting..."}
+                            {live ? formatProgress(live.progress) : job.last_run_summary || "Starting..."}
                           </p>
+                          <BandwidthMenu
+                            label="Limit"
+                            className="h-7 px-2 text-sky-400 hover:text-sky-300 hover:bg-sky-500/10"
+                            disabled={stoppingRuns.has(job.last_run_id!)}
+                            onSelect={(rate) => handleBandwidth(job.last_run_id!, rate)}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-amber-400 hover:text-amber-300 hover:bg-amber-500/10 flex-shrink-0"
+                            disabled={stoppingRuns.has(job.last_run_id!)}
+                            onClick={(e) => handlePauseResume(job.last_run_id!, "pause", e)}
+                          >
+                            <Pause className="w-3.5 h-3.5 mr-1" />
+                            Pause
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -368,8 +569,62 @@ export default function DashboardPage() {
                         </div>
                       )}
 
+                      {/* Suspended — by the user or the blackout window */}
+                      {isPaused && (
+                        <div className="mt-3 flex items-center gap-3">
+                          <Pause className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+                          <p className="text-xs text-amber-400 flex-1 truncate">
+                            {live ? `${formatProgress(live.progress)} · paused` : job.last_run_summary || "Paused"}
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10 flex-shrink-0"
+                            disabled={stoppingRuns.has(job.last_run_id!)}
+                            onClick={(e) => handlePauseResume(job.last_run_id!, "resume", e)}
+                          >
+                            <Play className="w-3.5 h-3.5 mr-1" />
+                            Resume
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 flex-shrink-0"
+                            disabled={stoppingRuns.has(job.last_run_id!)}
+                            onClick={(e) => handleStopRun(job.last_run_id!, e)}
+                          >
+                            <Square className="w-3.5 h-3.5 mr-1" />
+                            Stop
+                          </Button>
+                        </div>
+                      )}
+
+                      {/* Waiting for a free slot */}
+                      {isQueued && (
+                        <div className="mt-3 flex items-center gap-3">
+                          <ListOrdered className="w-3.5 h-3.5 text-violet-400 flex-shrink-0" />
+                          <p className="text-xs text-violet-300 flex-1 truncate">
+                            {job.last_run_summary || "Waiting in queue..."}
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-muted-foreground hover:text-red-300 hover:bg-red-500/10 flex-shrink-0"
+                            disabled={stoppingRuns.has(job.last_run_id!)}
+                            onClick={(e) => handleStopRun(job.last_run_id!, e)}
+                          >
+                            {stoppingRuns.has(job.last_run_id!) ? (
+                              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            ) : (
+                              <Square className="w-3.5 h-3.5 mr-1" />
+                            )}
+                            Remove
+                          </Button>
+                        </div>
+                      )}
+
                       {/* Compact summary for completed jobs */}
-                      {!isRunning && job.last_run_bytes != null && job.last_run_bytes > 0 && (
+                      {!isRunning && !isPaused && job.last_run_bytes != null && job.last_run_bytes > 0 && (
                         <p className="mt-2 text-[11px] text-muted-foreground truncate ml-6">
                           {formatBytes(job.last_run_bytes)}, {job.last_run_files} files
                         </p>
@@ -378,7 +633,7 @@ export default function DashboardPage() {
                       {/* Verification status for backup jobs */}
                       {(job.type === "rclone_copy" || job.type === "rclone_sync") && (
                         <div className="mt-2 ml-6">
-                          {verifyBadge(job.last_verify_status, job.last_verify_at)}
+                          {verifyBadge(job)}
                         </div>
                       )}
                     </div>
@@ -418,8 +673,12 @@ export default function DashboardPage() {
                       <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" />
                     ) : run.status === "failure" ? (
                       <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                    ) : run.status === "timed_out" ? (
+                      <TimerOff className="w-4 h-4 text-orange-500 flex-shrink-0" />
                     ) : run.status === "cancelled" ? (
                       <Ban className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                    ) : run.status === "queued" ? (
+                      <ListOrdered className="w-4 h-4 text-violet-400 flex-shrink-0" />
                     ) : (
                       <Loader2 className="w-4 h-4 text-blue-500 flex-shrink-0 animate-spin" />
                     )}
@@ -466,8 +725,8 @@ export default function DashboardPage() {
                       <p className="text-[11px] text-muted-foreground font-mono">{disk.mount}</p>
                     </div>
                     <span className={`text-sm font-medium ${
-                      disk.usage_percent >= 90 ? "text-red-500" :
-                      disk.usage_percent >= 70 ? "text-yellow-500" :
+                      100 - disk.usage_percent <= disk.critical_free_percent ? "text-red-500" :
+                      100 - disk.usage_percent <= disk.warning_free_percent ? "text-yellow-500" :
                       "text-emerald-500"
                     }`}>
                       {disk.usage_percent}%
@@ -559,6 +818,8 @@ export default function DashboardPage() {
                     <CheckCircle2 className="w-5 h-5 text-emerald-500" />
                   ) : selectedRun.status === "failure" ? (
                     <XCircle className="w-5 h-5 text-red-500" />
+                  ) : selectedRun.status === "timed_out" ? (
+                    <TimerOff className="w-5 h-5 text-orange-500" />
                   ) : selectedRun.status === "cancelled" ? (
                     <Ban className="w-5 h-5 text-yellow-500" />
                   ) : (
@@ -585,25 +846,28 @@ export default function DashboardPage() {
                 </div>
                 <div className="p-2.5 rounded-lg bg-accent/30 text-center">
                   <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Transferred</p>
-                  <p className="text-sm font-medium mt-0.5">{formatBytes(selectedRun.bytes_transferred || 0)}</p>
+                  <p className="text-sm font-medium mt-0.5">{formatBytes(selectedLive?.progress.bytes ?? (selectedRun.bytes_transferred || 0))}</p>
                 </div>
                 <div className="p-2.5 rounded-lg bg-accent/30 text-center">
                   <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Files</p>
-                  <p className="text-sm font-medium mt-0.5">{selectedRun.files_transferred || 0}</p>
+                  <p className="text-sm font-medium mt-0.5">{selectedLive?.progress.files ?? (selectedRun.files_transferred || 0)}</p>
                 </div>
                 <div className="p-2.5 rounded-lg bg-accent/30 text-center">
                   <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Errors</p>
-                  <p className={`text-sm font-medium mt-0.5 ${selectedRun.errors_count > 0 ? "text-red-500" : ""}`}>
-                    {selectedRun.errors_count}
+                  <p className={`text-sm font-medium mt-0.5 ${(selectedLive?.progress.errors ?? selectedRun.errors_count) > 0 ? "text-red-500" : ""}`}>
+                    {selectedLive?.progress.errors ?? selectedRun.errors_count}
                   </p>
                 </div>
               </div>
 
               {/* Running Status + Stop */}
+              {selectedRun.status === "running" && selectedLive?.progress.percent != null && (
+                <Progress value={selectedLive.progress.percent} className="h-1.5" />
+              )}
               {selectedRun.status === "running" && (
                 <div className="flex items-center gap-3 p-3 rounded-lg border border-blue-500/20 bg-blue-500/5">
                   <Loader2 className="w-4 h-4 text-blue-500 animate-spin flex-shrink-0" />
-                  <p className="text-sm text-blue-400 flex-1">{selectedRun.short_summary}</p>
+                  <p className="text-sm text-blue-400 flex-1">{selectedLive ? formatProgress(selectedLive.progress) : selectedRun.short_summary}</p>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -638,13 +902,14 @@ export default function DashboardPage() {
               </div>
 
               {/* Log Output */}
-              {selectedRun.log_excerpt && (
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground mb-2">Log Output</p>
-                  <pre className="p-3 rounded-lg bg-black/50 border border-border/30 text-[11px] font-mono text-gray-300 overflow-x-auto max-h-64 overflow-y-auto whitespace-pre-wrap break-all">
-                    {selectedRun.log_excerpt}
-                  </pre>
-                </div>
+              <RunLogViewer
+                runId={selectedRun.id}
+                active={selectedRun.status === "running" || selectedRun.status === "paused" || selectedRun.status === "queued"}
+              />
+
+              {/* Files */}
+              {selectedRun.status !== "queued" && selectedRun.status !== "skipped" && (
+                <RunFileList runId={selectedRun.id} active={selectedRun.status === "running"} />
               )}
             </div>
           ) : (
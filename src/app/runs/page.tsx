@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -17,13 +17,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   CheckCircle2,
   XCircle,
   Clock,
+  TimerOff,
   RefreshCw,
-  FileText,
   Timer,
   HardDrive,
   FileStack,
@@ -32,8 +31,18 @@ import {
   ShieldAlert,
   Loader2,
   ShieldQuestion,
+  ListOrdered,
+  X,
+  FileSearch,
+  Pause,
 } from "lucide-react";
-import type { Run, RunStatus } from "@/lib/types";
+import { toast } from "sonner";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { RunLogViewer } from "@/components/run-log-viewer";
+import { FileTouchList, RunFileList } from "@/components/run-file-list";
+import { useRunEvents, type LiveRunProgress } from "@/hooks/use-run-events";
+import type { Run, RunEvent, RunFileTouch, RunStatus } from "@/lib/types";
 
 function formatBytes(bytes: number | null): string {
   if (!bytes || bytes === 0) return "0 B";
@@ -52,6 +61,20 @@ function formatDuration(seconds: number | null): string {
   return `${h}h ${m}m`;
 }
 
+function formatEta(seconds: number | null): string {
+  if (seconds == null) return "—";
+  return seconds < 60 ? `${seconds}s` : formatDuration(seconds);
+}
+
+/** Live percent, or one derived from the stored progress columns of a running run */
+function runPercent(run: Run, live?: LiveRunProgress): number | null {
+  if (live) return live.progress.percent;
+  if (run.status !== "running" && run.status !== "paused") return null;
+  if (run.total_bytes) return Math.min(100, ((run.bytes_transferred ?? 0) / run.total_bytes) * 100);
+  if (run.total_transfers) return Math.min(100, ((run.files_transferred ?? 0) / run.total_transfers) * 100);
+  return null;
+}
+
 /** Parse a date string from SQLite, ensuring UTC interpretation */
 function parseUTC(dateStr: string): Date {
   if (!dateStr.endsWith("Z") && !dateStr.includes("+") && !dateStr.includes("T")) {
@@ -84,6 +107,12 @@ function statusIcon(status: RunStatus, runType?: string) {
         return <ShieldAlert className="w-5 h-5 text-red-500" />;
       case "running":
         return <Loader2 className="w-5 h-5 text-teal-500 animate-spin" />;
+      case "queued":
+        return <ListOrdered className="w-5 h-5 text-violet-400" />;
+      case "paused":
+        return <Pause className="w-5 h-5 text-amber-500" />;
+      case "timed_out":
+        return <TimerOff className="w-5 h-5 text-orange-500" />;
       default:
         return <ShieldQuestion className="w-5 h-5 text-yellow-500" />;
     }
@@ -93,10 +122,16 @@ function statusIcon(status: RunStatus, runType?: string) {
       return <CheckCircle2 className="w-5 h-5 text-emerald-500" />;
     case "failure":
       return <XCircle className="w-5 h-5 text-red-500" />;
+    case "timed_out":
+      return <TimerOff className="w-5 h-5 text-orange-500" />;
     case "running":
       return <RefreshCw className="w-5 h-5 text-blue-500 animate-spin" />;
     case "cancelled":
       return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
+    case "queued":
+      return <ListOrdered className="w-5 h-5 text-violet-400" />;
+    case "paused":
+      return <Pause className="w-5 h-5 text-amber-500" />;
     default:
       return <Clock className="w-5 h-5 text-gray-400" />;
   }
@@ -106,7 +141,10 @@ function statusBadge(status: RunStatus) {
   const map: Record<string, { cls: string; label: string }> = {
     success: { cls: "border-emerald-500/30 text-emerald-500 bg-emerald-500/10", label: "Success" },
     failure: { cls: "border-red-500/30 text-red-500 bg-red-500/10", label: "Failed" },
+    timed_out: { cls: "border-orange-500/30 text-orange-500 bg-orange-500/10", label: "Timed out" },
     running: { cls: "border-blue-500/30 text-blue-500 bg-blue-500/10", label: "Running" },
+    paused: { cls: "border-amber-500/30 text-amber-500 bg-amber-500/10", label: "Paused" },
+    queued: { cls: "border-violet-500/30 text-violet-400 bg-violet-500/10", label: "Queued" },
     cancelled: { cls: "border-yellow-500/30 text-yellow-500 bg-yellow-500/10", label: "Cancelled" },
     skipped: { cls: "border-gray-500/30 text-gray-400 bg-gray-500/10", label: "Skipped" },
   };
@@ -119,6 +157,11 @@ export default function RunsPage() {
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [selectedRun, setSelectedRun] = useState<Run | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [lookupOpen, setLookupOpen] = useState(false);
+  const [lookupPath, setLookupPath] = useState("");
+  const [lookupResults, setLookupResults] = useState<RunFileTouch[] | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
 
   const fetchRuns = useCallback(async () => {
     try {
@@ -143,6 +186,71 @@ export default function RunsPage() {
     fetchRuns();
   }, [fetchRuns]);
 
+  // Reload the list when a run is queued, starts or finishes
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const selectedRunId = useRef<number | null>(null);
+  selectedRunId.current = selectedRun?.id ?? null;
+
+  const handleRunEvent = useCallback((event: RunEvent) => {
+    if (event.type === "progress") return;
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(fetchRuns, 300);
+    if (event.run_id === selectedRunId.current) {
+      fetch(`/api/runs/${event.run_id}`).then((r) => r.json()).then(setSelectedRun).catch(() => {});
+    }
+  }, [fetchRuns]);
+  const liveProgress = useRunEvents(handleRunEvent);
+  const selectedLive = selectedRun ? liveProgress[selectedRun.id] : undefined;
+
+  const handleCancelQueued = async (runId: number) => {
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/runs/${runId}/stop`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(data.message || "Removed from queue");
+        setSelectedRun(null);
+        fetchRuns();
+      } else {
+        toast.error(data.error || "Failed to cancel run");
+      }
+    } catch {
+      toast.error("Network error");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const openRun = async (runId: number) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}`);
+      if (res.ok) {
+        setLookupOpen(false);
+        setSelectedRun(await res.json());
+      }
+    } catch {
+      toast.error("Network error");
+    }
+  };
+
+  const handleLookup = async () => {
+    if (!lookupPath.trim()) return;
+    setLookingUp(true);
+    try {
+      const res = await fetch(`/api/files/history?path=${encodeURIComponent(lookupPath.trim())}&partial=1`);
+      const data = await res.json();
+      if (res.ok) {
+        setLookupResults(data);
+      } else {
+        toast.error(data.error || "Lookup failed");
+      }
+    } catch {
+      toast.error("Network error");
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -170,10 +278,17 @@ export default function RunsPage() {
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="success">Success</SelectItem>
               <SelectItem value="failure">Failed</SelectItem>
+              <SelectItem value="timed_out">Timed out</SelectItem>
               <SelectItem value="running">Running</SelectItem>
+              <SelectItem value="paused">Paused</SelectItem>
+              <SelectItem value="queued">Queued</SelectItem>
               <SelectItem value="verify">Verify Runs</SelectItem>
             </SelectContent>
           </Select>
+          <Button variant="outline" size="sm" onClick={() => setLookupOpen(true)}>
+            <FileSearch className="w-4 h-4 mr-2" />
+            Find File
+          </Button>
           <Button variant="outline" size="sm" onClick={fetchRuns}>
             <RefreshCw className="w-4 h-4 mr-2" />
             Refresh
@@ -198,6 +313,21 @@ export default function RunsPage() {
                   <div className="flex items-center gap-2 flex-wrap">
                     <p className="text-sm font-medium">{run.job_name || `Job #${run.job_id}`}</p>
                     {statusBadge(run.status)}
+                    {run.status === "queued" && run.queue_position != null && (
+                      <Badge variant="outline" className="text-[10px] border-violet-500/30 text-violet-400">
+                        #{run.queue_position} in queue
+                      </Badge>
+                    )}
+                    {run.attempt > 1 && (
+                      <Badge variant="outline" className="text-[10px] border-amber-500/30 text-amber-500 bg-amber-500/10">
+                        Attempt {run.attempt}
+                      </Badge>
+                    )}
+                    {run.failure_reason === "auth_expired" && (
+                      <Badge variant="outline" className="text-[10px] border-red-500/30 text-red-500 bg-red-500/10">
+                        Auth expired
+                      </Badge>
+                    )}
                     {run.run_type === "verify" && (
                       <Badge variant="outline" className="text-[10px] border-teal-500/30 text-teal-500 bg-teal-500/10">
                         Verify
@@ -206,8 +336,11 @@ export default function RunsPage() {
                     <span className="text-xs text-muted-foreground">Run #{run.id}</span>
                   </div>
                   <p className="text-xs text-muted-foreground mt-1 truncate">
-                    {run.short_summary || "No summary available"}
+                    {liveProgress[run.id]?.summary || run.short_summary || "No summary available"}
                   </p>
+                  {runPercent(run, liveProgress[run.id]) != null && (
+                    <Progress value={runPercent(run, liveProgress[run.id])} className="mt-1.5 h-1" />
+                  )}
                 </div>
                 <div className="hidden sm:flex items-center gap-6 text-xs text-muted-foreground flex-shrink-0">
                   <div className="flex items-center gap-1.5">
@@ -216,11 +349,11 @@ export default function RunsPage() {
                   </div>
                   <div className="flex items-center gap-1.5">
                     <HardDrive className="w-3.5 h-3.5" />
-                    <span>{formatBytes(run.bytes_transferred)}</span>
+                    <span>{formatBytes(liveProgress[run.id]?.progress.bytes ?? run.bytes_transferred)}</span>
                   </div>
                   <div className="flex items-center gap-1.5">
                     <FileStack className="w-3.5 h-3.5" />
-                    <span>{run.files_transferred ?? 0} files</span>
+                    <span>{liveProgress[run.id]?.progress.files ?? run.files_transferred ?? 0} files</span>
                   </div>
                 </div>
                 <div className="text-right text-xs text-muted-foreground flex-shrink-0">
@@ -242,7 +375,7 @@ export default function RunsPage() {
 
       {/* Run Detail Dialog */}
       <Dialog open={!!selectedRun} onOpenChange={() => setSelectedRun(null)}>
-        <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           {selectedRun && (
             <>
               <DialogHeader>
@@ -259,6 +392,14 @@ export default function RunsPage() {
                     </div>
                     <p className="text-xs text-muted-foreground mt-1">
                       Run #{selectedRun.id} &middot; {formatDate(selectedRun.started_at)}
+                      {selectedRun.parent_run_id != null && (
+                        <>
+                          {" "}&middot; attempt {selectedRun.attempt}, retry of{" "}
+                          <button type="button" className="underline hover:text-foreground" onClick={() => openRun(selectedRun.parent_run_id!)}>
+                            #{selectedRun.parent_run_id}
+                          </button>
+                        </>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -276,20 +417,86 @@ export default function RunsPage() {
                   </div>
                   <div className="p-3 rounded-lg bg-accent/50">
                     <p className="text-[11px] text-muted-foreground uppercase">Data</p>
-                    <p className="text-sm font-medium mt-1">{formatBytes(selectedRun.bytes_transferred)}</p>
+                    <p className="text-sm font-medium mt-1">{formatBytes(selectedLive?.progress.bytes ?? selectedRun.bytes_transferred)}</p>
                   </div>
                   <div className="p-3 rounded-lg bg-accent/50">
                     <p className="text-[11px] text-muted-foreground uppercase">Files</p>
-                    <p className="text-sm font-medium mt-1">{selectedRun.files_transferred ?? 0}</p>
+                    <p className="text-sm font-medium mt-1">{selectedLive?.progress.files ?? selectedRun.files_transferred ?? 0}</p>
                   </div>
                 </div>
 
+                {/* Progress details */}
+                {(selectedRun.status === "running" || selectedRun.speed_bps != null || selectedRun.total_bytes != null) && (
+                  <div className="space-y-2">
+                    {runPercent(selectedRun, selectedLive) != null && (
+                      <Progress value={runPercent(selectedRun, selectedLive)} className="h-1.5" />
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
+                      <div>
+                        <p className="text-muted-foreground">{selectedRun.status === "running" ? "Speed" : "Avg speed"}</p>
+                        <p className="font-medium">
+                          {(selectedLive?.progress.speed_bps ?? selectedRun.speed_bps) != null
+                            ? `${formatBytes(selectedLive?.progress.speed_bps ?? selectedRun.speed_bps)}/s`
+                            : "—"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Total size</p>
+                        <p className="font-medium">
+                          {(selectedLive?.progress.total_bytes ?? selectedRun.total_bytes) != null
+                            ? formatBytes(selectedLive?.progress.total_bytes ?? selectedRun.total_bytes)
+                            : "—"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">{selectedRun.status === "running" ? "ETA" : "Checks"}</p>
+                        <p className="font-medium">
+                          {selectedRun.status === "running"
+                            ? formatEta(selectedLive?.progress.eta_seconds ?? selectedRun.eta_seconds)
+                            : selectedRun.checks ?? "—"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Rate limits</p>
+                        <p className={`font-medium ${(selectedLive?.progress.rate_limit_hits ?? selectedRun.rate_limit_hits) > 0 ? "text-yellow-500" : ""}`}>
+                          {selectedLive?.progress.rate_limit_hits ?? selectedRun.rate_limit_hits ?? 0}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Summary */}
                 <div>
                   <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Summary</p>
-                  <p className="text-sm">{selectedRun.short_summary}</p>
+                  <p className="text-sm">{selectedLive?.summary || selectedRun.short_summary}</p>
                 </div>
 
+                {/* Queue */}
+                {selectedRun.status === "queued" && (
+                  <div className="flex items-center gap-3 p-3 rounded-lg border border-violet-500/20 bg-violet-500/5">
+                    <ListOrdered className="w-4 h-4 text-violet-400 flex-shrink-0" />
+                    <p className="text-sm text-violet-300 flex-1">
+                      {selectedRun.queue_position == null && selectedRun.not_before
+                        ? `Retry attempt ${selectedRun.attempt} scheduled for ${formatDate(selectedRun.not_before)}`
+                        : `Waiting for a free slot${selectedRun.queue_position != null ? ` — position #${selectedRun.queue_position} in queue` : ""}`}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={cancelling}
+                      onClick={() => handleCancelQueued(selectedRun.id)}
+                    >
+                      {cancelling ? (
+                        <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                      ) : (
+                        <X className="w-3.5 h-3.5 mr-1.5" />
+                      )}
+                      Remove
+                    </Button>
+                  </div>
+                )}
+
                 {/* Errors */}
                 {selectedRun.errors_count > 0 && (
                   <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20">
@@ -300,24 +507,67 @@ export default function RunsPage() {
                 )}
 
                 {/* Log */}
-                {selectedRun.log_excerpt && (
-                  <div>
-                    <div className="flex items-center gap-2 mb-2">
-                      <FileText className="w-3.5 h-3.5 text-muted-foreground" />
-                      <p className="text-xs font-medium text-muted-foreground uppercase">Log Output</p>
-                    </div>
-                    <ScrollArea className="h-48 rounded-lg border border-border bg-black/40 p-4">
-                      <pre className="text-xs font-mono text-green-400 whitespace-pre-wrap">
-                        {selectedRun.log_excerpt}
-                      </pre>
-                    </ScrollArea>
-                  </div>
+                <RunLogViewer
+                  runId={selectedRun.id}
+                  active={selectedRun.status === "running" || selectedRun.status === "paused" || selectedRun.status === "queued"}
+                />
+
+                {/* Files */}
+                {selectedRun.status !== "queued" && selectedRun.status !== "skipped" && (
+                  <RunFileList
+                    runId={selectedRun.id}
+                    active={selectedRun.status === "running"}
+                    onSelectRun={openRun}
+                  />
                 )}
               </div>
             </>
           )}
         </DialogContent>
       </Dialog>
+
+      {/* File lookup */}
+      <Dialog open={lookupOpen} onOpenChange={setLookupOpen}>
+        <DialogContent className="max-w-xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Find File</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Which runs copied, updated, deleted or failed on a file — newest first.
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleLookup();
+            }}
+          >
+            <Input
+              value={lookupPath}
+              onChange={(e) => setLookupPath(e.target.value)}
+              placeholder="Path or part of it, e.g. 2024/IMG_0001.jpg"
+              className="font-mono text-sm"
+            />
+            <Button type="submit" disabled={lookingUp || !lookupPath.trim()}>
+              {lookingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : "Search"}
+            </Button>
+          </form>
+          {lookupResults && (
+            <div className="space-y-1">
+              {lookupResults.length > 0 && (
+                <p className="text-xs text-muted-foreground">{lookupResults.length} match(es)</p>
+              )}
+              {lookupResults.map((touch) => (
+                <div key={touch.id}>
+                  <p className="text-[11px] font-mono text-muted-foreground truncate px-2" title={touch.path}>{touch.path}</p>
+                  <FileTouchList touches={[touch]} onSelectRun={openRun} />
+                </div>
+              ))}
+              {lookupResults.length === 0 && <FileTouchList touches={[]} />}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -7,6 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import {
   Select,
   SelectContent,
@@ -26,54 +28,163 @@ import {
   Trash2,
   Send,
   Globe,
+  Moon,
+  ListOrdered,
+  Database,
+  ImagePlus,
+  ScrollText,
+  KeyRound,
+  Pencil,
+  ChevronUp,
+  ChevronDown,
+  Route,
 } from "lucide-react";
 import { toast } from "sonner";
+import { CHANNEL_TYPES, CHANNEL_TYPE_LIST, parseChannelConfig } from "@/lib/notification-channels";
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LIST,
+  SEVERITIES,
+  describeRuleMatch,
+  parseJobTags,
+  parseRuleChannelIds,
+  parseRuleEvents,
+} from "@/lib/notification-rules";
+import type {
+  Channel,
+  Job,
+  NotificationChannel,
+  NotificationEventType,
+  NotificationRoute,
+  NotificationRule,
+  NotificationSeverity,
+  RemoteHealth,
+} from "@/lib/types";
 
 interface DiskEntry {
   mount: string;
   label: string;
+  // Blank = the default thresholds below the list
+  warning_free_percent?: string;
+  critical_free_percent?: string;
+}
+
+/** The channel being added (id null) or edited */
+interface ChannelForm {
+  id: number | null;
+  type: NotificationChannel;
+  name: string;
+  config: Record<string, string>;
+}
+
+/** The routing rule being added (id null) or edited */
+interface RuleForm {
+  id: number | null;
+  name: string;
+  job_id: number | null;
+  job_tag: string;
+  events: NotificationEventType[];
+  min_severity: NotificationSeverity | "";
+  channel_ids: number[];
 }
 
 interface SettingsState {
-  // Telegram
-  telegram_bot_token: string;
-  telegram_chat_id: string;
-  telegram_enabled: string;
+  // Notifications
   notify_on_failure: string;
   notify_on_success: string;
+  notify_on_skip: string;
   notify_daily_digest: string;
+  daily_digest_time: string;
+  notify_low_disk: string;
+  notify_auth_expired: string;
   // Rclone
   rclone_remote_name: string;
   rclone_config_path: string;
   gdrive_backup_folder: string;
   max_bandwidth: string;
+  bandwidth_schedule: string;
+  rate_limit_threshold: string;
+  rate_limit_max_restarts: string;
+  remote_probe_interval_hours: string;
   // Storage paths
   path_nextcloud_data: string;
   path_immich_data: string;
   path_immich_db_backups: string;
   path_media_library: string;
+  // Immich database dumps
+  immich_db_method: string;
+  immich_db_container: string;
+  immich_db_host: string;
+  immich_db_port: string;
+  immich_db_user: string;
+  immich_db_password: string;
+  immich_db_name: string;
+  immich_db_retention: string;
+  immich_server_url: string;
+  immich_api_key: string;
+  immich_go_path: string;
   // Disks
   disks_config: string;
+  disk_warning_free_percent: string;
+  disk_critical_free_percent: string;
+  disk_block_on_critical: string;
+  // Scheduling
+  max_concurrent_jobs: string;
+  blackout_enabled: string;
+  blackout_start: string;
+  blackout_end: string;
+  blackout_action: string;
+  blackout_running_action: string;
+  // Run logs
+  log_retention_days: string;
+  log_retention_max_mb: string;
   // General
   timezone: string;
 }
 
 const defaultSettings: SettingsState = {
-  telegram_bot_token: "",
-  telegram_chat_id: "",
-  telegram_enabled: "false",
   notify_on_failure: "true",
   notify_on_success: "false",
+  notify_on_skip: "true",
   notify_daily_digest: "true",
+  daily_digest_time: "08:00",
+  notify_low_disk: "true",
+  notify_auth_expired: "true",
   rclone_remote_name: "",
   rclone_config_path: "",
   gdrive_backup_folder: "",
   max_bandwidth: "10M",
+  bandwidth_schedule: "",
+  rate_limit_threshold: "20",
+  rate_limit_max_restarts: "2",
+  remote_probe_interval_hours: "6",
   path_nextcloud_data: "",
   path_immich_data: "",
   path_immich_db_backups: "",
   path_media_library: "",
+  immich_db_method: "docker",
+  immich_db_container: "immich_postgres",
+  immich_db_host: "",
+  immich_db_port: "5432",
+  immich_db_user: "postgres",
+  immich_db_password: "",
+  immich_db_name: "immich",
+  immich_db_retention: "14",
+  immich_server_url: "",
+  immich_api_key: "",
+  immich_go_path: "immich-go",
   disks_config: "[]",
+  disk_warning_free_percent: "15",
+  disk_critical_free_percent: "5",
+  disk_block_on_critical: "false",
+  max_concurrent_jobs: "1",
+  blackout_enabled: "true",
+  blackout_start: "18:00",
+  blackout_end: "23:00",
+  blackout_action: "defer",
+  blackout_running_action: "none",
+  log_retention_days: "30",
+  log_retention_max_mb: "1024",
   timezone: "Europe/Kyiv",
 };
 
@@ -94,7 +205,24 @@ export default function SettingsPage() {
   const [disks, setDisks] = useState<DiskEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [sendingTest, setSendingTest] = useState(false);
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [channelForm, setChannelForm] = useState<ChannelForm | null>(null);
+  const [savingChannel, setSavingChannel] = useState(false);
+  // Channel id being tested, or "form" for the unsaved form
+  const [testingChannel, setTestingChannel] = useState<number | "form" | null>(null);
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [savingRule, setSavingRule] = useState(false);
+  const [jobs, setJobs] = useState<Pick<Job, "id" | "name" | "tags">[]>([]);
+  const [preview, setPreview] = useState<{ event: NotificationEventType; severity: NotificationSeverity; job_id: number | null }>({
+    event: "RUN_FAILED",
+    severity: "critical",
+    job_id: null,
+  });
+  const [previewResult, setPreviewResult] = useState<NotificationRoute | null>(null);
+  const [sendingDigest, setSendingDigest] = useState(false);
+  const [remotes, setRemotes] = useState<RemoteHealth[]>([]);
+  const [probingRemotes, setProbingRemotes] = useState(false);
 
   const fetchSettings = useCallback(async () => {
     try {
@@ -115,9 +243,40 @@ export default function SettingsPage() {
     }
   }, []);
 
+  const fetchRemotes = useCallback(async () => {
+    try {
+      const res = await fetch("/api/remotes");
+      if (res.ok) setRemotes(await res.json());
+    } catch (e) {
+      console.error("Failed to fetch remote health", e);
+    }
+  }, []);
+
+  const fetchChannels = useCallback(async () => {
+    try {
+      const res = await fetch("/api/notifications/channels");
+      if (res.ok) setChannels(await res.json());
+    } catch (e) {
+      console.error("Failed to fetch notification channels", e);
+    }
+  }, []);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [rulesRes, jobsRes] = await Promise.all([fetch("/api/notifications/rules"), fetch("/api/jobs")]);
+      if (rulesRes.ok) setRules(await rulesRes.json());
+      if (jobsRes.ok) setJobs(await jobsRes.json());
+    } catch (e) {
+      console.error("Failed to fetch notification rules", e);
+    }
+  }, []);
+
   useEffect(() => {
     fetchSettings();
-  }, [fetchSettings]);
+    fetchRemotes();
+    fetchChannels();
+    fetchRules();
+  }, [fetchSettings, fetchRemotes, fetchChannels, fetchRules]);
 
   const handleSave = async () => {
     setSaving(true);
@@ -126,11 +285,16 @@ export default function SettingsPage() {
         ...settings,
         disks_config: JSON.stringify(disks),
       };
-      await fetch("/api/settings", {
+      const res = await fetch("/api/settings", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || "Failed to save settings");
+        return;
+      }
       toast.success("Settings saved successfully");
     } catch {
       toast.error("Failed to save settings");
@@ -151,7 +315,7 @@ export default function SettingsPage() {
   };
 
   const addDisk = () => {
-    setDisks((prev) => [...prev, { mount: "", label: "" }]);
+    setDisks((prev) => [...prev, { mount: "", label: "", warning_free_percent: "", critical_free_percent: "" }]);
   };
 
   const updateDisk = (index: number, field: keyof DiskEntry, value: string | number) => {
@@ -162,10 +326,94 @@ export default function SettingsPage() {
     setDisks((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const handleTestTelegram = async () => {
-    setSendingTest(true);
+  // ── Notification channels ──
+
+  const newChannel = (type: NotificationChannel = "telegram") => {
+    setChannelForm({ id: null, type, name: CHANNEL_TYPES[type].label, config: parseChannelConfig(type, "{}") });
+  };
+
+  const editChannel = (channel: Channel) => {
+    setChannelForm({ id: channel.id, type: channel.type, name: channel.name, config: parseChannelConfig(channel.type, channel.config) });
+  };
+
+  const changeChannelType = (type: NotificationChannel) => {
+    setChannelForm((prev) => prev && {
+      ...prev,
+      type,
+      // Keep a custom name, follow the type otherwise
+      name: !prev.name || prev.name === CHANNEL_TYPES[prev.type].label ? CHANNEL_TYPES[type].label : prev.name,
+      config: parseChannelConfig(type, "{}"),
+    });
+  };
+
+  const updateChannelField = (key: string, value: string) => {
+    setChannelForm((prev) => prev && { ...prev, config: { ...prev.config, [key]: value } });
+  };
+
+  const handleSaveChannel = async () => {
+    if (!channelForm) return;
+    setSavingChannel(true);
     try {
-      const res = await fetch("/api/notifications/test", { method: "POST" });
+      const { id, ...body } = channelForm;
+      const res = await fetch(id == null ? "/api/notifications/channels" : `/api/notifications/channels/${id}`, {
+        method: id == null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save channel");
+        return;
+      }
+      toast.success(id == null ? "Channel added" : "Channel saved");
+      setChannelForm(null);
+      fetchChannels();
+    } catch {
+      toast.error("Failed to save channel");
+    } finally {
+      setSavingChannel(false);
+    }
+  };
+
+  const handleToggleChannel = async (channel: Channel) => {
+    try {
+      const res = await fetch(`/api/notifications/channels/${channel.id}`, { method: "PATCH" });
+      if (!res.ok) {
+        toast.error("Failed to update channel");
+        return;
+      }
+      fetchChannels();
+    } catch {
+      toast.error("Failed to update channel");
+    }
+  };
+
+  const handleDeleteChannel = async (channel: Channel) => {
+    if (!confirm(`Delete notification channel "${channel.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/notifications/channels/${channel.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        toast.error("Failed to delete channel");
+        return;
+      }
+      toast.success("Channel deleted");
+      if (channelForm?.id === channel.id) setChannelForm(null);
+      fetchChannels();
+    } catch {
+      toast.error("Failed to delete channel");
+    }
+  };
+
+  /** Test a saved channel, or the form as it is without saving it */
+  const handleTestChannel = async (channel: Channel | null) => {
+    setTestingChannel(channel ? channel.id : "form");
+    try {
+      const body = channel ? { channel_id: channel.id } : channelForm;
+      const res = await fetch("/api/notifications/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
       const data = await res.json();
       if (res.ok) {
         toast.success(data.message || "Test notification sent!");
@@ -175,7 +423,172 @@ export default function SettingsPage() {
     } catch {
       toast.error("Network error while sending test notification");
     } finally {
-      setSendingTest(false);
+      setTestingChannel(null);
+    }
+  };
+
+  // ── Routing rules ──
+
+  const newRule = () => {
+    setRuleForm({ id: null, name: "", job_id: null, job_tag: "", events: [], min_severity: "", channel_ids: [] });
+  };
+
+  const editRule = (rule: NotificationRule) => {
+    setRuleForm({
+      id: rule.id,
+      name: rule.name,
+      job_id: rule.job_id,
+      job_tag: rule.job_tag,
+      events: parseRuleEvents(rule.events),
+      min_severity: rule.min_severity,
+      channel_ids: parseRuleChannelIds(rule.channel_ids),
+    });
+  };
+
+  const toggleRuleItem = <K extends "events" | "channel_ids">(key: K, value: RuleForm[K][number]) => {
+    setRuleForm((prev) => {
+      if (!prev) return prev;
+      const list = prev[key] as RuleForm[K][number][];
+      return { ...prev, [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value] };
+    });
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm) return;
+    setSavingRule(true);
+    try {
+      const { id, ...body } = ruleForm;
+      const res = await fetch(id == null ? "/api/notifications/rules" : `/api/notifications/rules/${id}`, {
+        method: id == null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save rule");
+        return;
+      }
+      toast.success(id == null ? "Rule added" : "Rule saved");
+      setRuleForm(null);
+      setPreviewResult(null);
+      fetchRules();
+    } catch {
+      toast.error("Failed to save rule");
+    } finally {
+      setSavingRule(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: NotificationRule) => {
+    try {
+      const res = await fetch(`/api/notifications/rules/${rule.id}`, { method: "PATCH" });
+      if (!res.ok) {
+        toast.error("Failed to update rule");
+        return;
+      }
+      setPreviewResult(null);
+      fetchRules();
+    } catch {
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const handleDeleteRule = async (rule: NotificationRule) => {
+    if (!confirm(`Delete routing rule "${rule.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/notifications/rules/${rule.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        toast.error("Failed to delete rule");
+        return;
+      }
+      toast.success("Rule deleted");
+      if (ruleForm?.id === rule.id) setRuleForm(null);
+      setPreviewResult(null);
+      fetchRules();
+    } catch {
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  const handleMoveRule = async (index: number, offset: -1 | 1) => {
+    const ids = rules.map((r) => r.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      const res = await fetch("/api/notifications/rules/order", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      });
+      if (!res.ok) {
+        toast.error("Failed to reorder rules");
+        // The list may be out of date (a rule added or deleted elsewhere)
+        fetchRules();
+        return;
+      }
+      setRules(await res.json());
+      setPreviewResult(null);
+    } catch {
+      toast.error("Failed to reorder rules");
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      const res = await fetch("/api/notifications/rules/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preview),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to preview routing");
+        return;
+      }
+      setPreviewResult(data);
+    } catch {
+      toast.error("Network error while previewing routing");
+    }
+  };
+
+  const handleSendDigest = async () => {
+    setSendingDigest(true);
+    try {
+      const res = await fetch("/api/notifications/digest", { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(data.message || "Daily digest sent!");
+      } else {
+        toast.error(data.error || "Failed to send daily digest");
+      }
+    } catch {
+      toast.error("Network error while sending daily digest");
+    } finally {
+      setSendingDigest(false);
+    }
+  };
+
+  const handleProbeRemotes = async () => {
+    setProbingRemotes(true);
+    try {
+      const res = await fetch("/api/remotes", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to check remotes");
+        return;
+      }
+      setRemotes(data);
+      const expired = (data as RemoteHealth[]).filter((r) => r.status === "expired");
+      if (expired.length > 0) {
+        toast.error(`Auth expired: ${expired.map((r) => r.remote).join(", ")}`);
+      } else {
+        toast.success("Remote check finished");
+      }
+    } catch {
+      toast.error("Network error while checking remotes");
+    } finally {
+      setProbingRemotes(false);
     }
   };
 
@@ -235,6 +648,145 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* ── Run Queue ────────────────────────────────────────── */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-violet-500" />
+            <div>
+              <CardTitle className="text-base">Run Queue</CardTitle>
+              <CardDescription>Runs beyond the limit wait in the queue and start as slots free up</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label>Max Concurrent Jobs</Label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.max_concurrent_jobs}
+            onChange={(e) => update("max_concurrent_jobs", e.target.value)}
+            className="w-32 font-mono text-sm"
+          />
+          <p className="text-[11px] text-muted-foreground">
+            Applies to manual, scheduled and verification runs. Queued runs survive a restart.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* ── Run Logs ─────────────────────────────────────────── */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ScrollText className="w-5 h-5 text-slate-400" />
+            <div>
+              <CardTitle className="text-base">Run Logs</CardTitle>
+              <CardDescription>Full output of every run, gzip-compressed under data/logs once the run finishes</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Keep Logs (days)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={settings.log_retention_days}
+              onChange={(e) => update("log_retention_days", e.target.value)}
+              className="w-32 font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Max Total Size (MB)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={settings.log_retention_max_mb}
+              onChange={(e) => update("log_retention_max_mb", e.target.value)}
+              className="w-32 font-mono text-sm"
+            />
+          </div>
+          <p className="col-span-2 text-[11px] text-muted-foreground">
+            The oldest logs are deleted first once either limit is exceeded. 0 disables a limit.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* ── Blackout Window ──────────────────────────────────── */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Moon className="w-5 h-5 text-indigo-500" />
+            <div>
+              <CardTitle className="text-base">Blackout Window</CardTitle>
+              <CardDescription>Keep scheduled backups off the network while the homelab is busy (e.g. evening streaming)</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>Enforce blackout window</Label>
+            <Switch
+              checked={settings.blackout_enabled === "true"}
+              onCheckedChange={() => toggleBool("blackout_enabled")}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start</Label>
+              <Input
+                type="time"
+                value={settings.blackout_start}
+                onChange={(e) => update("blackout_start", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>End</Label>
+              <Input
+                type="time"
+                value={settings.blackout_end}
+                onChange={(e) => update("blackout_end", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Jobs due during the window</Label>
+            <Select
+              value={settings.blackout_action}
+              onValueChange={(v) => update("blackout_action", v)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="defer">Defer — run when the window ends</SelectItem>
+                <SelectItem value="skip">Skip — record as skipped run</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Jobs already running when the window starts</Label>
+            <Select
+              value={settings.blackout_running_action}
+              onValueChange={(v) => update("blackout_running_action", v)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Keep running</SelectItem>
+                <SelectItem value="pause">Pause until the window ends</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Times use the timezone above. A window may wrap past midnight (e.g. 22:00–02:00). &quot;Run Now&quot; ignores the blackout window.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* ── Storage Paths ────────────────────────────────────── */}
       <Card>
         <CardHeader>
@@ -286,6 +838,158 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* ── Immich Database ──────────────────────────────────── */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-orange-500" />
+            <div>
+              <CardTitle className="text-base">Immich Database</CardTitle>
+              <CardDescription>Used by &quot;Immich DB Backup&quot; jobs to create pg_dump snapshots</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Connection</Label>
+            <Select
+              value={settings.immich_db_method}
+              onValueChange={(v) => update("immich_db_method", v)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="docker">docker exec into the Postgres container</SelectItem>
+                <SelectItem value="direct">Direct connection (pg_dump in this container)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.immich_db_method === "direct" ? (
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <div className="space-y-2">
+                <Label>Host</Label>
+                <Input
+                  value={settings.immich_db_host}
+                  onChange={(e) => update("immich_db_host", e.target.value)}
+                  placeholder="192.168.1.50"
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Port</Label>
+                <Input
+                  value={settings.immich_db_port}
+                  onChange={(e) => update("immich_db_port", e.target.value)}
+                  placeholder="5432"
+                  className="w-24 font-mono text-sm"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Container Name</Label>
+              <Input
+                value={settings.immich_db_container}
+                onChange={(e) => update("immich_db_container", e.target.value)}
+                placeholder="immich_postgres"
+                className="font-mono text-sm"
+              />
+              <p className="text-[11px] text-muted-foreground">
+                Requires the Docker socket to be mounted into this container
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Input
+                value={settings.immich_db_user}
+                onChange={(e) => update("immich_db_user", e.target.value)}
+                placeholder="postgres"
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Password</Label>
+              <Input
+                type="password"
+                value={settings.immich_db_password}
+                onChange={(e) => update("immich_db_password", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Database</Label>
+              <Input
+                value={settings.immich_db_name}
+                onChange={(e) => update("immich_db_name", e.target.value)}
+                placeholder="immich"
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Keep Last N Dumps</Label>
+            <Input
+              type="number"
+              min={1}
+              value={settings.immich_db_retention}
+              onChange={(e) => update("immich_db_retention", e.target.value)}
+              className="w-32 font-mono text-sm"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Dumps are written to Storage Paths → Immich DB Backups (or the job&apos;s source path). Older ones are deleted.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* ── Immich Server ────────────────────────────────────── */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ImagePlus className="w-5 h-5 text-pink-500" />
+            <div>
+              <CardTitle className="text-base">Immich Server</CardTitle>
+              <CardDescription>Used by &quot;Immich-go Import&quot; jobs to upload assets with immich-go</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Server URL</Label>
+            <Input
+              value={settings.immich_server_url}
+              onChange={(e) => update("immich_server_url", e.target.value)}
+              placeholder="http://192.168.1.50:2283"
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>API Key</Label>
+            <Input
+              type="password"
+              value={settings.immich_api_key}
+              onChange={(e) => update("immich_api_key", e.target.value)}
+              className="font-mono text-sm"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Create one in Immich under Account Settings → API Keys. Assets are uploaded to that user&apos;s library.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>immich-go Binary</Label>
+            <Input
+              value={settings.immich_go_path}
+              onChange={(e) => update("immich_go_path", e.target.value)}
+              placeholder="immich-go"
+              className="font-mono text-sm"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* ── Disk Usage Config ────────────────────────────────── */}
       <Card>
         <CardHeader>
@@ -294,7 +998,7 @@ export default function SettingsPage() {
               <HardDrive className="w-5 h-5 text-violet-500" />
               <div>
                 <CardTitle className="text-base">Disk Usage</CardTitle>
-                <CardDescription>Disks shown on Dashboard — sizes are auto-detected via the mount path</CardDescription>
+                <CardDescription>Disks shown on Dashboard and watched for low free space — sizes are auto-detected via the mount path</CardDescription>
               </div>
             </div>
             <Button variant="outline" size="sm" onClick={addDisk}>
@@ -309,7 +1013,7 @@ export default function SettingsPage() {
             </p>
           )}
           {disks.map((disk, i) => (
-            <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div key={i} className="grid grid-cols-[1fr_1fr_96px_96px_auto] gap-2 items-end">
               <div className="space-y-1">
                 <Label className="text-xs text-muted-foreground">Mount point (must exist in container)</Label>
                 <Input
@@ -327,6 +1031,28 @@ export default function SettingsPage() {
                   placeholder="MEDIA"
                 />
               </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Warn at % free</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={disk.warning_free_percent ?? ""}
+                  onChange={(e) => updateDisk(i, "warning_free_percent", e.target.value)}
+                  placeholder={settings.disk_warning_free_percent}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Critical at % free</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={disk.critical_free_percent ?? ""}
+                  onChange={(e) => updateDisk(i, "critical_free_percent", e.target.value)}
+                  placeholder={settings.disk_critical_free_percent}
+                />
+              </div>
               <Button variant="ghost" size="sm" onClick={() => removeDisk(i)} className="mb-0.5">
                 <Trash2 className="w-4 h-4 text-muted-foreground" />
               </Button>
@@ -337,6 +1063,48 @@ export default function SettingsPage() {
               Total/Used/Free sizes are auto-detected from the mount paths using statfs. The directories must be bind-mounted into the Docker container.
             </p>
           )}
+          <Separator />
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Low Disk Space</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Default warning (% free)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={settings.disk_warning_free_percent}
+                  onChange={(e) => update("disk_warning_free_percent", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Default critical (% free)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={settings.disk_critical_free_percent}
+                  onChange={(e) => update("disk_critical_free_percent", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm">Block backups on critical disks</Label>
+                <p className="text-[11px] text-muted-foreground">
+                  Skip backups whose local destination is on a disk below its critical threshold
+                </p>
+              </div>
+              <Switch
+                checked={settings.disk_block_on_critical === "true"}
+                onCheckedChange={() => toggleBool("disk_block_on_critical")}
+              />
+            </div>
+            <p className="text-[11px] text-muted-foreground">
+              Disks are checked every minute. An alert is sent when a disk drops to a threshold and once it recovers.
+              Recovering takes 2% more free space than the threshold, so a disk hovering at the limit doesn&apos;t alert repeatedly.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -400,71 +1168,487 @@ export default function SettingsPage() {
               Limit upload speed (e.g. 10M = 10 MB/s). Leave empty for no limit.
             </p>
           </div>
+          <div className="space-y-2">
+            <Label>Bandwidth Schedule</Label>
+            <Input
+              value={settings.bandwidth_schedule}
+              onChange={(e) => update("bandwidth_schedule", e.target.value)}
+              placeholder="08:00,512K 23:00,off"
+              className="font-mono text-sm"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Time-of-day limits as <code className="bg-accent px-1 rounded">TIME,RATE</code> pairs, e.g. throttle during the day and run unlimited at night.
+              Days can be given as <code className="bg-accent px-1 rounded">Mon-08:00,1M</code>. Replaces Max Bandwidth when set; jobs can override it.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Rate-limit Threshold</Label>
+              <Input
+                type="number"
+                min={0}
+                value={settings.rate_limit_threshold}
+                onChange={(e) => update("rate_limit_threshold", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Max Restarts per Run</Label>
+              <Input
+                type="number"
+                min={0}
+                value={settings.rate_limit_max_restarts}
+                onChange={(e) => update("rate_limit_max_restarts", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-muted-foreground -mt-2">
+            After this many 403/429 rate-limit errors, rclone is restarted with half the <code className="bg-accent px-1 rounded">--tpslimit</code> and <code className="bg-accent px-1 rounded">--transfers</code>.
+            The lower limits are remembered per job. 0 disables adaptive tuning.
+          </p>
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <KeyRound className="w-4 h-4 text-muted-foreground" />
+                <p className="text-sm font-medium">Remote Auth Check</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleProbeRemotes} disabled={probingRemotes || remotes.length === 0}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${probingRemotes ? "animate-spin" : ""}`} />
+                Check Now
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-sm text-muted-foreground">Every</Label>
+              <Input
+                type="number"
+                min={0}
+                value={settings.remote_probe_interval_hours}
+                onChange={(e) => update("remote_probe_interval_hours", e.target.value)}
+                className="font-mono text-sm w-20"
+              />
+              <Label className="text-sm text-muted-foreground">hours</Label>
+            </div>
+            {remotes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No enabled job uses an rclone remote.</p>
+            ) : (
+              <div className="space-y-2">
+                {remotes.map((r) => (
+                  <div key={r.remote} className="flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-mono">{r.remote}:</p>
+                      <p className="text-[11px] text-muted-foreground truncate">
+                        {r.jobs.join(", ")}
+                        {r.detail ? ` — ${r.detail}` : ""}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className={`text-xs font-medium ${
+                        r.status === "expired" ? "text-red-500" :
+                        r.status === "error" ? "text-yellow-500" :
+                        r.status === "ok" ? "text-emerald-500" :
+                        "text-muted-foreground"
+                      }`}>
+                        {r.status === "expired" ? "Auth expired" : r.status === "error" ? "Unreachable" : r.status === "ok" ? "OK" : "Not checked"}
+                      </p>
+                      {r.checked_at && (
+                        <p className="text-[11px] text-muted-foreground">{new Date(r.checked_at).toLocaleString()}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[11px] text-muted-foreground">
+              Runs <code className="bg-accent px-1 rounded">rclone about</code> against each remote so an expired or revoked token is
+              noticed before the next scheduled run. Fix it with <code className="bg-accent px-1 rounded">rclone config reconnect remote:</code>.
+              0 turns the check off; runs still detect it.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
-      {/* ── Telegram ─────────────────────────────────────────── */}
+      {/* ── Notifications ──────────────────────────────────── */}
       <Card>
         <CardHeader>
-          <div className="flex items-center gap-2">
-            <MessageCircle className="w-5 h-5 text-blue-500" />
-            <div>
-              <CardTitle className="text-base">Telegram Notifications</CardTitle>
-              <CardDescription>Receive alerts about backup status in Telegram</CardDescription>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <MessageCircle className="w-5 h-5 text-blue-500" />
+              <div>
+                <CardTitle className="text-base">Notifications</CardTitle>
+                <CardDescription>Every enabled channel receives the events chosen below</CardDescription>
+              </div>
             </div>
+            <Button variant="outline" size="sm" onClick={() => newChannel()} disabled={channelForm?.id === null}>
+              <Plus className="w-4 h-4 mr-1" /> Add Channel
+            </Button>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label>Enable Telegram</Label>
-            <Switch
-              checked={settings.telegram_enabled === "true"}
-              onCheckedChange={() => toggleBool("telegram_enabled")}
-            />
-          </div>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleTestTelegram}
-              disabled={sendingTest || !settings.telegram_bot_token || !settings.telegram_chat_id}
-            >
-              {sendingTest ? (
-                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Send className="w-4 h-4 mr-2" />
-              )}
-              Send Test Message
-            </Button>
-            {(!settings.telegram_bot_token || !settings.telegram_chat_id) && (
-              <span className="text-[11px] text-muted-foreground">Fill in Bot Token and Chat ID first</span>
-            )}
-          </div>
-          <Separator />
-          <div className="space-y-2">
-            <Label>Bot Token</Label>
-            <Input
-              type="password"
-              value={settings.telegram_bot_token}
-              onChange={(e) => update("telegram_bot_token", e.target.value)}
-              placeholder="123456:ABCdef..."
-              className="font-mono text-sm"
-            />
-            <p className="text-[11px] text-muted-foreground">
-              Create via @BotFather in Telegram
-            </p>
-          </div>
-          <div className="space-y-2">
-            <Label>Chat ID</Label>
-            <Input
-              value={settings.telegram_chat_id}
-              onChange={(e) => update("telegram_chat_id", e.target.value)}
-              placeholder="-1001234567890"
-              className="font-mono text-sm"
-            />
-            <p className="text-[11px] text-muted-foreground">
-              Find via @userinfobot in Telegram
+          {channels.length === 0 && !channelForm && (
+            <p className="text-sm text-muted-foreground text-center py-2">
+              No channels configured. Click &quot;Add Channel&quot; to send notifications to Telegram, a webhook, ntfy, Gotify,
+              Discord, Slack or email.
             </p>
+          )}
+          {channels.map((channel) => (
+            <div key={channel.id} className="flex items-center gap-3 rounded-md border border-border/50 px-3 py-2">
+              <Switch checked={channel.enabled === 1} onCheckedChange={() => handleToggleChannel(channel)} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{channel.name}</p>
+                <p className="text-[11px] text-muted-foreground">{CHANNEL_TYPES[channel.type]?.label ?? channel.type}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTestChannel(channel)}
+                disabled={testingChannel !== null}
+              >
+                {testingChannel === channel.id ? (
+                  <RefreshCw className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-1" />
+                )}
+                Test
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => editChannel(channel)}>
+                <Pencil className="w-4 h-4 text-muted-foreground" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteChannel(channel)}>
+                <Trash2 className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            </div>
+          ))}
+          {channelForm && (
+            <div className="space-y-4 rounded-md border border-border/50 p-3">
+              <p className="text-sm font-medium">{channelForm.id == null ? "New Channel" : `Edit ${channelForm.name}`}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={channelForm.type}
+                    onValueChange={(v) => changeChannelType(v as NotificationChannel)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHANNEL_TYPE_LIST.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {CHANNEL_TYPES[type].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-[11px] text-muted-foreground">{CHANNEL_TYPES[channelForm.type].description}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input
+                    value={channelForm.name}
+                    onChange={(e) => setChannelForm((prev) => prev && { ...prev, name: e.target.value })}
+                    placeholder={CHANNEL_TYPES[channelForm.type].label}
+                  />
+                </div>
+              </div>
+              {CHANNEL_TYPES[channelForm.type].fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {!field.required && !field.default && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                  </Label>
+                  {field.options ? (
+                    <Select
+                      value={channelForm.config[field.key] || field.default || ""}
+                      onValueChange={(v) => updateChannelField(field.key, v)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {field.options.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      type={field.secret ? "password" : "text"}
+                      value={channelForm.config[field.key] ?? ""}
+                      onChange={(e) => updateChannelField(field.key, e.target.value)}
+                      placeholder={field.placeholder}
+                      className="font-mono text-sm"
+                    />
+                  )}
+                  {field.hint && <p className="text-[11px] text-muted-foreground">{field.hint}</p>}
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={handleSaveChannel} disabled={savingChannel}>
+                  {savingChannel ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4 mr-2" />
+                  )}
+                  {channelForm.id == null ? "Add Channel" : "Save Channel"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleTestChannel(null)}
+                  disabled={testingChannel !== null}
+                >
+                  {testingChannel === "form" ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  Send Test Message
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setChannelForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">Routing Rules</p>
+                <p className="text-[11px] text-muted-foreground">
+                  Tried top to bottom; the first enabled rule that matches picks the channels. Anything no rule matches goes
+                  to every enabled channel if its event is on below.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={newRule} disabled={ruleForm?.id === null}>
+                <Plus className="w-4 h-4 mr-1" /> Add Rule
+              </Button>
+            </div>
+            {rules.map((rule, i) => {
+              const ruleChannels = channels.filter((c) => parseRuleChannelIds(rule.channel_ids).includes(c.id));
+              return (
+                <div key={rule.id} className="flex items-center gap-3 rounded-md border border-border/50 px-3 py-2">
+                  <Switch checked={rule.enabled === 1} onCheckedChange={() => handleToggleRule(rule)} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{rule.name}</p>
+                    <p className="text-[11px] text-muted-foreground truncate">
+                      {describeRuleMatch(rule, jobs)} →{" "}
+                      {ruleChannels.length > 0 ? ruleChannels.map((c) => c.name).join(", ") : "muted"}
+                    </p>
+                  </div>
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => handleMoveRule(i, -1)}
+                      disabled={i === 0}
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMoveRule(i, 1)}
+                      disabled={i === rules.length - 1}
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => editRule(rule)}>
+                    <Pencil className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              );
+            })}
+            {ruleForm && (
+              <div className="space-y-4 rounded-md border border-border/50 p-3">
+                <p className="text-sm font-medium">{ruleForm.id == null ? "New Rule" : `Edit ${ruleForm.name}`}</p>
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input
+                    value={ruleForm.name}
+                    onChange={(e) => setRuleForm((prev) => prev && { ...prev, name: e.target.value })}
+                    placeholder="Immich failures"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Job</Label>
+                    <Select
+                      value={ruleForm.job_id == null ? "any" : String(ruleForm.job_id)}
+                      onValueChange={(v) => setRuleForm((prev) => prev && { ...prev, job_id: v === "any" ? null : Number(v) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any job</SelectItem>
+                        {jobs.map((job) => (
+                          <SelectItem key={job.id} value={String(job.id)}>
+                            {job.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Job tag</Label>
+                    <Input
+                      value={ruleForm.job_tag}
+                      onChange={(e) => setRuleForm((prev) => prev && { ...prev, job_tag: e.target.value })}
+                      placeholder={parseJobTags(jobs.map((j) => j.tags).join(",")).slice(0, 2).join(", ") || "immich"}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Min severity</Label>
+                    <Select
+                      value={ruleForm.min_severity || "any"}
+                      onValueChange={(v) =>
+                        setRuleForm((prev) => prev && { ...prev, min_severity: v === "any" ? "" : (v as NotificationSeverity) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        {SEVERITIES.map((severity) => (
+                          <SelectItem key={severity} value={severity}>
+                            {severity} and above
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Events</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {NOTIFICATION_EVENT_LIST.map((event) => (
+                      <div key={event} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`rule-event-${event}`}
+                          checked={ruleForm.events.includes(event)}
+                          onCheckedChange={() => toggleRuleItem("events", event)}
+                        />
+                        <label htmlFor={`rule-event-${event}`} className="text-xs cursor-pointer select-none">
+                          {NOTIFICATION_EVENTS[event]}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">None ticked = any event</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Send to</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {channels.map((channel) => (
+                      <div key={channel.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`rule-channel-${channel.id}`}
+                          checked={ruleForm.channel_ids.includes(channel.id)}
+                          onCheckedChange={() => toggleRuleItem("channel_ids", channel.id)}
+                        />
+                        <label htmlFor={`rule-channel-${channel.id}`} className="text-xs cursor-pointer select-none">
+                          {channel.name}
+                          {!channel.enabled && <span className="text-muted-foreground"> (disabled)</span>}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">None ticked = matching notifications are muted</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={handleSaveRule} disabled={savingRule}>
+                    {savingRule ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4 mr-2" />
+                    )}
+                    {ruleForm.id == null ? "Add Rule" : "Save Rule"}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setRuleForm(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="space-y-2 pl-3 border-l border-border/50">
+              <p className="text-xs text-muted-foreground">Dry run — where would this notification go?</p>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={preview.event}
+                  onValueChange={(v) => setPreview((prev) => ({ ...prev, event: v as NotificationEventType }))}
+                >
+                  <SelectTrigger className="h-8 w-44 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_EVENT_LIST.map((event) => (
+                      <SelectItem key={event} value={event}>
+                        {NOTIFICATION_EVENTS[event]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={preview.severity}
+                  onValueChange={(v) => setPreview((prev) => ({ ...prev, severity: v as NotificationSeverity }))}
+                >
+                  <SelectTrigger className="h-8 w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map((severity) => (
+                      <SelectItem key={severity} value={severity}>
+                        {severity}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={preview.job_id == null ? "none" : String(preview.job_id)}
+                  onValueChange={(v) => setPreview((prev) => ({ ...prev, job_id: v === "none" ? null : Number(v) }))}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No job</SelectItem>
+                    {jobs.map((job) => (
+                      <SelectItem key={job.id} value={String(job.id)}>
+                        {job.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handlePreview}>
+                  <Route className="w-4 h-4 mr-2" />
+                  Preview
+                </Button>
+              </div>
+              {previewResult && (
+                <div className="space-y-1">
+                  <p className="text-xs">{previewResult.reason}</p>
+                  {previewResult.channels.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {previewResult.channels.map((channel) => (
+                        <Badge key={channel.id} variant="outline" className="text-[10px]">
+                          {channel.name} · {CHANNEL_TYPES[channel.type]?.label ?? channel.type}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
           <Separator />
           <div className="space-y-3">
@@ -483,6 +1667,27 @@ export default function SettingsPage() {
                 onCheckedChange={() => toggleBool("notify_on_success")}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">On Skipped Run</Label>
+              <Switch
+                checked={settings.notify_on_skip === "true"}
+                onCheckedChange={() => toggleBool("notify_on_skip")}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">Remote Auth Expired</Label>
+              <Switch
+                checked={settings.notify_auth_expired === "true"}
+                onCheckedChange={() => toggleBool("notify_auth_expired")}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">Low Disk Space</Label>
+              <Switch
+                checked={settings.notify_low_disk === "true"}
+                onCheckedChange={() => toggleBool("notify_low_disk")}
+              />
+            </div>
             <div className="flex items-center justify-between">
               <Label className="text-sm text-muted-foreground">Daily Digest</Label>
               <Switch
@@ -490,6 +1695,36 @@ export default function SettingsPage() {
                 onCheckedChange={() => toggleBool("notify_daily_digest")}
               />
             </div>
+            {settings.notify_daily_digest === "true" && (
+              <div className="space-y-2 pl-3 border-l border-border/50">
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm text-muted-foreground">Send at</Label>
+                  <Input
+                    type="time"
+                    value={settings.daily_digest_time}
+                    onChange={(e) => update("daily_digest_time", e.target.value)}
+                    className="font-mono text-sm w-32"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSendDigest}
+                    disabled={sendingDigest || !channels.some((c) => c.enabled === 1)}
+                  >
+                    {sendingDigest ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="w-4 h-4 mr-2" />
+                    )}
+                    Send Now
+                  </Button>
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  In the timezone set above. Summarises the last 24 hours: runs per job, failures, schedules that were due but
+                  didn&apos;t run, stale verifications and disk usage.
+                </p>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { RunFile, RunFileAction, RunFileTouch } from "@/lib/types";
+import { ChevronLeft, ChevronRight, FolderTree, History, Loader2, Search } from "lucide-react";
+
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<RunFileAction, string> = {
+  copied: "border-emerald-500/30 text-emerald-500 bg-emerald-500/10",
+  updated: "border-sky-500/30 text-sky-500 bg-sky-500/10",
+  deleted: "border-orange-500/30 text-orange-500 bg-orange-500/10",
+  error: "border-red-500/30 text-red-500 bg-red-500/10",
+};
+
+function formatSize(bytes: number | null): string {
+  if (bytes == null) return "";
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+}
+
+function formatTime(dateStr: string): string {
+  const d = new Date(dateStr.endsWith("Z") ? dateStr : dateStr + "Z");
+  return d.toLocaleString("uk-UA", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+export function ActionBadge({ action }: { action: RunFileAction }) {
+  return (
+    <Badge variant="outline" className={cn("text-[10px] capitalize", ACTION_STYLES[action])}>
+      {action}
+    </Badge>
+  );
+}
+
+// ── File history ─────────────────────────────────────────────
+
+/** Runs that touched a file, newest first */
+export function FileTouchList({
+  touches,
+  onSelectRun,
+}: {
+  touches: RunFileTouch[];
+  onSelectRun?: (runId: number) => void;
+}) {
+  if (touches.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">No run has touched this file</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {touches.map((t) => (
+        <button
+          key={t.id}
+          type="button"
+          className="w-full flex items-center gap-2 text-left text-xs rounded px-2 py-1 hover:bg-accent/50 disabled:cursor-default"
+          disabled={!onSelectRun}
+          onClick={() => onSelectRun?.(t.run_id)}
+        >
+          <ActionBadge action={t.action} />
+          <span className="flex-1 truncate">
+            {t.job_name || `Job #${t.job_id}`} &middot; Run #{t.run_id}
+            {t.error && <span className="text-red-400"> — {t.error}</span>}
+          </span>
+          <span className="text-muted-foreground flex-shrink-0">{formatTime(t.started_at)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ── Run manifest ─────────────────────────────────────────────
+
+interface RunFileListProps {
+  runId: number;
+  /** Reload periodically while the run is still writing files */
+  active: boolean;
+  onSelectRun?: (runId: number) => void;
+  className?: string;
+}
+
+export function RunFileList({ runId, active, onSelectRun, className }: RunFileListProps) {
+  const [files, setFiles] = useState<RunFile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [action, setAction] = useState<RunFileAction | "all">("all");
+  const [page, setPage] = useState(0);
+  const [historyPath, setHistoryPath] = useState<string | null>(null);
+  const [history, setHistory] = useState<RunFileTouch[] | null>(null);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchFiles = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      if (query) params.set("search", query);
+      if (action !== "all") params.set("action", action);
+      const res = await fetch(`/api/runs/${runId}/files?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setFiles(data.files);
+        setTotal(data.total);
+      }
+    } catch (e) {
+      console.error("Failed to fetch run files", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [runId, page, query, action]);
+
+  useEffect(() => {
+    fetchFiles();
+    if (!active) return;
+    const interval = setInterval(fetchFiles, 5000);
+    return () => clearInterval(interval);
+  }, [fetchFiles, active]);
+
+  const toggleHistory = async (filePath: string) => {
+    if (historyPath === filePath) {
+      setHistoryPath(null);
+      return;
+    }
+    setHistoryPath(filePath);
+    setHistory(null);
+    try {
+      const res = await fetch(`/api/files/history?path=${encodeURIComponent(filePath)}&limit=20`);
+      setHistory(res.ok ? await res.json() : []);
+    } catch {
+      setHistory([]);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 mb-2">
+        <FolderTree className="w-3.5 h-3.5 text-muted-foreground" />
+        <p className="text-xs font-medium text-muted-foreground uppercase flex-1">
+          Files <span className="normal-case font-normal">({total})</span>
+        </p>
+        <div className="relative">
+          <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search path..."
+            className="h-7 w-[180px] pl-7 text-xs"
+          />
+        </div>
+        <Select
+          value={action}
+          onValueChange={(v) => {
+            setAction(v as RunFileAction | "all");
+            setPage(0);
+          }}
+        >
+          <SelectTrigger size="sm" className="h-7 w-[110px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            <SelectItem value="copied">Copied</SelectItem>
+            <SelectItem value="updated">Updated</SelectItem>
+            <SelectItem value="deleted">Deleted</SelectItem>
+            <SelectItem value="error">Errors</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-lg border border-border">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-xs text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading files...
+          </div>
+        ) : files.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-8">
+            {query || action !== "all" ? "No matching files" : active ? "No files transferred yet" : "No files recorded for this run"}
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {files.map((file) => (
+              <div key={file.id} className="px-3 py-1.5">
+                <div className="flex items-center gap-2 text-xs">
+                  <ActionBadge action={file.action} />
+                  <span className="flex-1 font-mono truncate" title={file.path}>{file.path}</span>
+                  <span className="text-muted-foreground flex-shrink-0">{formatSize(file.size)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 flex-shrink-0"
+                    title="Runs that touched this file"
+                    onClick={() => toggleHistory(file.path)}
+                  >
+                    <History className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+                {file.error && <p className="text-[11px] text-red-400 mt-0.5 break-all">{file.error}</p>}
+                {historyPath === file.path && (
+                  <div className="mt-1.5 rounded-md bg-accent/30 p-1">
+                    {history === null ? (
+                      <div className="flex items-center gap-2 px-2 py-1 text-xs text-muted-foreground">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Loading history...
+                      </div>
+                    ) : (
+                      <FileTouchList touches={history} onSelectRun={onSelectRun} />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 mt-2 text-xs text-muted-foreground">
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={page + 1 >= pageCount}
+            onClick={() => setPage(page + 1)}
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
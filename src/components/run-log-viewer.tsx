@@ -0,0 +1,262 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { ChevronsUp, Download, FileText, Loader2, Radio } from "lucide-react";
+
+// ── Log line parsing ─────────────────────────────────────────
+
+type LogLevel = "debug" | "info" | "notice" | "warning" | "error" | "critical";
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "text-gray-500",
+  info: "text-gray-300",
+  notice: "text-sky-400",
+  warning: "text-yellow-400",
+  error: "text-red-400",
+  critical: "text-red-500 font-semibold",
+};
+
+interface LogLine {
+  level: LogLevel;
+  time: string | null;
+  text: string;
+}
+
+interface LogChunkResponse {
+  source: "file" | "excerpt";
+  active: boolean;
+  text: string;
+  offset: number;
+  next_offset: number;
+  size: number;
+}
+
+/** rclone --use-json-log lines carry level/time/msg; anything else is plain text */
+function parseLine(raw: string): LogLine {
+  if (raw.startsWith("{")) {
+    try {
+      const entry = JSON.parse(raw);
+      const level = (String(entry.level || "info").toLowerCase() as LogLevel);
+      const time = typeof entry.time === "string"
+        ? new Date(entry.time).toLocaleTimeString([], { hour12: false })
+        : null;
+      let text = entry.msg ?? raw;
+      if (entry.object) text = `${entry.object}: ${text}`;
+      return { level: level in LEVEL_RANK ? level : "info", time, text };
+    } catch {
+      // fall through to plain text
+    }
+  }
+  let level: LogLevel = "info";
+  if (/\b(ERROR|CRITICAL|FATAL)\b|^error:/i.test(raw)) level = "error";
+  else if (/\bWARN(ING)?\b/.test(raw)) level = "warning";
+  else if (/\bNOTICE\b/.test(raw)) level = "notice";
+  else if (/\bDEBUG\b/.test(raw)) level = "debug";
+  return { level, time: null, text: raw };
+}
+
+function splitLines(text: string): LogLine[] {
+  return text.split(/\r?\n/).filter((l) => l.trim()).map(parseLine);
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+// ── Viewer ───────────────────────────────────────────────────
+
+interface RunLogViewerProps {
+  runId: number;
+  /** Follow new output live while the run is queued/running */
+  active: boolean;
+  className?: string;
+}
+
+export function RunLogViewer({ runId, active, className }: RunLogViewerProps) {
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [startOffset, setStartOffset] = useState(0);
+  const [source, setSource] = useState<"file" | "excerpt">("file");
+  const [loading, setLoading] = useState(true);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [following, setFollowing] = useState(false);
+  const [minLevel, setMinLevel] = useState<LogLevel | "all">("all");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  // Initial tail, then live follow from where the tail ended
+  useEffect(() => {
+    let cancelled = false;
+    let events: EventSource | null = null;
+    setLoading(true);
+    setLines([]);
+    stickToBottom.current = true;
+
+    fetch(`/api/runs/${runId}/log?tail=500`)
+      .then((res) => res.json() as Promise<LogChunkResponse>)
+      .then((data) => {
+        if (cancelled) return;
+        setLines(splitLines(data.text));
+        setStartOffset(data.source === "file" ? data.offset : 0);
+        setSource(data.source);
+        setLoading(false);
+
+        if (!active) return;
+        events = new EventSource(`/api/runs/${runId}/log?follow=1&offset=${data.source === "file" ? data.next_offset : 0}`);
+        setFollowing(true);
+        events.addEventListener("log", (e) => {
+          const chunk = JSON.parse((e as MessageEvent).data) as { text: string };
+          setSource("file");
+          setLines((prev) => [...prev, ...splitLines(chunk.text)]);
+        });
+        events.addEventListener("end", () => {
+          events?.close();
+          setFollowing(false);
+        });
+        events.onerror = () => {
+          events?.close();
+          setFollowing(false);
+        };
+      })
+      .catch(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      events?.close();
+      setFollowing(false);
+    };
+  }, [runId, active]);
+
+  // Keep scrolled to the newest line unless the user scrolled up
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [lines, minLevel]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+  };
+
+  const loadEarlier = useCallback(async () => {
+    if (startOffset <= 0) return;
+    setLoadingEarlier(true);
+    try {
+      const from = Math.max(0, startOffset - 256 * 1024);
+      const res = await fetch(`/api/runs/${runId}/log?offset=${from}&limit=${startOffset - from}`);
+      const data = (await res.json()) as LogChunkResponse;
+      let text = data.text;
+      let newStart = from;
+      // The window may begin mid-line — drop the partial first line
+      if (from > 0) {
+        const firstNewline = text.indexOf("\n");
+        newStart += byteLength(text.slice(0, firstNewline + 1));
+        text = text.slice(firstNewline + 1);
+      }
+      stickToBottom.current = false;
+      setLines((prev) => [...splitLines(text), ...prev]);
+      setStartOffset(newStart);
+    } finally {
+      setLoadingEarlier(false);
+    }
+  }, [runId, startOffset]);
+
+  const visible = useMemo(
+    () => minLevel === "all" ? lines : lines.filter((l) => LEVEL_RANK[l.level] >= LEVEL_RANK[minLevel]),
+    [lines, minLevel]
+  );
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 mb-2">
+        <FileText className="w-3.5 h-3.5 text-muted-foreground" />
+        <p className="text-xs font-medium text-muted-foreground uppercase flex-1">
+          Log Output
+          {source === "excerpt" && <span className="normal-case font-normal"> (last 4000 characters)</span>}
+        </p>
+        {following && (
+          <span className="flex items-center gap-1 text-[11px] text-blue-400">
+            <Radio className="w-3 h-3 animate-pulse" />
+            Live
+          </span>
+        )}
+        <Select value={minLevel} onValueChange={(v) => setMinLevel(v as LogLevel | "all")}>
+          <SelectTrigger size="sm" className="h-7 w-[110px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All levels</SelectItem>
+            <SelectItem value="info">Info+</SelectItem>
+            <SelectItem value="notice">Notice+</SelectItem>
+            <SelectItem value="warning">Warnings+</SelectItem>
+            <SelectItem value="error">Errors</SelectItem>
+          </SelectContent>
+        </Select>
+        {source === "file" && (
+          <Button variant="ghost" size="sm" className="h-7 px-2" asChild>
+            <a href={`/api/runs/${runId}/log?download=1`} title="Download full log">
+              <Download className="w-3.5 h-3.5" />
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="h-64 overflow-y-auto rounded-lg border border-border bg-black/40 p-3"
+      >
+        {source === "file" && startOffset > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full h-6 mb-1 text-[11px] text-muted-foreground"
+            disabled={loadingEarlier}
+            onClick={loadEarlier}
+          >
+            {loadingEarlier ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <ChevronsUp className="w-3 h-3 mr-1" />}
+            Load earlier output
+          </Button>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center h-full text-xs text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading log...
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-8">
+            {lines.length === 0 ? (active ? "Waiting for output..." : "No log output") : "No lines at this level"}
+          </p>
+        ) : (
+          <pre className="text-[11px] font-mono whitespace-pre-wrap break-all">
+            {visible.map((line, i) => (
+              <div key={i} className={cn(LEVEL_COLORS[line.level])}>
+                {line.time && <span className="text-gray-500">{line.time} </span>}
+                {line.level !== "info" && <span className="uppercase">{line.level} </span>}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RunEvent, RunProgress } from "@/lib/types";
+
+export interface LiveRunProgress {
+  progress: RunProgress;
+  summary: string;
+}
+
+type ProgressEvent = Extract<RunEvent, { type: "progress" }>;
+
+/**
+ * Subscribe to /api/events. Returns the latest live progress per active
+ * run id; `onEvent` is called for every event (lifecycle and progress).
+ * EventSource reconnects on its own after network hiccups.
+ */
+export function useRunEvents(onEvent?: (event: RunEvent) => void): Record<number, LiveRunProgress> {
+  const [live, setLive] = useState<Record<number, LiveRunProgress>>({});
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+
+    source.addEventListener("snapshot", (e) => {
+      const events = JSON.parse((e as MessageEvent).data) as ProgressEvent[];
+      setLive(Object.fromEntries(events.map((ev) => [ev.run_id, { progress: ev.progress, summary: ev.summary }])));
+    });
+
+    source.addEventListener("run", (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as RunEvent;
+      if (event.type === "progress") {
+        setLive((prev) => ({ ...prev, [event.run_id]: { progress: event.progress, summary: event.summary } }));
+      } else if (event.type === "finished") {
+        setLive((prev) => {
+          const next = { ...prev };
+          delete next[event.run_id];
+          return next;
+        });
+      }
+      onEventRef.current?.(event);
+    });
+
+    return () => source.close();
+  }, []);
+
+  return live;
+}
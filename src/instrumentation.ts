@@ -1,16 +1,24 @@
 /**
  * Next.js instrumentation — runs once on server startup.
- * Starts the background job scheduler.
+ * Starts the background job scheduler and resumes the run queue.
  */
 export async function register() {
   // Only start the scheduler in the Node.js server runtime (not Edge)
   if (process.env.NEXT_RUNTIME === "nodejs") {
-    const { recoverStaleRunningRuns } = await import("./lib/db");
     const { startScheduler } = await import("./lib/scheduler");
-    const recovered = recoverStaleRunningRuns();
-    if (recovered > 0) {
-      console.log(`[startup] Recovered ${recovered} stale running run(s) -> cancelled`);
+    const { dispatchQueue, recoverActiveRuns } = await import("./lib/run-queue");
+    const { enforceLogRetention } = await import("./lib/run-logs");
+    const { reattached, cancelled } = recoverActiveRuns();
+    if (reattached > 0) {
+      console.log(`[startup] Reattached to ${reattached} run(s) still running`);
     }
+    if (cancelled > 0) {
+      console.log(`[startup] Recovered ${cancelled} stale running run(s) -> cancelled`);
+    }
+    // Compresses logs of runs interrupted by the restart and prunes old ones
+    enforceLogRetention();
+    // Runs that were still waiting when the server stopped pick up where they left off
+    dispatchQueue();
     startScheduler();
   }
 }
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { validateBandwidthSchedule } from "./bandwidth";
+
+test("empty means unlimited and single rates apply all day", () => {
+  assert.equal(validateBandwidthSchedule(""), null);
+  assert.equal(validateBandwidthSchedule("   "), null);
+  assert.equal(validateBandwidthSchedule("10M"), null);
+  assert.equal(validateBandwidthSchedule("1.5m"), null);
+  assert.equal(validateBandwidthSchedule("10M:100M"), null);
+  assert.equal(validateBandwidthSchedule("off"), null);
+  assert.equal(validateBandwidthSchedule("fast"), 'Invalid bandwidth rate "fast"');
+});
+
+test("timetables take TIME,RATE entries with optional weekdays", () => {
+  assert.equal(validateBandwidthSchedule("08:00,512K 23:00,off"), null);
+  assert.equal(validateBandwidthSchedule("Mon-00:00,512 Fri-23:59,10M Sunday-20:00,off"), null);
+  assert.equal(validateBandwidthSchedule(" 8:00,1M  19:30,2M:4M "), null);
+});
+
+test("malformed timetable entries are named in the error", () => {
+  assert.match(validateBandwidthSchedule("08:00 512K")!, /Invalid timetable entry "08:00"/);
+  assert.match(validateBandwidthSchedule("08:00,512K,1M")!, /Invalid timetable entry/);
+  assert.match(validateBandwidthSchedule("24:00,1M")!, /Invalid time "24:00"/);
+  assert.match(validateBandwidthSchedule("08:60,1M")!, /Invalid time "08:60"/);
+  assert.match(validateBandwidthSchedule("Someday-08:00,1M")!, /Invalid time "Someday-08:00"/);
+  assert.match(validateBandwidthSchedule("08:00,1X")!, /Invalid rate "1X" in "08:00,1X"/);
+});
@@ -0,0 +1,81 @@
+// ============================================================
+// Bandwidth limits
+// rclone --bwlimit accepts a single rate ("10M") or a timetable
+// ("08:00,512k 23:00,off"). The global limit comes from the
+// bandwidth_schedule setting (falling back to max_bandwidth); a job's
+// own bwlimit overrides it.
+// ============================================================
+
+import { getSetting } from "./db";
+import type { Job } from "./types";
+
+const RATE = "\\d+(\\.\\d+)?[BKMGTP]?";
+const RATE_RE = new RegExp(`^${RATE}(:${RATE})?$`, "i");
+const DAYS = [
+  "mon", "tue", "wed", "thu", "fri", "sat", "sun",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+];
+
+/**
+ * A single --bwlimit rate: "off", a rate like "10M" / "512K" / "1.5M",
+ * or separate upload:download rates like "10M:100M".
+ */
+export function isValidBwRate(value: string): boolean {
+  return value.toLowerCase() === "off" || RATE_RE.test(value);
+}
+
+/** "HH:MM", optionally prefixed with a weekday ("Mon-08:00", "Monday-08:00") */
+function isValidSlotTime(value: string): boolean {
+  const match = value.match(/^(?:([a-z]+)-)?(\d{1,2}):(\d{2})$/i);
+  if (!match) return false;
+  const [, day, hours, minutes] = match;
+  if (day && !DAYS.includes(day.toLowerCase())) return false;
+  return Number(hours) <= 23 && Number(minutes) <= 59;
+}
+
+/**
+ * Why a bandwidth value can't be passed to --bwlimit, or null if it is
+ * fine. Empty means "no limit" and is valid.
+ */
+export function validateBandwidthSchedule(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const entries = trimmed.split(/\s+/);
+  // A lone rate without a time applies all day
+  if (entries.length === 1 && !entries[0].includes(",")) {
+    return isValidBwRate(entries[0]) ? null : `Invalid bandwidth rate "${entries[0]}"`;
+  }
+
+  for (const entry of entries) {
+    const parts = entry.split(",");
+    if (parts.length !== 2) return `Invalid timetable entry "${entry}" — expected TIME,RATE like 08:00,512K`;
+    const [time, rate] = parts;
+    if (!isValidSlotTime(time)) return `Invalid time "${time}" in "${entry}" — use HH:MM or Mon-HH:MM`;
+    if (!isValidBwRate(rate)) return `Invalid rate "${rate}" in "${entry}"`;
+  }
+  return null;
+}
+
+/** Global limit for runs of jobs without their own override */
+export function getGlobalBandwidth(): string {
+  return (getSetting("bandwidth_schedule") || "").trim() || (getSetting("max_bandwidth") || "").trim();
+}
+
+/** The --bwlimit value a run of the job uses; empty = unlimited */
+export function getJobBandwidth(job: Job): string {
+  return job.bwlimit?.trim() || getGlobalBandwidth();
+}
+
+/** Error in the limit a job would run with, for the adapters' validate() */
+export function getJobBandwidthError(job: Job): string | null {
+  const error = validateBandwidthSchedule(getJobBandwidth(job));
+  if (!error) return null;
+  return job.bwlimit?.trim() ? `Job bandwidth limit: ${error}` : `Bandwidth schedule in settings: ${error}`;
+}
+
+/** --bwlimit args for a job's rclone commands */
+export function bwlimitArgs(job: Job): string[] {
+  const value = getJobBandwidth(job);
+  return value ? ["--bwlimit", value] : [];
+}
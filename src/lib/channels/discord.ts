@@ -0,0 +1,22 @@
+// ============================================================
+// Discord provider
+// Posts the message as the content of a channel webhook.
+// ============================================================
+
+import type { ChannelProvider } from "./types";
+import { postJson, truncate } from "./helpers";
+
+// Discord rejects content over 2000 characters
+const MAX_CONTENT_CHARS = 2000;
+
+/** Escape Discord markdown so names and paths show as written */
+function escapeDiscord(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, "\\$1");
+}
+
+export const discordProvider: ChannelProvider = {
+  async send(config, message) {
+    const content = `**${escapeDiscord(message.title)}**${message.body ? `\n${escapeDiscord(message.body)}` : ""}`;
+    await postJson(config.webhook_url, { content: truncate(content, MAX_CONTENT_CHARS) });
+  },
+};
@@ -0,0 +1,42 @@
+// ============================================================
+// Email provider
+// Sends through the SMTP server with nodemailer: implicit TLS (465),
+// STARTTLS (587) or plain (25), login when a username is set, and
+// one text/plain message per notification to all recipients.
+// ============================================================
+
+import nodemailer from "nodemailer";
+import type { ChannelProvider } from "./types";
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+async function sendMail(config: Record<string, string>, subject: string, text: string): Promise<void> {
+  const to = config.to.split(",").map((address) => address.trim()).filter(Boolean);
+  // Saved configs are validated already; this keeps older ones from injecting headers or SMTP commands
+  if ([config.from, ...to].some((address) => /[\r\n]/.test(address))) {
+    throw new Error("Email addresses must not contain line breaks");
+  }
+
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: Number(config.port) || 587,
+    secure: config.security === "tls",
+    requireTLS: config.security === "starttls",
+    ignoreTLS: config.security === "none",
+    auth: config.username ? { user: config.username, pass: config.password } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+  try {
+    await transport.sendMail({ from: config.from, to, subject, text });
+  } finally {
+    transport.close();
+  }
+}
+
+export const emailProvider: ChannelProvider = {
+  async send(config, message) {
+    await sendMail(config, message.title, message.body || message.title);
+  },
+};
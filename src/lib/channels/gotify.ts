@@ -0,0 +1,20 @@
+// ============================================================
+// Gotify provider
+// Posts to /message with the app token; severity maps to priority.
+// ============================================================
+
+import type { NotificationSeverity } from "../types";
+import type { ChannelProvider } from "./types";
+import { baseUrl, postJson } from "./helpers";
+
+const PRIORITY: Record<NotificationSeverity, number> = { info: 2, warning: 5, critical: 8 };
+
+export const gotifyProvider: ChannelProvider = {
+  async send(config, message) {
+    await postJson(
+      `${baseUrl(config.server)}/message`,
+      { title: message.title, message: message.body || message.title, priority: PRIORITY[message.severity] },
+      { "X-Gotify-Key": config.token }
+    );
+  },
+};
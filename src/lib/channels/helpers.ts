@@ -0,0 +1,35 @@
+// ── Helpers shared by channel providers ──────────────────────
+
+import type { NotificationMessage } from "../types";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** POST a JSON body; throws with the status and the start of the response on failure */
+export async function postJson(url: string, payload: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}${text ? `: ${truncate(text.trim(), 200)}` : ""}`);
+  }
+  return res;
+}
+
+/** Cut text to `max` characters, marking the cut */
+export function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 2) + "\n…" : text;
+}
+
+/** Title and body as one plain-text block */
+export function plainText(message: NotificationMessage): string {
+  return message.body ? `${message.title}\n\n${message.body}` : message.title;
+}
+
+/** Strip a trailing slash so paths can be appended */
+export function baseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
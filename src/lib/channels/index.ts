@@ -0,0 +1,103 @@
+// ============================================================
+// Notification dispatcher
+// Picks the channels for a NotificationMessage with the routing
+// rules (lib/notification-rules) and sends it through the provider
+// for each one's type. One channel failing doesn't stop the rest.
+// ============================================================
+
+import { getAllNotificationRules, getEnabledChannels, getJobById, getSetting } from "../db";
+import { parseChannelConfig } from "../notification-channels";
+import { EVENT_TOGGLES, parseRuleChannelIds, ruleMatches } from "../notification-rules";
+import type { Channel, NotificationChannel, NotificationMessage, NotificationRoute } from "../types";
+import type { ChannelProvider } from "./types";
+import { discordProvider } from "./discord";
+import { emailProvider } from "./email";
+import { gotifyProvider } from "./gotify";
+import { ntfyProvider } from "./ntfy";
+import { slackProvider } from "./slack";
+import { telegramProvider } from "./telegram";
+import { webhookProvider } from "./webhook";
+
+const PROVIDERS: Record<NotificationChannel, ChannelProvider> = {
+  telegram: telegramProvider,
+  webhook: webhookProvider,
+  ntfy: ntfyProvider,
+  gotify: gotifyProvider,
+  discord: discordProvider,
+  slack: slackProvider,
+  email: emailProvider,
+};
+
+/**
+ * Send to one channel, enabled or not (the Settings "Test" button).
+ * Returns an error description, or null once the service accepted it.
+ */
+export async function sendToChannel(
+  channel: Pick<Channel, "type" | "config">,
+  message: NotificationMessage
+): Promise<string | null> {
+  const provider = PROVIDERS[channel.type];
+  if (!provider) return `Unknown channel type "${channel.type}"`;
+  try {
+    await provider.send(parseChannelConfig(channel.type, channel.config), message);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+interface Route extends NotificationRoute {
+  targets: Channel[];
+  /** Nothing to send on purpose (a rule or an Events toggle), as opposed to no channels */
+  muted: boolean;
+}
+
+/** The channels a message goes to: those of the first matching rule, else all enabled ones */
+export function routeNotification(message: NotificationMessage): Route {
+  const enabled = getEnabledChannels();
+  const job = message.job_id != null ? getJobById(message.job_id) ?? null : null;
+  const route = (rule: NotificationRoute["rule"], targets: Channel[], reason: string, muted = false): Route => ({
+    rule: rule && { id: rule.id, name: rule.name },
+    targets,
+    channels: targets.map(({ id, name, type }) => ({ id, name, type })),
+    reason,
+    muted,
+  });
+
+  const rule = getAllNotificationRules().find((r) => r.enabled && ruleMatches(r, message, job));
+  if (rule) {
+    const ids = parseRuleChannelIds(rule.channel_ids);
+    const targets = enabled.filter((c) => ids.includes(c.id));
+    if (ids.length === 0) return route(rule, [], `Muted by rule "${rule.name}"`, true);
+    if (targets.length === 0) return route(rule, [], `Rule "${rule.name}" matched, but its channels are disabled`);
+    return route(rule, targets, `Rule "${rule.name}" matched`);
+  }
+
+  const toggle = message.event === "TEST" ? undefined : EVENT_TOGGLES[message.event];
+  if (toggle && getSetting(toggle) !== "true") return route(null, [], "No rule matched and this event is off in Notification Events", true);
+  if (enabled.length === 0) return route(null, [], "No rule matched and no notification channels are enabled");
+  return route(null, enabled, "No rule matched, so it goes to every enabled channel");
+}
+
+/**
+ * Send to the channels the routing rules pick. Returns the failures as
+ * one description ("Name: reason; ..."), or null when all of them took
+ * it or the message was muted on purpose.
+ */
+export async function sendNotification(message: NotificationMessage): Promise<string | null> {
+  const { rule, targets, reason, muted } = routeNotification(message);
+  if (targets.length === 0) {
+    if (!muted) return reason;
+    if (rule) console.log(`[notify] ${message.event} "${message.title}": ${reason}`);
+    return null;
+  }
+
+  const results = await Promise.all(
+    targets.map(async (channel) => {
+      const error = await sendToChannel(channel, message);
+      return error ? `${channel.name}: ${error}` : null;
+    })
+  );
+  const errors = results.filter((error): error is string => error !== null);
+  return errors.length > 0 ? errors.join("; ") : null;
+}
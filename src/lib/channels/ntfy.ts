@@ -0,0 +1,27 @@
+// ============================================================
+// ntfy provider
+// Publishes as JSON to the server root (which keeps non-ASCII titles
+// intact, unlike the header API). Severity maps to ntfy priority.
+// ============================================================
+
+import type { NotificationSeverity } from "../types";
+import type { ChannelProvider } from "./types";
+import { baseUrl, postJson } from "./helpers";
+
+const PRIORITY: Record<NotificationSeverity, number> = { info: 3, warning: 4, critical: 5 };
+
+export const ntfyProvider: ChannelProvider = {
+  async send(config, message) {
+    await postJson(
+      baseUrl(config.server),
+      {
+        topic: config.topic,
+        title: message.title,
+        message: message.body || message.title,
+        priority: PRIORITY[message.severity],
+        tags: [message.event.toLowerCase()],
+      },
+      config.token ? { Authorization: `Bearer ${config.token}` } : {}
+    );
+  },
+};
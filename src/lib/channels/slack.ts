@@ -0,0 +1,20 @@
+// ============================================================
+// Slack provider
+// Incoming webhook with a `text` field, which Slack, Mattermost and
+// Rocket.Chat all accept. The title is bold (mrkdwn).
+// ============================================================
+
+import type { ChannelProvider } from "./types";
+import { postJson } from "./helpers";
+
+/** The three characters Slack wants escaped in mrkdwn text */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export const slackProvider: ChannelProvider = {
+  async send(config, message) {
+    const text = `*${escapeSlack(message.title)}*${message.body ? `\n${escapeSlack(message.body)}` : ""}`;
+    await postJson(config.webhook_url, { text });
+  },
+};
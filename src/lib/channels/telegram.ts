@@ -0,0 +1,30 @@
+// ============================================================
+// Telegram provider
+// Sends through the Bot API to one chat, with the title in bold
+// (MarkdownV2, so everything else is escaped).
+// ============================================================
+
+import type { ChannelProvider } from "./types";
+import { truncate } from "./helpers";
+
+// Telegram rejects messages over 4096 characters; escaping adds some
+const MAX_BODY_CHARS = 3500;
+
+/** Escape text for Telegram's MarkdownV2 */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*\[\]()~`>#+\-=|{}.!\\])/g, "\\$1");
+}
+
+export const telegramProvider: ChannelProvider = {
+  async send(config, message) {
+    const body = message.body ? `\n\n${escapeMarkdown(truncate(message.body, MAX_BODY_CHARS))}` : "";
+    const res = await fetch(`https://api.telegram.org/bot${config.bot_token}/sendMessage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chat_id: config.chat_id, text: `*${escapeMarkdown(message.title)}*${body}`, parse_mode: "MarkdownV2" }),
+      signal: AbortSignal.timeout(15_000),
+    });
+    const result = await res.json().catch(() => ({}));
+    if (!result.ok) throw new Error(`Telegram API error: ${result.description || `HTTP ${res.status}`}`);
+  },
+};
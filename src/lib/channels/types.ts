@@ -0,0 +1,14 @@
+// ============================================================
+// Channel provider types
+// A provider formats a notification for one kind of channel and
+// delivers it. The dispatcher in ./index.ts picks the provider for
+// each enabled channel; field definitions are in
+// lib/notification-channels.
+// ============================================================
+
+import type { NotificationMessage } from "../types";
+
+export interface ChannelProvider {
+  /** Deliver the message; throws with a readable reason when the service refused it */
+  send(config: Record<string, string>, message: NotificationMessage): Promise<void>;
+}
@@ -0,0 +1,25 @@
+// ============================================================
+// Generic webhook provider
+// POSTs the notification as JSON:
+//   { event, severity, title, message, job_id, sent_at }
+// ============================================================
+
+import type { ChannelProvider } from "./types";
+import { postJson } from "./helpers";
+
+export const webhookProvider: ChannelProvider = {
+  async send(config, message) {
+    await postJson(
+      config.url,
+      {
+        event: message.event,
+        severity: message.severity,
+        title: message.title,
+        message: message.body,
+        job_id: message.job_id ?? null,
+        sent_at: new Date().toISOString(),
+      },
+      config.auth_header ? { Authorization: config.auth_header } : {}
+    );
+  },
+};
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { compareCronTime, looksLikeCron, parseCron, previousCronTime } from "./cron";
+
+test("fields accept ranges, steps, lists and names", () => {
+  const cron = parseCron("cron */15 1-3 1,15 jan-mar mon-fri");
+  assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hours], [1, 2, 3]);
+  assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+  assert.deepEqual([...cron.months], [1, 2, 3]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+  assert.deepEqual([...parseCron("0 0 * * monday").daysOfWeek], [1]);
+  assert.deepEqual([...parseCron("@hourly").hours].length, 24);
+});
+
+test("names must be exact three-letter or full names", () => {
+  assert.throws(() => parseCron("0 0 * * monxyz"), /out of range/);
+  assert.throws(() => parseCron("0 0 * janfoo *"), /out of range/);
+  assert.throws(() => parseCron("0 0 * * thurs"), /out of range/);
+});
+
+test("out-of-range values and malformed fields are rejected", () => {
+  assert.throws(() => parseCron("0 25 * * *"), /hour/);
+  assert.throws(() => parseCron("60 0 * * *"), /minute/);
+  assert.throws(() => parseCron("0 0 * *"), /Expected 5 cron fields/);
+  assert.throws(() => parseCron("0 0 5-1 * *"), /reversed/);
+  assert.throws(() => parseCron("*/0 * * * *"), /Invalid step/);
+  assert.throws(() => parseCron("@fortnightly"), /Unknown cron macro/);
+});
+
+test("looksLikeCron tells cron expressions from the other schedule formats", () => {
+  assert.equal(looksLikeCron("30 23 * * *"), true);
+  assert.equal(looksLikeCron("cron 0 2 * * *"), true);
+  assert.equal(looksLikeCron("@daily"), true);
+  assert.equal(looksLikeCron("daily 02:00"), false);
+  assert.equal(looksLikeCron("weekly sun 04:00"), false);
+});
+
+test("previousCronTime finds the latest occurrence, across midnight and months", () => {
+  const nightly = parseCron("30 23 * * *");
+  assert.deepEqual(
+    previousCronTime(nightly, { year: 2026, month: 3, day: 1, hour: 0, minute: 10 }),
+    { year: 2026, month: 2, day: 28, hour: 23, minute: 30 }
+  );
+  assert.deepEqual(
+    previousCronTime(nightly, { year: 2026, month: 3, day: 1, hour: 23, minute: 30 }),
+    { year: 2026, month: 3, day: 1, hour: 23, minute: 30 }
+  );
+  // Both day fields restricted: either one matches
+  assert.deepEqual(
+    previousCronTime(parseCron("0 6 13 * fri"), { year: 2026, month: 10, day: 19, hour: 12, minute: 0 }),
+    { year: 2026, month: 10, day: 16, hour: 6, minute: 0 }
+  );
+  assert.equal(previousCronTime(parseCron("0 0 31 2 *"), { year: 2026, month: 10, day: 19, hour: 0, minute: 0 }), null);
+});
+
+test("compareCronTime orders wall-clock times by minute", () => {
+  const a = { year: 2026, month: 2, day: 28, hour: 23, minute: 30 };
+  assert.equal(compareCronTime(a, { ...a }), 0);
+  assert.equal(compareCronTime(a, { ...a, month: 3, day: 1, hour: 0 }), -1);
+  assert.equal(compareCronTime({ ...a, minute: 31 }, a), 1);
+});
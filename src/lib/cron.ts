@@ -0,0 +1,207 @@
+// ============================================================
+// 5-field cron expressions (minute hour day-of-month month day-of-week)
+// Supports *, ranges (1-5), steps (*/15, 0-30/10), lists (1,15),
+// named months (jan-dec) and days (sun-sat), plus @daily-style macros.
+// All matching is done on wall-clock fields in the caller's timezone.
+// ============================================================
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;   // 0=Sun … 6=Sat (7 is folded into 0)
+  domRestricted: boolean;    // day-of-month field was not "*"
+  dowRestricted: boolean;    // day-of-week field was not "*"
+}
+
+/** Wall-clock time in some timezone — structurally compatible with the scheduler's TzTime */
+export interface CronTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;   // 0-23
+  minute: number;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+// Full names are accepted too; anything else that merely starts with a name is not
+const FULL_NAMES = [
+  "january", "february", "march", "april", "june", "july", "august", "september", "october", "november", "december",
+  "sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday",
+];
+
+/** Strip an optional "cron " prefix so both "cron 0 2 * * *" and "0 2 * * *" are accepted */
+export function normalizeCronExpression(schedule: string): string {
+  return schedule.trim().replace(/^cron\s+/i, "").trim();
+}
+
+/** Quick check whether a schedule string is meant to be a cron expression */
+export function looksLikeCron(schedule: string): boolean {
+  const trimmed = schedule.trim();
+  if (/^cron\s+/i.test(trimmed)) return true;
+  if (trimmed.startsWith("@")) return true;
+  return trimmed.split(/\s+/).length === 5 && /^[\d*]/.test(trimmed);
+}
+
+/**
+ * Parse a cron expression. Throws an Error describing the first invalid
+ * field so callers can surface it (or log and skip the job).
+ */
+export function parseCron(expression: string): CronSchedule {
+  let expr = normalizeCronExpression(expression).toLowerCase();
+  if (expr.startsWith("@")) {
+    const expanded = MACROS[expr];
+    if (!expanded) throw new Error(`Unknown cron macro "${expr}"`);
+    expr = expanded;
+  }
+
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 cron fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minF, hourF, domF, monF, dowF] = fields;
+  const daysOfWeek = parseField(dowF, 0, 7, DAY_NAMES, "day-of-week");
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minF, 0, 59, null, "minute"),
+    hours: parseField(hourF, 0, 23, null, "hour"),
+    daysOfMonth: parseField(domF, 1, 31, null, "day-of-month"),
+    months: parseField(monF, 1, 12, MONTH_NAMES, "month"),
+    daysOfWeek,
+    domRestricted: domF !== "*" && domF !== "?",
+    dowRestricted: dowF !== "*" && dowF !== "?",
+  };
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null,
+  label: string
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    if (!part) throw new Error(`Empty list item in ${label} field "${field}"`);
+
+    const [rangePart, stepPart, extra] = part.split("/");
+    if (extra !== undefined) throw new Error(`Invalid step in ${label} field "${part}"`);
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      step = Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepPart}" in ${label} field`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*" || rangePart === "?") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      start = parseValue(a, min, max, names, label);
+      end = parseValue(b, min, max, names, label);
+      if (start > end) throw new Error(`Range "${rangePart}" in ${label} field is reversed`);
+    } else {
+      start = parseValue(rangePart, min, max, names, label);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? max : start;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+function parseValue(
+  raw: string,
+  min: number,
+  max: number,
+  names: string[] | null,
+  label: string
+): number {
+  if (names) {
+    const idx = names.indexOf(raw.slice(0, 3));
+    if (idx >= 0 && (raw.length === 3 || FULL_NAMES.includes(raw))) {
+      // Month names are 1-based, day names 0-based
+      return names === MONTH_NAMES ? idx + 1 : idx;
+    }
+  }
+  const n = Number(raw);
+  if (!/^\d+$/.test(raw) || n < min || n > max) {
+    throw new Error(`Value "${raw}" out of range for ${label} (${min}-${max})`);
+  }
+  return n;
+}
+
+// ── Matching ────────────────────────────────────────────────
+
+function matchesDay(cron: CronSchedule, month: number, day: number, dayOfWeek: number): boolean {
+  if (!cron.months.has(month)) return false;
+  const domOk = cron.daysOfMonth.has(day);
+  const dowOk = cron.daysOfWeek.has(dayOfWeek);
+  // Classic cron semantics: when both day fields are restricted, either may match
+  if (cron.domRestricted && cron.dowRestricted) return domOk || dowOk;
+  if (cron.domRestricted) return domOk;
+  if (cron.dowRestricted) return dowOk;
+  return true;
+}
+
+/**
+ * Find the most recent wall-clock minute at or before `now` that matches
+ * the expression. Looks back at most ~1 year; returns null if none found.
+ */
+export function previousCronTime(cron: CronSchedule, now: CronTime): CronTime | null {
+  for (let offset = 0; offset <= 366; offset++) {
+    // Date.UTC handles month/year rollover for plain calendar arithmetic
+    const d = new Date(Date.UTC(now.year, now.month - 1, now.day - offset));
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth() + 1;
+    const day = d.getUTCDate();
+    if (!matchesDay(cron, month, day, d.getUTCDay())) continue;
+
+    const startHour = offset === 0 ? now.hour : 23;
+    for (let hour = startHour; hour >= 0; hour--) {
+      if (!cron.hours.has(hour)) continue;
+      const startMinute = offset === 0 && hour === now.hour ? now.minute : 59;
+      for (let minute = startMinute; minute >= 0; minute--) {
+        if (cron.minutes.has(minute)) {
+          return { year, month, day, hour, minute };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** Compare two wall-clock times at minute precision (-1, 0, 1) */
+export function compareCronTime(a: CronTime, b: CronTime): number {
+  const ka = [a.year, a.month, a.day, a.hour, a.minute];
+  const kb = [b.year, b.month, b.day, b.hour, b.minute];
+  for (let i = 0; i < ka.length; i++) {
+    if (ka[i] !== kb[i]) return ka[i] < kb[i] ? -1 : 1;
+  }
+  return 0;
+}
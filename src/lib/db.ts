@@ -4,7 +4,8 @@
 
 import Database from "better-sqlite3";
 import path from "path";
-import type { Job, Run, RunType, Settings, DashboardStats, JobWithLastRun, DiskInfo } from "./types";
+import type { Channel, FailureReason, PauseReason, Job, JobDependency, JobTuningEntry, NewChannel, NewJobDependency, NewNotificationRule, NotificationRule, Run, RunType, RunProgressColumns, RunFile, RunFileAction, RunFileTouch, NewRunFile, Settings, DashboardStats, JobWithLastRun, DiskInfo } from "./types";
+import { parseJobTags } from "./notification-rules";
 
 const DB_PATH = path.join(process.cwd(), "data", "backup-control.db");
 
@@ -27,6 +28,8 @@ export function getDb(): Database.Database {
 }
 
 function initSchema(db: Database.Database) {
+  const hadChannels = !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'notification_channels'").get();
+
   db.exec(`
     CREATE TABLE IF NOT EXISTS jobs (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -63,17 +66,237 @@ function initSchema(db: Database.Database) {
       updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
     );
 
+    CREATE TABLE IF NOT EXISTS run_files (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+      path TEXT NOT NULL,
+      action TEXT NOT NULL,
+      size INTEGER,
+      error TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS job_tuning_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      run_id INTEGER REFERENCES runs(id) ON DELETE SET NULL,
+      tpslimit REAL,
+      transfers INTEGER,
+      rate_limit_hits INTEGER NOT NULL DEFAULT 0,
+      reason TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS job_dependencies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      depends_on_job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      trigger TEXT NOT NULL DEFAULT 'success',
+      run_type TEXT NOT NULL DEFAULT 'backup',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+      UNIQUE (job_id, depends_on_job_id, run_type)
+    );
+
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      config TEXT NOT NULL DEFAULT '{}',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+      updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS notification_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL DEFAULT '',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      position INTEGER NOT NULL DEFAULT 0,
+      job_id INTEGER REFERENCES jobs(id) ON DELETE CASCADE,
+      job_tag TEXT NOT NULL DEFAULT '',
+      events TEXT NOT NULL DEFAULT '',
+      min_severity TEXT NOT NULL DEFAULT '',
+      channel_ids TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+      updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+    );
+
     CREATE INDEX IF NOT EXISTS idx_runs_job_id ON runs(job_id);
     CREATE INDEX IF NOT EXISTS idx_runs_started_at ON runs(started_at);
     CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
+    CREATE INDEX IF NOT EXISTS idx_run_files_run_id ON run_files(run_id);
+    CREATE INDEX IF NOT EXISTS idx_run_files_path ON run_files(path);
   `);
 
+  // Migration: the Telegram bot from Settings becomes the first notification channel
+  if (!hadChannels) {
+    const setting = (key: string) =>
+      (db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined)?.value ?? "";
+    const botToken = setting("telegram_bot_token");
+    if (botToken) {
+      db.prepare("INSERT INTO notification_channels (type, name, enabled, config) VALUES ('telegram', 'Telegram', ?, ?)").run(
+        setting("telegram_enabled") === "true" ? 1 : 0,
+        JSON.stringify({ bot_token: botToken, chat_id: setting("telegram_chat_id") })
+      );
+    }
+  }
+
   // Migration: add run_type column if it doesn't exist
   try {
     db.exec(`ALTER TABLE runs ADD COLUMN run_type TEXT NOT NULL DEFAULT 'backup'`);
   } catch {
     // Column already exists — ignore
   }
+
+  // Migration: run queue columns
+  try {
+    db.exec(`ALTER TABLE runs ADD COLUMN queued_at TEXT`);
+  } catch {
+    // Column already exists — ignore
+  }
+  try {
+    db.exec(`ALTER TABLE runs ADD COLUMN options TEXT NOT NULL DEFAULT '{}'`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: structured progress columns
+  for (const column of [
+    "speed_bps REAL",
+    "eta_seconds INTEGER",
+    "total_bytes INTEGER",
+    "total_transfers INTEGER",
+    "checks INTEGER",
+    "total_checks INTEGER",
+    "rate_limit_hits INTEGER NOT NULL DEFAULT 0",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE runs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+
+  // Migration: retry policy, learned rclone limits and retry chains
+  for (const column of [
+    "retry_max_attempts INTEGER NOT NULL DEFAULT 1",
+    "retry_backoff_seconds INTEGER NOT NULL DEFAULT 300",
+    "retry_exit_codes TEXT NOT NULL DEFAULT ''",
+    "retry_on_rate_limit INTEGER NOT NULL DEFAULT 0",
+    "tuned_tpslimit REAL",
+    "tuned_transfers INTEGER",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE jobs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+  for (const column of [
+    "parent_run_id INTEGER",
+    "attempt INTEGER NOT NULL DEFAULT 1",
+    "not_before TEXT",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE runs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+
+  // Migration: who paused a run (user or blackout window)
+  try {
+    db.exec("ALTER TABLE runs ADD COLUMN paused_by TEXT");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: per-job bandwidth limit / timetable
+  try {
+    db.exec("ALTER TABLE jobs ADD COLUMN bwlimit TEXT NOT NULL DEFAULT ''");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: supervised process of the running step
+  for (const column of [
+    "pid INTEGER",
+    "output_path TEXT",
+    "output_offset INTEGER NOT NULL DEFAULT 0",
+    "rc_port INTEGER",
+    "rc_password TEXT",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE runs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+  // The rc password is only needed while the run is live
+  db.exec("UPDATE runs SET rc_password = NULL WHERE rc_password IS NOT NULL AND status NOT IN ('running', 'paused')");
+
+  // Migration: run timeouts
+  for (const column of [
+    "max_runtime_minutes INTEGER NOT NULL DEFAULT 0",
+    "stall_timeout_minutes INTEGER NOT NULL DEFAULT 0",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE jobs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+
+  // Migration: pre-run, post-run and on-failure hooks (JSON, see lib/hooks)
+  try {
+    db.exec("ALTER TABLE jobs ADD COLUMN hooks TEXT NOT NULL DEFAULT '{}'");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: upstream run that queued a dependent run
+  try {
+    db.exec("ALTER TABLE runs ADD COLUMN triggered_by_run_id INTEGER");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: verification schedules and max verify age
+  for (const column of [
+    "verify_schedule TEXT NOT NULL DEFAULT ''",
+    "verify_checksum_schedule TEXT NOT NULL DEFAULT ''",
+    "verify_max_age_days INTEGER NOT NULL DEFAULT 0",
+  ]) {
+    try {
+      db.exec(`ALTER TABLE jobs ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+
+  // Migration: why a run failed, when it is more specific than the exit code
+  try {
+    db.exec("ALTER TABLE runs ADD COLUMN failure_reason TEXT");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: job tags
+  try {
+    db.exec("ALTER TABLE jobs ADD COLUMN tags TEXT NOT NULL DEFAULT ''");
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: defaults of settings added after the first release. Only for
+  // databases that were already seeded — seedDatabase() skips non-empty ones
+  const addSetting = db.prepare(`
+    INSERT OR IGNORE INTO settings (key, value)
+    SELECT @key, @value WHERE EXISTS (SELECT 1 FROM settings)
+  `);
+  addSetting.run({ key: "notify_on_skip", value: "true" });
+  addSetting.run({ key: "notify_low_disk", value: "true" });
+  addSetting.run({ key: "notify_auth_expired", value: "true" });
 }
 
 // ── Jobs ────────────────────────────────────────────────────
@@ -88,8 +311,14 @@ export function getJobById(id: number): Job | undefined {
 
 export function createJob(data: Partial<Job>): Job {
   const stmt = getDb().prepare(`
-    INSERT INTO jobs (name, type, enabled, source_path, destination_path, schedule, flags, description)
-    VALUES (@name, @type, @enabled, @source_path, @destination_path, @schedule, @flags, @description)
+    INSERT INTO jobs (name, type, enabled, source_path, destination_path, schedule, flags, description,
+                      retry_max_attempts, retry_backoff_seconds, retry_exit_codes, retry_on_rate_limit, bwlimit,
+                      max_runtime_minutes, stall_timeout_minutes, hooks,
+                      verify_schedule, verify_checksum_schedule, verify_max_age_days, tags)
+    VALUES (@name, @type, @enabled, @source_path, @destination_path, @schedule, @flags, @description,
+            @retry_max_attempts, @retry_backoff_seconds, @retry_exit_codes, @retry_on_rate_limit, @bwlimit,
+            @max_runtime_minutes, @stall_timeout_minutes, @hooks,
+            @verify_schedule, @verify_checksum_schedule, @verify_max_age_days, @tags)
   `);
   const result = stmt.run({
     name: data.name || "New Job",
@@ -100,6 +329,18 @@ export function createJob(data: Partial<Job>): Job {
     schedule: data.schedule ?? "daily 02:00",
     flags: data.flags || "",
     description: data.description || "",
+    retry_max_attempts: data.retry_max_attempts ?? 1,
+    retry_backoff_seconds: data.retry_backoff_seconds ?? 300,
+    retry_exit_codes: data.retry_exit_codes || "",
+    retry_on_rate_limit: data.retry_on_rate_limit ?? 0,
+    bwlimit: data.bwlimit?.trim() || "",
+    max_runtime_minutes: data.max_runtime_minutes ?? 0,
+    stall_timeout_minutes: data.stall_timeout_minutes ?? 0,
+    hooks: data.hooks || "{}",
+    verify_schedule: data.verify_schedule?.trim() || "",
+    verify_checksum_schedule: data.verify_checksum_schedule?.trim() || "",
+    verify_max_age_days: data.verify_max_age_days ?? 0,
+    tags: parseJobTags(data.tags ?? "").join(","),
   });
   return getJobById(Number(result.lastInsertRowid))!;
 }
@@ -118,6 +359,18 @@ export function updateJob(id: number, data: Partial<Job>): Job | undefined {
       schedule = @schedule,
       flags = @flags,
       description = @description,
+      retry_max_attempts = @retry_max_attempts,
+      retry_backoff_seconds = @retry_backoff_seconds,
+      retry_exit_codes = @retry_exit_codes,
+      retry_on_rate_limit = @retry_on_rate_limit,
+      bwlimit = @bwlimit,
+      max_runtime_minutes = @max_runtime_minutes,
+      stall_timeout_minutes = @stall_timeout_minutes,
+      hooks = @hooks,
+      verify_schedule = @verify_schedule,
+      verify_checksum_schedule = @verify_checksum_schedule,
+      verify_max_age_days = @verify_max_age_days,
+      tags = @tags,
       updated_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
     WHERE id = @id
   `);
@@ -131,6 +384,18 @@ export function updateJob(id: number, data: Partial<Job>): Job | undefined {
     schedule: data.schedule ?? existing.schedule,
     flags: data.flags ?? existing.flags,
     description: data.description ?? existing.description,
+    retry_max_attempts: data.retry_max_attempts ?? existing.retry_max_attempts,
+    retry_backoff_seconds: data.retry_backoff_seconds ?? existing.retry_backoff_seconds,
+    retry_exit_codes: data.retry_exit_codes ?? existing.retry_exit_codes,
+    retry_on_rate_limit: data.retry_on_rate_limit ?? existing.retry_on_rate_limit,
+    bwlimit: data.bwlimit?.trim() ?? existing.bwlimit,
+    max_runtime_minutes: data.max_runtime_minutes ?? existing.max_runtime_minutes,
+    stall_timeout_minutes: data.stall_timeout_minutes ?? existing.stall_timeout_minutes,
+    hooks: data.hooks ?? existing.hooks,
+    verify_schedule: data.verify_schedule?.trim() ?? existing.verify_schedule,
+    verify_checksum_schedule: data.verify_checksum_schedule?.trim() ?? existing.verify_checksum_schedule,
+    verify_max_age_days: data.verify_max_age_days ?? existing.verify_max_age_days,
+    tags: data.tags == null ? existing.tags : parseJobTags(data.tags).join(","),
   });
   return getJobById(id);
 }
@@ -148,11 +413,206 @@ export function toggleJob(id: number): Job | undefined {
   return getJobById(id);
 }
 
+// ── Job Tuning ──────────────────────────────────────────────
+
+/** Store the job's learned rclone limits (null clears them) and log the change */
+export function setJobTuning(
+  jobId: number,
+  tuning: { tpslimit: number | null; transfers: number | null } | null,
+  entry: { run_id: number | null; rate_limit_hits: number; reason: JobTuningEntry["reason"] }
+): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("UPDATE jobs SET tuned_tpslimit = ?, tuned_transfers = ? WHERE id = ?")
+      .run(tuning?.tpslimit ?? null, tuning?.transfers ?? null, jobId);
+    db.prepare(`
+      INSERT INTO job_tuning_history (job_id, run_id, tpslimit, transfers, rate_limit_hits, reason)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(jobId, entry.run_id, tuning?.tpslimit ?? null, tuning?.transfers ?? null, entry.rate_limit_hits, entry.reason);
+  })();
+}
+
+export function getJobTuningHistory(jobId: number, limit = 20): JobTuningEntry[] {
+  return getDb()
+    .prepare("SELECT * FROM job_tuning_history WHERE job_id = ? ORDER BY id DESC LIMIT ?")
+    .all(jobId, limit) as JobTuningEntry[];
+}
+
+// ── Job Dependencies ────────────────────────────────────────
+
+const DEPENDENCY_SELECT = `
+  SELECT d.*, j.name as job_name, u.name as depends_on_job_name
+  FROM job_dependencies d
+  JOIN jobs j ON d.job_id = j.id
+  JOIN jobs u ON d.depends_on_job_id = u.id`;
+
+export function getAllJobDependencies(): JobDependency[] {
+  return getDb().prepare(`${DEPENDENCY_SELECT} ORDER BY d.id`).all() as JobDependency[];
+}
+
+/** Edges that start another job once `jobId` finished */
+export function getJobDependents(jobId: number): JobDependency[] {
+  return getDb().prepare(`${DEPENDENCY_SELECT} WHERE d.depends_on_job_id = ? ORDER BY d.id`).all(jobId) as JobDependency[];
+}
+
+/** Replace the upstream jobs that `jobId` runs after */
+export function setJobDependencies(jobId: number, deps: NewJobDependency[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("DELETE FROM job_dependencies WHERE job_id = ?").run(jobId);
+    const insert = db.prepare(`
+      INSERT INTO job_dependencies (job_id, depends_on_job_id, trigger, run_type)
+      VALUES (?, ?, ?, ?)
+    `);
+    for (const dep of deps) insert.run(jobId, dep.depends_on_job_id, dep.trigger, dep.run_type);
+  })();
+}
+
+// ── Notification Channels ───────────────────────────────────
+
+export function getAllChannels(): Channel[] {
+  return getDb().prepare("SELECT * FROM notification_channels ORDER BY id").all() as Channel[];
+}
+
+export function getEnabledChannels(): Channel[] {
+  return getDb().prepare("SELECT * FROM notification_channels WHERE enabled = 1 ORDER BY id").all() as Channel[];
+}
+
+export function getChannelById(id: number): Channel | undefined {
+  return getDb().prepare("SELECT * FROM notification_channels WHERE id = ?").get(id) as Channel | undefined;
+}
+
+export function createChannel(data: NewChannel): Channel {
+  const result = getDb().prepare(`
+    INSERT INTO notification_channels (type, name, enabled, config)
+    VALUES (@type, @name, @enabled, @config)
+  `).run({
+    type: data.type,
+    name: data.name,
+    enabled: data.enabled === false || data.enabled === 0 ? 0 : 1,
+    config: data.config || "{}",
+  });
+  return getChannelById(Number(result.lastInsertRowid))!;
+}
+
+export function updateChannel(id: number, data: Partial<NewChannel>): Channel | undefined {
+  const existing = getChannelById(id);
+  if (!existing) return undefined;
+  getDb().prepare(`
+    UPDATE notification_channels SET
+      type = @type,
+      name = @name,
+      enabled = @enabled,
+      config = @config,
+      updated_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
+    WHERE id = @id
+  `).run({
+    id,
+    type: data.type ?? existing.type,
+    name: data.name ?? existing.name,
+    enabled: data.enabled === undefined ? existing.enabled : data.enabled === false || data.enabled === 0 ? 0 : 1,
+    config: data.config ?? existing.config,
+  });
+  return getChannelById(id);
+}
+
+export function deleteChannel(id: number): boolean {
+  return getDb().prepare("DELETE FROM notification_channels WHERE id = ?").run(id).changes > 0;
+}
+
+// ── Notification Rules ──────────────────────────────────────
+
+export function getAllNotificationRules(): NotificationRule[] {
+  return getDb().prepare("SELECT * FROM notification_rules ORDER BY position, id").all() as NotificationRule[];
+}
+
+export function getNotificationRuleById(id: number): NotificationRule | undefined {
+  return getDb().prepare("SELECT * FROM notification_rules WHERE id = ?").get(id) as NotificationRule | undefined;
+}
+
+/** New rules go to the end of the list */
+export function createNotificationRule(data: NewNotificationRule): NotificationRule {
+  const db = getDb();
+  const { next } = db.prepare("SELECT COALESCE(MAX(position), 0) + 1 as next FROM notification_rules").get() as { next: number };
+  const result = db.prepare(`
+    INSERT INTO notification_rules (name, enabled, position, job_id, job_tag, events, min_severity, channel_ids)
+    VALUES (@name, @enabled, @position, @job_id, @job_tag, @events, @min_severity, @channel_ids)
+  `).run({
+    name: data.name,
+    enabled: data.enabled === false || data.enabled === 0 ? 0 : 1,
+    position: next,
+    job_id: data.job_id ?? null,
+    job_tag: data.job_tag || "",
+    events: data.events || "",
+    min_severity: data.min_severity || "",
+    channel_ids: data.channel_ids || "[]",
+  });
+  return getNotificationRuleById(Number(result.lastInsertRowid))!;
+}
+
+export function updateNotificationRule(id: number, data: Partial<NewNotificationRule>): NotificationRule | undefined {
+  const existing = getNotificationRuleById(id);
+  if (!existing) return undefined;
+  getDb().prepare(`
+    UPDATE notification_rules SET
+      name = @name,
+      enabled = @enabled,
+      job_id = @job_id,
+      job_tag = @job_tag,
+      events = @events,
+      min_severity = @min_severity,
+      channel_ids = @channel_ids,
+      updated_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
+    WHERE id = @id
+  `).run({
+    id,
+    name: data.name ?? existing.name,
+    enabled: data.enabled === undefined ? existing.enabled : data.enabled === false || data.enabled === 0 ? 0 : 1,
+    job_id: data.job_id === undefined ? existing.job_id : data.job_id,
+    job_tag: data.job_tag ?? existing.job_tag,
+    events: data.events ?? existing.events,
+    min_severity: data.min_severity ?? existing.min_severity,
+    channel_ids: data.channel_ids ?? existing.channel_ids,
+  });
+  return getNotificationRuleById(id);
+}
+
+export function deleteNotificationRule(id: number): boolean {
+  return getDb().prepare("DELETE FROM notification_rules WHERE id = ?").run(id).changes > 0;
+}
+
+/** Renumber the rules in the given order; false unless `ids` lists every rule exactly once */
+export function reorderNotificationRules(ids: number[]): boolean {
+  const db = getDb();
+  const existing = getAllNotificationRules().map((r) => r.id);
+  if (ids.length !== existing.length || new Set(ids).size !== ids.length || !ids.every((id) => existing.includes(id))) {
+    return false;
+  }
+  const setPosition = db.prepare("UPDATE notification_rules SET position = ? WHERE id = ?");
+  db.transaction(() => {
+    ids.forEach((id, i) => setPosition.run(i + 1, id));
+  })();
+  return true;
+}
+
 // ── Runs ────────────────────────────────────────────────────
 
+// Queued runs are dispatched in id order, so the position is the number
+// of queued runs with an id up to and including this one. Retries still
+// waiting for their backoff (not_before in the future) are not in line yet.
+const NOW_SQL = "strftime('%Y-%m-%dT%H:%M:%SZ', 'now')";
+const QUEUE_POSITION_SQL = `
+  CASE WHEN r.status = 'queued' AND (r.not_before IS NULL OR r.not_before <= ${NOW_SQL})
+    THEN (
+      SELECT COUNT(*) FROM runs q
+      WHERE q.status = 'queued' AND q.id <= r.id AND (q.not_before IS NULL OR q.not_before <= ${NOW_SQL})
+    )
+    ELSE NULL
+  END as queue_position`;
+
 export function getAllRuns(limit = 50, offset = 0, jobId?: number, status?: string, runType?: string): Run[] {
   let sql = `
-    SELECT r.*, j.name as job_name, j.type as job_type
+    SELECT r.*, j.name as job_name, j.type as job_type, ${QUEUE_POSITION_SQL}
     FROM runs r
     LEFT JOIN jobs j ON r.job_id = j.id
   `;
@@ -183,24 +643,100 @@ export function getAllRuns(limit = 50, offset = 0, jobId?: number, status?: stri
   return getDb().prepare(sql).all(params) as Run[];
 }
 
-export function getRunById(id: number): Run | undefined {
+/** Finished runs (skipped ones included) that started at or after `since` (ISO), oldest first */
+export function getFinishedRunsSince(since: string): Run[] {
   return getDb().prepare(`
     SELECT r.*, j.name as job_name, j.type as job_type
+    FROM runs r
+    LEFT JOIN jobs j ON r.job_id = j.id
+    WHERE r.started_at >= ? AND r.status NOT IN ('queued', 'running', 'paused')
+    ORDER BY r.started_at
+  `).all(since) as Run[];
+}
+
+export function getRunById(id: number): Run | undefined {
+  return getDb().prepare(`
+    SELECT r.*, j.name as job_name, j.type as job_type, ${QUEUE_POSITION_SQL}
     FROM runs r LEFT JOIN jobs j ON r.job_id = j.id
     WHERE r.id = ?
   `).get(id) as Run | undefined;
 }
 
-export function createRun(jobId: number, runType: RunType = "backup"): Run {
-  const stmt = getDb().prepare(`
-    INSERT INTO runs (job_id, status, run_type, short_summary)
-    VALUES (?, 'running', ?, ?)
-  `);
-  const summary = runType === "verify" ? "Verification started..." : "Job started...";
-  const result = stmt.run(jobId, runType, summary);
+/**
+ * Record a run that was never started (e.g. blocked by the blackout window).
+ * It counts as the job's latest run, so the scheduler won't re-fire it.
+ */
+export function createSkippedRun(
+  jobId: number,
+  reason: string,
+  runType: RunType = "backup",
+  options: Record<string, unknown> = {}
+): Run {
+  const result = getDb().prepare(`
+    INSERT INTO runs (job_id, status, run_type, finished_at, duration_seconds, short_summary, options)
+    VALUES (?, 'skipped', ?, strftime('%Y-%m-%dT%H:%M:%SZ', 'now'), 0, ?, ?)
+  `).run(jobId, runType, reason, JSON.stringify(options));
+  return getRunById(Number(result.lastInsertRowid))!;
+}
+
+export function createQueuedRun(
+  jobId: number,
+  runType: RunType = "backup",
+  options: Record<string, unknown> = {},
+  retry?: { parent_run_id: number; attempt: number; not_before: string },
+  trigger?: { run_id: number; summary: string }
+): Run {
+  const result = getDb().prepare(`
+    INSERT INTO runs (job_id, status, run_type, queued_at, options, short_summary, parent_run_id, attempt, not_before,
+                      triggered_by_run_id)
+    VALUES (@job_id, 'queued', @run_type, strftime('%Y-%m-%dT%H:%M:%SZ', 'now'), @options, @short_summary,
+            @parent_run_id, @attempt, @not_before, @triggered_by_run_id)
+  `).run({
+    job_id: jobId,
+    run_type: runType,
+    options: JSON.stringify(options),
+    short_summary: retry
+      ? `Retry attempt ${retry.attempt} waiting for backoff...`
+      : trigger?.summary ?? "Waiting in queue...",
+    parent_run_id: retry?.parent_run_id ?? null,
+    attempt: retry?.attempt ?? 1,
+    not_before: retry?.not_before ?? null,
+    triggered_by_run_id: trigger?.run_id ?? null,
+  });
   return getRunById(Number(result.lastInsertRowid))!;
 }
 
+export function getQueuedRuns(): Run[] {
+  return getDb().prepare(`
+    SELECT r.*, j.name as job_name, j.type as job_type, ${QUEUE_POSITION_SQL}
+    FROM runs r LEFT JOIN jobs j ON r.job_id = j.id
+    WHERE r.status = 'queued'
+    ORDER BY r.id
+  `).all() as Run[];
+}
+
+/** Runs holding a slot — paused runs keep theirs, their process is still alive */
+export function countRunningRuns(): number {
+  return (getDb().prepare("SELECT COUNT(*) as count FROM runs WHERE status IN ('running', 'paused')").get() as { count: number }).count;
+}
+
+/** Move a queued run to running; started_at is reset so duration excludes time spent waiting */
+export function markRunStarted(id: number): Run | undefined {
+  const run = getRunById(id);
+  if (!run) return undefined;
+  const summary = run.run_type === "verify"
+    ? "Verification started..."
+    : run.attempt > 1 ? `Retry attempt ${run.attempt} started...` : "Job started...";
+  const result = getDb().prepare(`
+    UPDATE runs SET
+      status = 'running',
+      started_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now'),
+      short_summary = ?
+    WHERE id = ? AND status = 'queued'
+  `).run(summary, id);
+  return result.changes > 0 ? getRunById(id) : undefined;
+}
+
 export function completeRun(
   id: number,
   data: {
@@ -210,7 +746,8 @@ export function completeRun(
     errors_count?: number;
     short_summary?: string;
     log_excerpt?: string;
-  }
+    failure_reason?: FailureReason | null;
+  } & Partial<RunProgressColumns>
 ): Run | undefined {
   const run = getRunById(id);
   if (!run) return undefined;
@@ -228,7 +765,16 @@ export function completeRun(
       files_transferred = @files_transferred,
       errors_count = @errors_count,
       short_summary = @short_summary,
-      log_excerpt = @log_excerpt
+      log_excerpt = @log_excerpt,
+      failure_reason = @failure_reason,
+      speed_bps = @speed_bps,
+      eta_seconds = NULL,
+      rc_password = NULL,
+      total_bytes = COALESCE(@total_bytes, total_bytes),
+      total_transfers = COALESCE(@total_transfers, total_transfers),
+      checks = COALESCE(@checks, checks),
+      total_checks = COALESCE(@total_checks, total_checks),
+      rate_limit_hits = COALESCE(@rate_limit_hits, rate_limit_hits)
     WHERE id = @id
   `).run({
     id,
@@ -239,6 +785,14 @@ export function completeRun(
     errors_count: data.errors_count ?? 0,
     short_summary: data.short_summary ?? "",
     log_excerpt: data.log_excerpt ?? "",
+    failure_reason: data.failure_reason ?? null,
+    // Finished runs keep the average throughput, not the last instantaneous speed
+    speed_bps: durationSeconds > 0 && data.bytes_transferred ? data.bytes_transferred / durationSeconds : null,
+    total_bytes: data.total_bytes ?? null,
+    total_transfers: data.total_transfers ?? null,
+    checks: data.checks ?? null,
+    total_checks: data.total_checks ?? null,
+    rate_limit_hits: data.rate_limit_hits ?? null,
   });
 
   return getRunById(id);
@@ -251,19 +805,90 @@ export function updateRunProgress(
     files_transferred: number;
     errors_count: number;
     short_summary: string;
-  }
+  } & Partial<RunProgressColumns>
 ): void {
   getDb().prepare(`
     UPDATE runs SET
       bytes_transferred = @bytes_transferred,
       files_transferred = @files_transferred,
       errors_count = @errors_count,
-      short_summary = @short_summary
-    WHERE id = @id AND status = 'running'
-  `).run({ id, ...data });
+      short_summary = @short_summary,
+      speed_bps = @speed_bps,
+      eta_seconds = @eta_seconds,
+      total_bytes = @total_bytes,
+      total_transfers = @total_transfers,
+      checks = @checks,
+      total_checks = @total_checks,
+      rate_limit_hits = @rate_limit_hits
+    WHERE id = @id AND status IN ('running', 'paused')
+  `).run({
+    id,
+    bytes_transferred: data.bytes_transferred,
+    files_transferred: data.files_transferred,
+    errors_count: data.errors_count,
+    short_summary: data.short_summary,
+    speed_bps: data.speed_bps ?? null,
+    eta_seconds: data.eta_seconds ?? null,
+    total_bytes: data.total_bytes ?? null,
+    total_transfers: data.total_transfers ?? null,
+    checks: data.checks ?? null,
+    total_checks: data.total_checks ?? null,
+    rate_limit_hits: data.rate_limit_hits ?? 0,
+  });
+}
+
+export function setRunSummary(id: number, summary: string): void {
+  getDb().prepare("UPDATE runs SET short_summary = ? WHERE id = ? AND status IN ('running', 'paused')").run(summary, id);
+}
+
+export function markRunPaused(id: number, summary: string, pausedBy: PauseReason = "user"): boolean {
+  return getDb()
+    .prepare("UPDATE runs SET status = 'paused', paused_by = ?, short_summary = ? WHERE id = ? AND status = 'running'")
+    .run(pausedBy, summary, id).changes > 0;
+}
+
+export function markRunResumed(id: number, summary: string): boolean {
+  return getDb()
+    .prepare("UPDATE runs SET status = 'running', paused_by = NULL, short_summary = ? WHERE id = ? AND status = 'paused'")
+    .run(summary, id).changes > 0;
+}
+
+/** Runs still suspended for the blackout window */
+export function getBlackoutPausedRunIds(): number[] {
+  return (getDb()
+    .prepare("SELECT id FROM runs WHERE status = 'paused' AND paused_by = 'blackout'")
+    .all() as { id: number }[]).map((r) => r.id);
+}
+
+// ── Supervised processes ────────────────────────────────────
+
+/** Record the detached process of the step a run just started */
+export function setRunProcess(
+  id: number,
+  proc: { pid: number; output_path: string; rc_port: number | null; rc_password: string | null }
+): void {
+  getDb().prepare(`
+    UPDATE runs SET pid = @pid, output_path = @output_path, output_offset = 0, rc_port = @rc_port, rc_password = @rc_password
+    WHERE id = @id
+  `).run({ id, ...proc });
 }
 
-export function recoverStaleRunningRuns(): number {
+export function setRunOutputOffset(id: number, offset: number): void {
+  getDb().prepare("UPDATE runs SET output_offset = ? WHERE id = ?").run(offset, id);
+}
+
+/** The step's process is gone and its output consumed */
+export function clearRunProcess(id: number): void {
+  getDb().prepare("UPDATE runs SET pid = NULL, output_path = NULL, output_offset = 0, rc_port = NULL, rc_password = NULL WHERE id = ?").run(id);
+}
+
+/** Running or paused runs, oldest first */
+export function getActiveRuns(): Run[] {
+  return getDb().prepare("SELECT * FROM runs WHERE status IN ('running', 'paused') ORDER BY id").all() as Run[];
+}
+
+/** Cancel runs left running/paused by a restart, except those that were reattached */
+export function recoverStaleRunningRuns(exceptIds: number[] = []): number {
   const result = getDb().prepare(`
     UPDATE runs
     SET
@@ -284,28 +909,70 @@ export function recoverStaleRunningRuns(): number {
           THEN 'Run marked as cancelled on startup: process no longer exists (likely service restart/deploy).'
         ELSE log_excerpt || char(10) || char(10) || '[system] Marked cancelled on startup: process no longer exists (likely service restart/deploy).'
       END
-    WHERE status = 'running'
-  `).run();
+    WHERE status IN ('running', 'paused')
+      AND id NOT IN (SELECT value FROM json_each(?))
+  `).run(JSON.stringify(exceptIds));
 
   return result.changes;
 }
 
-// ── Dashboard Stats ─────────────────────────────────────────
+// ── Run Files ───────────────────────────────────────────────
 
-export function getDashboardStats(): DashboardStats {
+export function insertRunFiles(runId: number, files: NewRunFile[]): void {
+  if (files.length === 0) return;
   const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO run_files (run_id, path, action, size, error)
+    VALUES (@run_id, @path, @action, @size, @error)
+  `);
+  db.transaction(() => {
+    for (const file of files) stmt.run({ run_id: runId, ...file });
+  })();
+}
 
-  const totalJobs = (db.prepare("SELECT COUNT(*) as count FROM jobs").get() as { count: number }).count;
-  const activeJobs = (db.prepare("SELECT COUNT(*) as count FROM jobs WHERE enabled = 1").get() as { count: number }).count;
-  const totalRuns = (db.prepare("SELECT COUNT(*) as count FROM runs").get() as { count: number }).count;
-  const successfulRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE status = 'success'").get() as { count: number }).count;
-  const failedRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE status = 'failure'").get() as { count: number }).count;
-  const last24hRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE started_at >= strftime('%Y-%m-%dT%H:%M:%SZ', 'now', '-1 day')").get() as { count: number }).count;
-  const totalBytes = (db.prepare("SELECT COALESCE(SUM(bytes_transferred), 0) as total FROM runs WHERE status = 'success'").get() as { total: number }).total;
+export function getRunFiles(
+  runId: number,
+  opts: { search?: string; action?: RunFileAction; limit?: number; offset?: number } = {}
+): { files: RunFile[]; total: number } {
+  let where = "WHERE run_id = @runId";
+  const params: Record<string, unknown> = { runId };
+  if (opts.search) {
+    where += " AND path LIKE @search";
+    params.search = `%${opts.search}%`;
+  }
+  if (opts.action) {
+    where += " AND action = @action";
+    params.action = opts.action;
+  }
 
-  const recentRuns = getAllRuns(5);
+  const db = getDb();
+  const total = (db.prepare(`SELECT COUNT(*) as count FROM run_files ${where}`).get(params) as { count: number }).count;
+  const files = db.prepare(`SELECT * FROM run_files ${where} ORDER BY id LIMIT @limit OFFSET @offset`).all({
+    ...params,
+    limit: opts.limit ?? 100,
+    offset: opts.offset ?? 0,
+  }) as RunFile[];
+  return { files, total };
+}
+
+/** Runs that touched a file, newest first — exact path matches, or a substring search when `exact` is false */
+export function getFileTouches(filePath: string, exact = true, limit = 50): RunFileTouch[] {
+  return getDb().prepare(`
+    SELECT f.*, r.job_id, j.name as job_name, r.run_type, r.status as run_status, r.started_at
+    FROM run_files f
+    JOIN runs r ON f.run_id = r.id
+    LEFT JOIN jobs j ON r.job_id = j.id
+    WHERE ${exact ? "f.path = @path" : "f.path LIKE @path"}
+    ORDER BY f.id DESC
+    LIMIT @limit
+  `).all({ path: exact ? filePath : `%${filePath}%`, limit }) as RunFileTouch[];
+}
+
+// ── Dashboard Stats ─────────────────────────────────────────
 
-  const jobsWithLastRun = db.prepare(`
+/** Every job with its latest backup and verify run */
+export function getJobsWithLastRun(): JobWithLastRun[] {
+  return getDb().prepare(`
     SELECT j.*,
       lr.id as last_run_id,
       lr.status as last_run_status,
@@ -317,7 +984,9 @@ export function getDashboardStats(): DashboardStats {
       lv.id as last_verify_id,
       lv.status as last_verify_status,
       lv.started_at as last_verify_at,
-      lv.short_summary as last_verify_summary
+      lv.short_summary as last_verify_summary,
+      (SELECT MAX(COALESCE(finished_at, started_at)) FROM runs
+        WHERE job_id = j.id AND run_type = 'verify' AND status = 'success') as last_verify_ok_at
     FROM jobs j
     LEFT JOIN (
       SELECT id, job_id, status, started_at, duration_seconds,
@@ -330,14 +999,22 @@ export function getDashboardStats(): DashboardStats {
       SELECT id, job_id, status, started_at, short_summary,
              ROW_NUMBER() OVER (PARTITION BY job_id ORDER BY started_at DESC) as rn
       FROM runs
-      WHERE run_type = 'verify'
+      WHERE run_type = 'verify' AND status NOT IN ('queued', 'skipped')
     ) lv ON lv.job_id = j.id AND lv.rn = 1
     ORDER BY j.name
   `).all() as JobWithLastRun[];
+}
 
-  // Disk info — auto-detect sizes via statfs from configured mount points
+/**
+ * Usage of the mount points in the disks_config setting, via statfs;
+ * unreadable mounts report zeros. `quiet` skips the per-disk log lines
+ * (the background disk monitor calls this every minute).
+ */
+export function getDiskInfo(quiet = false): DiskInfo[] {
   const disks: DiskInfo[] = [];
   const disksJson = getSetting("disks_config");
+  const defaultWarning = parsePercent(getSetting("disk_warning_free_percent"), 15);
+  const defaultCritical = parsePercent(getSetting("disk_critical_free_percent"), 5);
   if (disksJson) {
     try {
       const fs = require("fs");
@@ -346,6 +1023,10 @@ export function getDashboardStats(): DashboardStats {
         for (const entry of parsed) {
           const mount = (entry.mount || "").trim();
           const label = (entry.label || mount).trim();
+          const thresholds = {
+            warning_free_percent: parsePercent(entry.warning_free_percent, defaultWarning),
+            critical_free_percent: parsePercent(entry.critical_free_percent, defaultCritical),
+          };
           try {
             // Check path exists first
             fs.accessSync(mount, fs.constants.R_OK);
@@ -358,18 +1039,43 @@ export function getDashboardStats(): DashboardStats {
             const usedGb = Math.round((usedBytes / (1024 ** 3)) * 10) / 10;
             const freeGb = Math.round((freeBytes / (1024 ** 3)) * 10) / 10;
             const usagePercent = totalBytes > 0 ? Math.round((usedBytes / totalBytes) * 100) : 0;
-            console.log(`[disk] ${mount} (${label}): ${usedGb}/${totalGb} GB (${usagePercent}%)`);
-            disks.push({ mount, label, total_gb: totalGb, used_gb: usedGb, free_gb: freeGb, usage_percent: usagePercent });
+            if (!quiet) console.log(`[disk] ${mount} (${label}): ${usedGb}/${totalGb} GB (${usagePercent}%)`);
+            disks.push({ mount, label, total_gb: totalGb, used_gb: usedGb, free_gb: freeGb, usage_percent: usagePercent, ...thresholds });
           } catch (err: unknown) {
             // Path not mounted or inaccessible — show N/A values
             const errMsg = err instanceof Error ? err.message : String(err);
-            console.error(`[disk] statfs failed for "${mount}": ${errMsg}`);
-            disks.push({ mount, label, total_gb: 0, used_gb: 0, free_gb: 0, usage_percent: 0 });
+            if (!quiet) console.error(`[disk] statfs failed for "${mount}": ${errMsg}`);
+            disks.push({ mount, label, total_gb: 0, used_gb: 0, free_gb: 0, usage_percent: 0, ...thresholds });
           }
         }
       }
     } catch { /* ignore malformed JSON */ }
   }
+  return disks;
+}
+
+/** A 0–100 percentage from a setting or disk entry; blank or invalid values fall back */
+function parsePercent(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || String(value).trim() === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : fallback;
+}
+
+export function getDashboardStats(): DashboardStats {
+  const db = getDb();
+
+  const totalJobs = (db.prepare("SELECT COUNT(*) as count FROM jobs").get() as { count: number }).count;
+  const activeJobs = (db.prepare("SELECT COUNT(*) as count FROM jobs WHERE enabled = 1").get() as { count: number }).count;
+  const totalRuns = (db.prepare("SELECT COUNT(*) as count FROM runs").get() as { count: number }).count;
+  const successfulRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE status = 'success'").get() as { count: number }).count;
+  const failedRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE status IN ('failure', 'timed_out')").get() as { count: number }).count;
+  const last24hRuns = (db.prepare("SELECT COUNT(*) as count FROM runs WHERE started_at >= strftime('%Y-%m-%dT%H:%M:%SZ', 'now', '-1 day')").get() as { count: number }).count;
+  const totalBytes = (db.prepare("SELECT COALESCE(SUM(bytes_transferred), 0) as total FROM runs WHERE status = 'success'").get() as { total: number }).total;
+
+  const recentRuns = getAllRuns(5);
+
+  const jobsWithLastRun = getJobsWithLastRun();
+  const disks = getDiskInfo();
 
   // Server info from settings
   const serverInfo: Record<string, string> = {};
@@ -427,19 +1133,24 @@ export function seedDatabase(): void {
 
   const transaction = db.transaction(() => {
     // Default settings — all empty, user fills in via UI
-    // Telegram
-    setSetting("telegram_bot_token", "");
-    setSetting("telegram_chat_id", "");
-    setSetting("telegram_enabled", "false");
+    // Notifications (channels live in notification_channels)
     setSetting("notify_on_failure", "true");
     setSetting("notify_on_success", "false");
+    setSetting("notify_on_skip", "true");
     setSetting("notify_daily_digest", "true");
+    setSetting("daily_digest_time", "08:00");
+    setSetting("notify_low_disk", "true");
+    setSetting("notify_auth_expired", "true");
 
     // Rclone
     setSetting("rclone_remote_name", "");
     setSetting("rclone_config_path", "");
+    setSetting("remote_probe_interval_hours", "6");
     setSetting("gdrive_backup_folder", "");
     setSetting("max_bandwidth", "10M");
+    setSetting("bandwidth_schedule", "");
+    setSetting("rate_limit_threshold", "20");
+    setSetting("rate_limit_max_restarts", "2");
 
     // Server info (user fills in)
     setSetting("server_hostname", "");
@@ -455,13 +1166,38 @@ export function seedDatabase(): void {
     setSetting("path_immich_db_backups", "");
     setSetting("path_media_library", "");
 
+    // Immich database dumps (immich_db_backup jobs)
+    setSetting("immich_db_method", "docker");
+    setSetting("immich_db_container", "immich_postgres");
+    setSetting("immich_db_host", "");
+    setSetting("immich_db_port", "5432");
+    setSetting("immich_db_user", "postgres");
+    setSetting("immich_db_password", "");
+    setSetting("immich_db_name", "immich");
+    setSetting("immich_db_retention", "14");
+
+    // Immich server (immich_go_import jobs)
+    setSetting("immich_server_url", "");
+    setSetting("immich_api_key", "");
+    setSetting("immich_go_path", "immich-go");
+
     // Disk config (JSON array, user fills via UI)
     setSetting("disks_config", "[]");
+    setSetting("disk_warning_free_percent", "15");
+    setSetting("disk_critical_free_percent", "5");
+    setSetting("disk_block_on_critical", "false");
 
     // Scheduling
     setSetting("blackout_start", "18:00");
     setSetting("blackout_end", "23:00");
+    setSetting("blackout_enabled", "true");
+    setSetting("blackout_action", "defer");
+    setSetting("blackout_running_action", "none");
     setSetting("max_concurrent_jobs", "1");
+
+    // Run logs (data/logs)
+    setSetting("log_retention_days", "30");
+    setSetting("log_retention_max_mb", "1024");
   });
 
   transaction();
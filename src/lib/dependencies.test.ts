@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { findLoop } from "./dependencies";
+import type { Job, JobType, RunType } from "./types";
+
+const jobs = (types: Record<number, JobType>) =>
+  new Map(Object.entries(types).map(([id, type]) => [Number(id), { id: Number(id), type } as Job]));
+/** `job` runs its `run_type` run after `upstream` */
+const edge = (job: number, upstream: number, run_type: RunType = "backup") => ({ job_id: job, depends_on_job_id: upstream, run_type });
+
+test("a chain without a way back is not a loop", () => {
+  const all = jobs({ 1: "rclone_copy", 2: "rclone_copy", 3: "rclone_sync" });
+  assert.equal(findLoop(3, [edge(2, 1), edge(3, 2)], all), null);
+  assert.equal(findLoop(1, [edge(2, 1), edge(3, 1)], all), null);
+});
+
+test("the loop through the edited job is reported in order", () => {
+  const all = jobs({ 1: "rclone_copy", 2: "rclone_copy", 3: "rclone_copy" });
+  assert.deepEqual(findLoop(1, [edge(2, 1), edge(3, 2), edge(1, 3)], all), [1, 2, 3, 1]);
+  assert.deepEqual(findLoop(1, [edge(1, 1)], all), [1, 1]);
+});
+
+test("only edges that queue a job's regular run pass the chain on", () => {
+  // A verify run queued for a backup job doesn't trigger its dependents
+  const all = jobs({ 1: "rclone_copy", 2: "rclone_copy" });
+  assert.equal(findLoop(1, [edge(2, 1, "verify"), edge(1, 2)], all), null);
+  // ...but it is the regular run of a check job
+  const withCheck = jobs({ 1: "rclone_copy", 2: "rclone_check" });
+  assert.deepEqual(findLoop(1, [edge(2, 1, "verify"), edge(1, 2)], withCheck), [1, 2, 1]);
+});
+
+test("the edited job's type decides which of its edges pass the chain on", () => {
+  const edges = [edge(1, 2, "verify"), edge(2, 1)];
+  assert.equal(findLoop(1, edges, jobs({ 1: "rclone_copy", 2: "rclone_copy" })), null);
+  assert.deepEqual(findLoop(1, edges, jobs({ 1: "rclone_check", 2: "rclone_copy" })), [1, 2, 1]);
+});
@@ -0,0 +1,83 @@
+// ============================================================
+// Job dependencies
+// A job can run after other jobs: when an upstream job's regular
+// run (backup, or verify for check jobs) finishes with a matching
+// result, the run queue queues the dependent run (see run-queue).
+// Edges are stored in job_dependencies; this module validates them
+// on save and rejects edges that would close a loop.
+// ============================================================
+
+import { getAllJobDependencies, getAllJobs } from "./db";
+import { getDefaultRunType } from "./run-queue";
+import type { DependencyTrigger, Job, JobDependency, JobType, NewJobDependency } from "./types";
+
+export const DEPENDENCY_TRIGGERS: DependencyTrigger[] = ["success", "failure", "always"];
+
+/**
+ * Why `deps` can't be saved as the upstream jobs of a job, or null if
+ * they are fine. `job.id` is missing for a job that is being created;
+ * `job.type` is the type it is saved with.
+ */
+export function validateJobDependencies(job: { id?: number; type: JobType }, deps: unknown): string | null {
+  if (!Array.isArray(deps)) return "Dependencies must be a list";
+
+  const jobs = new Map(getAllJobs().map((j) => [j.id, j]));
+  const seen = new Set<string>();
+  for (const [i, dep] of (deps as Partial<NewJobDependency>[]).entries()) {
+    const where = `Dependency #${i + 1}`;
+    const upstream = jobs.get(Number(dep?.depends_on_job_id));
+    if (!upstream) return `${where}: upstream job not found`;
+    if (!DEPENDENCY_TRIGGERS.includes(dep.trigger as DependencyTrigger)) return `${where}: invalid trigger "${dep.trigger}"`;
+    if (dep.run_type !== "backup" && dep.run_type !== "verify") return `${where}: invalid run type "${dep.run_type}"`;
+    if (job.type === "rclone_check" && dep.run_type === "backup") return `${where}: check jobs only have verify runs`;
+    const key = `${upstream.id}/${dep.run_type}`;
+    if (seen.has(key)) return `${where}: "${upstream.name}" is listed twice`;
+    seen.add(key);
+  }
+
+  // A job that is being created has no dependents yet, so it can't close a loop
+  const jobId = job.id;
+  if (jobId == null) return null;
+  // Walk the graph with the job's type as it is being saved — which of its
+  // runs passes the chain on depends on it
+  const stored = jobs.get(jobId);
+  if (stored) jobs.set(jobId, { ...stored, type: job.type });
+  const edges = [
+    ...getAllJobDependencies().filter((d) => d.job_id !== jobId),
+    ...(deps as NewJobDependency[]).map((d) => ({ ...d, depends_on_job_id: Number(d.depends_on_job_id), job_id: jobId })),
+  ];
+  const loop = findLoop(jobId, edges, jobs);
+  return loop ? `Dependency loop: ${loop.map((id) => jobs.get(id)?.name ?? `#${id}`).join(" → ")}` : null;
+}
+
+/**
+ * Job IDs of a loop through `jobId` in the dependency edges, or null. Only
+ * edges that queue a job's regular run pass the chain on — a verify run
+ * queued for a backup job doesn't trigger anything itself.
+ */
+export function findLoop(
+  jobId: number,
+  edges: Pick<JobDependency, "job_id" | "depends_on_job_id" | "run_type">[],
+  jobs: Map<number, Job>
+): number[] | null {
+  const downstream = new Map<number, number[]>();
+  for (const edge of edges) {
+    const target = jobs.get(edge.job_id);
+    if (!target || edge.run_type !== getDefaultRunType(target)) continue;
+    downstream.set(edge.depends_on_job_id, [...(downstream.get(edge.depends_on_job_id) ?? []), edge.job_id]);
+  }
+
+  // The tree was loop-free before, so any loop now runs through jobId
+  const visited = new Set<number>();
+  const walk = (id: number, path: number[]): number[] | null => {
+    for (const next of downstream.get(id) ?? []) {
+      if (next === jobId) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const loop = walk(next, [...path, next]);
+      if (loop) return loop;
+    }
+    return null;
+  };
+  return walk(jobId, [jobId]);
+}
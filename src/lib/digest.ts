@@ -0,0 +1,135 @@
+// ============================================================
+// Daily digest
+// One notification summarising the last 24 hours: runs per job,
+// bytes moved, failures, schedules that didn't run, stale
+// verifications and disk usage. Sent by the scheduler at
+// daily_digest_time, or on demand from Settings.
+// ============================================================
+
+import { getDiskInfo, getFinishedRunsSince, getJobsWithLastRun, getSetting } from "./db";
+import { formatBytes } from "./executor/helpers";
+import type { JobWithLastRun, MissedSchedule, NotificationMessage, Run, RunStatus } from "./types";
+
+const MAX_FAILURES = 10;
+const MAX_SUMMARY_CHARS = 160;
+
+const STATUS_EMOJI: Partial<Record<RunStatus, string>> = {
+  success: "✅",
+  failure: "❌",
+  timed_out: "⏰",
+  cancelled: "⛔",
+  skipped: "⏭",
+};
+
+/** Build the digest for runs that started after `sinceMs`; channels that limit length cut the body */
+export function buildDailyDigest(sinceMs: number, missed: MissedSchedule[]): NotificationMessage {
+  const tz = getSetting("timezone") || "UTC";
+  const runs = getFinishedRunsSince(new Date(sinceMs).toISOString().replace(/\.\d{3}Z$/, "Z"));
+  const failures = runs.filter((r) => r.status === "failure" || r.status === "timed_out");
+  const totalBytes = runs.reduce((sum, r) => sum + (r.bytes_transferred ?? 0), 0);
+  const succeeded = runs.filter((r) => r.status === "success").length;
+
+  const lines: string[] = [
+    runs.length > 0
+      ? `Last 24h: ${runs.length} runs · ${succeeded} succeeded · ${failures.length} failed · ${formatBytes(totalBytes)} moved`
+      : "Last 24h: no runs",
+  ];
+
+  // ── Runs per job ──
+  if (runs.length > 0) {
+    lines.push("", "Runs");
+    const byJob = new Map<string, Run[]>();
+    for (const run of runs) {
+      const name = run.job_name ?? `Job #${run.job_id}`;
+      byJob.set(name, [...(byJob.get(name) ?? []), run]);
+    }
+    for (const [name, jobRuns] of [...byJob.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const last = jobRuns[jobRuns.length - 1];
+      const counts = countStatuses(jobRuns);
+      const bytes = jobRuns.reduce((sum, r) => sum + (r.bytes_transferred ?? 0), 0);
+      lines.push(
+        `${STATUS_EMOJI[last.status] ?? "•"} ${name}: ${counts}${bytes > 0 ? `, ${formatBytes(bytes)}` : ""}`
+      );
+    }
+  }
+
+  // ── Failures ──
+  if (failures.length > 0) {
+    lines.push("", "Failures");
+    for (const run of failures.slice(-MAX_FAILURES)) {
+      const summary = run.short_summary.length > MAX_SUMMARY_CHARS
+        ? run.short_summary.slice(0, MAX_SUMMARY_CHARS) + "…"
+        : run.short_summary;
+      lines.push(
+        `${STATUS_EMOJI[run.status]} ${run.job_name ?? `Job #${run.job_id}`} ${formatTime(run.started_at, tz)}` +
+        `${run.run_type === "verify" ? " (verify)" : ""} — ${summary}`
+      );
+    }
+    if (failures.length > MAX_FAILURES) lines.push(`…and ${failures.length - MAX_FAILURES} more`);
+  }
+
+  // ── Missed schedules ──
+  if (missed.length > 0) {
+    lines.push("", "Due but didn't run");
+    for (const m of missed) {
+      lines.push(`⏸ ${m.job_name} — ${m.label} ${m.schedule}, due ${formatTime(m.due_at, tz)}`);
+    }
+  }
+
+  // ── Stale verifications ──
+  const stale = getJobsWithLastRun().filter(isVerifyStale);
+  if (stale.length > 0) {
+    lines.push("", "Stale verifications");
+    for (const job of stale) {
+      const lastOk = job.last_verify_ok_at ? `last OK ${formatDay(toMs(job.last_verify_ok_at), tz)}` : "never verified";
+      lines.push(`🛡 ${job.name} — ${lastOk} (limit ${job.verify_max_age_days}d)`);
+    }
+  }
+
+  // ── Disks ──
+  const disks = getDiskInfo();
+  if (disks.length > 0) {
+    lines.push("", "Disks");
+    for (const disk of disks) {
+      lines.push(
+        disk.total_gb > 0
+          ? `💾 ${disk.label}: ${disk.used_gb}/${disk.total_gb} GB (${disk.usage_percent}%), ${disk.free_gb} GB free`
+          : `💾 ${disk.label}: not mounted`
+      );
+    }
+  }
+
+  return {
+    event: "DAILY_DIGEST",
+    severity: failures.length > 0 || missed.length > 0 ? "warning" : "info",
+    title: `📋 Daily Backup Digest — ${formatDay(Date.now(), tz)}`,
+    body: lines.join("\n"),
+  };
+}
+
+/** Same rule as the dashboard's stale verify badge */
+function isVerifyStale(job: JobWithLastRun): boolean {
+  if (!job.enabled || !job.verify_max_age_days || job.type === "rclone_check") return false;
+  if (!job.last_verify_ok_at) return true;
+  return Date.now() - toMs(job.last_verify_ok_at) > job.verify_max_age_days * 86400_000;
+}
+
+/** "2 runs (1 failed, 1 success)" */
+function countStatuses(runs: Run[]): string {
+  const counts = new Map<RunStatus, number>();
+  for (const run of runs) counts.set(run.status, (counts.get(run.status) ?? 0) + 1);
+  const parts = [...counts.entries()].map(([status, n]) => `${n} ${status.replace("_", " ")}`);
+  return `${runs.length} run${runs.length === 1 ? "" : "s"} (${parts.join(", ")})`;
+}
+
+function toMs(iso: string): number {
+  return new Date(iso.endsWith("Z") ? iso : iso + "Z").getTime();
+}
+
+function formatTime(iso: string, tz: string): string {
+  return new Date(toMs(iso)).toLocaleString("en-GB", { timeZone: tz, hour: "2-digit", minute: "2-digit", hour12: false });
+}
+
+function formatDay(ms: number, tz: string): string {
+  return new Date(ms).toLocaleDateString("en-GB", { timeZone: tz, day: "numeric", month: "short", year: "numeric" });
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getDiskLevel, getFreePercent } from "./disks";
+import type { DiskInfo } from "./types";
+
+/** A 1000 GB disk with `free` GB free, warning at 15% and critical at 5% */
+const disk = (free: number, total = 1000): DiskInfo => ({
+  mount: "/mnt/backup",
+  label: "Backup",
+  total_gb: total,
+  used_gb: total - free,
+  free_gb: free,
+  usage_percent: total > 0 ? Math.round(((total - free) / total) * 100) : 0,
+  warning_free_percent: 15,
+  critical_free_percent: 5,
+});
+
+test("free percent is rounded to one decimal like the dashboard", () => {
+  assert.equal(getFreePercent(disk(123.45)), 12.3);
+  assert.equal(getFreePercent(disk(0, 0)), 0);
+});
+
+test("a disk enters a level at its threshold", () => {
+  assert.equal(getDiskLevel(disk(151)), "ok");
+  assert.equal(getDiskLevel(disk(150)), "warning");
+  assert.equal(getDiskLevel(disk(51)), "warning");
+  assert.equal(getDiskLevel(disk(50)), "critical");
+  assert.equal(getDiskLevel(disk(0, 0)), "unknown");
+});
+
+test("leaving a level takes the recovery margin on top of its threshold", () => {
+  assert.equal(getDiskLevel(disk(160), "warning"), "warning");
+  assert.equal(getDiskLevel(disk(171), "warning"), "ok");
+  assert.equal(getDiskLevel(disk(65), "critical"), "critical");
+  assert.equal(getDiskLevel(disk(71), "critical"), "warning");
+  // The margin of the warning level applies to a critical disk as well
+  assert.equal(getDiskLevel(disk(165), "critical"), "warning");
+  assert.equal(getDiskLevel(disk(171), "critical"), "ok");
+});
+
+test("getting worse needs no margin", () => {
+  assert.equal(getDiskLevel(disk(50), "warning"), "critical");
+  assert.equal(getDiskLevel(disk(150), "ok"), "warning");
+  assert.equal(getDiskLevel(disk(65), "ok"), "warning");
+});
@@ -0,0 +1,149 @@
+// ============================================================
+// Disk space monitor
+// The scheduler checks the disks from Settings → Disk Usage every
+// minute. When a disk's free space drops to its warning or critical
+// threshold a low disk space alert goes to the notification channels. Leaving a level
+// takes RECOVERY_MARGIN_PERCENT more free space than entering it, so
+// a disk hovering at a threshold doesn't alert on every check.
+// Levels are kept in the disk_alert_state setting across restarts.
+// With disk_block_on_critical on, backups that write to a critical
+// disk are skipped instead of started (see run-queue).
+// ============================================================
+
+import { getDiskInfo, getSetting, setSetting } from "./db";
+import { sendNotification } from "./channels";
+import type { DiskInfo, DiskLevel, Job, NotificationMessage, RunType } from "./types";
+
+const RECOVERY_MARGIN_PERCENT = 2;
+
+const LEVEL_RANK: Record<DiskLevel, number> = { unknown: -1, ok: 0, warning: 1, critical: 2 };
+
+/** Free space in percent, from the same rounded figures the dashboard shows */
+export function getFreePercent(disk: DiskInfo): number {
+  return disk.total_gb > 0 ? Math.round((disk.free_gb / disk.total_gb) * 1000) / 10 : 0;
+}
+
+/**
+ * Level of a disk now, given the level it was at. A disk stays at a
+ * level until its free space is RECOVERY_MARGIN_PERCENT above the
+ * threshold that put it there.
+ */
+export function getDiskLevel(disk: DiskInfo, previous: DiskLevel = "ok"): DiskLevel {
+  if (disk.total_gb <= 0) return "unknown";
+  const free = getFreePercent(disk);
+  const margin = (level: DiskLevel) => (LEVEL_RANK[previous] >= LEVEL_RANK[level] ? RECOVERY_MARGIN_PERCENT : 0);
+  if (free <= disk.critical_free_percent + margin("critical")) return "critical";
+  if (free <= disk.warning_free_percent + margin("warning")) return "warning";
+  return "ok";
+}
+
+/** Last alerted level per mount point */
+function loadAlertState(): Record<string, DiskLevel> {
+  try {
+    const parsed = JSON.parse(getSetting("disk_alert_state") || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ── Monitor ─────────────────────────────────────────────────
+
+/**
+ * Re-measure every configured disk and alert on level changes: each
+ * time a disk gets worse, and once when it is back to ok. Unreadable
+ * disks keep their last level until they can be read again.
+ */
+export function checkDiskSpace(): void {
+  const state = loadAlertState();
+  const next: Record<string, DiskLevel> = {};
+  const changes: { disk: DiskInfo; from: DiskLevel; to: DiskLevel }[] = [];
+
+  for (const disk of getDiskInfo(true)) {
+    if (!disk.mount) continue;
+    const previous = state[disk.mount] ?? "ok";
+    const level = getDiskLevel(disk, previous);
+    next[disk.mount] = level === "unknown" ? previous : level;
+    if (level !== "unknown" && level !== previous) changes.push({ disk, from: previous, to: level });
+  }
+
+  // Disks removed from Settings drop out of the state here too
+  if (JSON.stringify(next) !== JSON.stringify(state)) setSetting("disk_alert_state", JSON.stringify(next));
+
+  for (const { disk, from, to } of changes) {
+    console.log(`[disk] ${disk.mount} (${disk.label}): ${from} → ${to}, ${getFreePercent(disk)}% free`);
+    // Getting better but still low (critical → warning) isn't worth a message
+    if (to !== "ok" && LEVEL_RANK[to] < LEVEL_RANK[from]) continue;
+    sendNotification(formatDiskAlert(disk, to))
+      .then((error) => {
+        if (error) console.error(`[disk] Low disk space alert for ${disk.mount} not sent: ${error}`);
+      })
+      .catch((err) => console.error(`[disk] Low disk space alert for ${disk.mount} failed:`, err));
+  }
+}
+
+function formatDiskAlert(disk: DiskInfo, level: DiskLevel): NotificationMessage {
+  const usage = `💾 ${disk.free_gb} GB free of ${disk.total_gb} GB (${getFreePercent(disk)}%)`;
+  if (level === "ok") {
+    return { event: "LOW_DISK_SPACE", severity: "info", title: `✅ Disk Space Recovered: ${disk.label}`, body: usage };
+  }
+
+  const critical = level === "critical";
+  const threshold = critical ? disk.critical_free_percent : disk.warning_free_percent;
+  return {
+    event: "LOW_DISK_SPACE",
+    severity: critical ? "critical" : "warning",
+    title: `${critical ? "🚨" : "⚠️"} Low Disk Space${critical ? " (Critical)" : ""}: ${disk.label}`,
+    body: [
+      usage,
+      `Threshold: ${threshold}% free`,
+      critical && getSetting("disk_block_on_critical") === "true"
+        ? "Backups writing to this disk are skipped until it recovers."
+        : "",
+    ].filter(Boolean).join("\n"),
+  };
+}
+
+// ── Blocking backups ────────────────────────────────────────
+
+/** Local directory a job's backup writes to, or null if it only writes to remotes */
+function getLocalWriteTarget(job: Job): string | null {
+  switch (job.type) {
+    case "rclone_copy":
+    case "rclone_sync":
+      // "remote:path" destinations live elsewhere
+      return job.destination_path.startsWith("/") ? job.destination_path : null;
+    case "immich_db_backup":
+      // The dump is written locally before the optional upload
+      return job.source_path || getSetting("path_immich_db_backups") || null;
+    default:
+      return null;
+  }
+}
+
+/** The configured disk a path lives on — the longest mount point containing it */
+function findDiskForPath(target: string, disks: DiskInfo[]): DiskInfo | null {
+  let best: DiskInfo | null = null;
+  for (const disk of disks) {
+    const mount = disk.mount.replace(/\/+$/, "") || "/";
+    const inside = mount === "/" || target === mount || target.startsWith(mount + "/");
+    if (inside && (!best || mount.length > best.mount.replace(/\/+$/, "").length)) best = disk;
+  }
+  return best;
+}
+
+/**
+ * Why a run can't start because the disk it writes to is critically low
+ * on space, or null. Only applies with disk_block_on_critical enabled.
+ */
+export function getDiskBlockReason(job: Job, runType: RunType): string | null {
+  if (runType !== "backup" || getSetting("disk_block_on_critical") !== "true") return null;
+  const target = getLocalWriteTarget(job);
+  if (!target) return null;
+
+  const disk = findDiskForPath(target, getDiskInfo(true));
+  if (!disk) return null;
+  const previous = loadAlertState()[disk.mount] ?? "ok";
+  if (getDiskLevel(disk, previous) !== "critical") return null;
+  return `Destination disk "${disk.label}" is critically low on space (${getFreePercent(disk)}% free, threshold ${disk.critical_free_percent}%)`;
+}
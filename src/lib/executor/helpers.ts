@@ -0,0 +1,88 @@
+// ── Helpers shared by executor adapters ──────────────────────
+
+import type { RunProgress, RunProgressColumns } from "../types";
+
+/** Structured progress with everything the adapter doesn't know set to null/0 */
+export function makeProgress(fields: Partial<RunProgress>): RunProgress {
+  return {
+    bytes: 0,
+    total_bytes: null,
+    files: 0,
+    total_files: null,
+    checks: null,
+    total_checks: null,
+    errors: 0,
+    rate_limit_hits: 0,
+    speed_bps: null,
+    eta_seconds: null,
+    percent: null,
+    ...fields,
+  };
+}
+
+/** Map live progress onto the runs table's progress columns */
+export function toProgressColumns(p: RunProgress): RunProgressColumns {
+  return {
+    speed_bps: p.speed_bps,
+    eta_seconds: p.eta_seconds,
+    total_bytes: p.total_bytes,
+    total_transfers: p.total_files,
+    checks: p.checks,
+    total_checks: p.total_checks,
+    rate_limit_hits: p.rate_limit_hits,
+  };
+}
+
+export function percentOf(done: number, total: number): number | null {
+  return total > 0 ? Math.min(100, Math.round((done / total) * 1000) / 10) : null;
+}
+
+/** Job flags are stored either as a JSON array or as a plain command-line string */
+export function parseJobFlags(flags: string): string[] {
+  if (!flags) return [];
+  try {
+    const extraFlags = JSON.parse(flags);
+    if (Array.isArray(extraFlags)) return extraFlags.map(String);
+  } catch {
+    // plain string
+  }
+  return flags.split(/\s+/).filter(Boolean);
+}
+
+export function parseTransferredBytes(value: string, unit: string): number {
+  const num = parseFloat(value);
+  switch (unit.toUpperCase()) {
+    case "B": case "BYTES": return Math.round(num);
+    case "KIB": case "KB": return Math.round(num * 1024);
+    case "MIB": case "MB": return Math.round(num * 1024 * 1024);
+    case "GIB": case "GB": return Math.round(num * 1024 * 1024 * 1024);
+    case "TIB": case "TB": return Math.round(num * 1024 * 1024 * 1024 * 1024);
+    default: return Math.round(num);
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(unitIndex === 0 ? 0 : 1)} ${units[unitIndex]}`;
+}
+
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return `${h}h ${m}m`;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
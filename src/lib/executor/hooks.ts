@@ -0,0 +1,64 @@
+// ============================================================
+// Hook runner
+// Runs one job hook through sh in its own process group, streams
+// its output to the run log and kills the whole group once the
+// hook's timeout passes.
+// ============================================================
+
+import { spawn, type ChildProcess } from "child_process";
+import type { HookCommand } from "../types";
+
+/** Grace period between SIGTERM and SIGKILL for a hook that timed out */
+const KILL_GRACE_MS = 5000;
+
+export interface HookExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  /** Killed because it ran longer than its timeout */
+  timedOut: boolean;
+}
+
+export function runHookCommand(
+  hook: HookCommand,
+  env: NodeJS.ProcessEnv,
+  onOutput: (text: string) => void,
+  onSpawn: (child: ChildProcess) => void
+): Promise<HookExit> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("sh", ["-c", hook.command], { env, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+    onSpawn(child);
+
+    let timedOut = false;
+    const killGroup = (sig: NodeJS.Signals) => {
+      try {
+        if (child.pid) process.kill(-child.pid, sig);
+      } catch {
+        // already gone
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup("SIGTERM");
+      setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS).unref?.();
+    }, hook.timeout_seconds * 1000);
+
+    child.stdout.on("data", (data: Buffer) => onOutput(data.toString()));
+    child.stderr.on("data", (data: Buffer) => onOutput(data.toString()));
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      resolve({ code, signal, timedOut });
+    });
+  });
+}
+
+/** Why a hook counts as failed, or null if it succeeded */
+export function describeHookFailure(hook: HookCommand, exit: HookExit): string | null {
+  if (exit.timedOut) return `timed out after ${hook.timeout_seconds}s`;
+  if (exit.signal) return `was killed (${exit.signal})`;
+  if (exit.code !== 0) return `exited with code ${exit.code}`;
+  return null;
+}
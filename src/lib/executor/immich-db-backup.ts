@@ -0,0 +1,205 @@
+// ============================================================
+// Immich database backup adapter
+// pg_dump of the Immich Postgres DB (via `docker exec` into the
+// container or a direct connection), gzip-compressed into the
+// backups directory, old dumps rotated, optionally pushed offsite
+// with rclone afterwards.
+// No reattach: the dump streams through this server process, so a
+// restart cancels the run at any step (the offsite upload included)
+// and the next run starts over with a fresh dump.
+// ============================================================
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { bwlimitArgs, getJobBandwidthError } from "../bandwidth";
+import { getSetting } from "../db";
+import { formatBytes, formatDuration, makeProgress } from "./helpers";
+import { getRcloneConfigPath } from "./rclone";
+import type { CommandSpec, ExecutorAdapter, ExitResult } from "./types";
+
+const DUMP_PREFIX = "immich-db-";
+const DUMP_SUFFIX = ".sql.gz";
+
+export const immichDbBackupAdapter: ExecutorAdapter = {
+  label: "pg_dump",
+
+  validate(job) {
+    // Dumps go to the job's source path or the Immich DB Backups path; offsite destination is optional
+    if (!job.source_path && !getSetting("path_immich_db_backups")) {
+      return "Set the job source path or Settings → Storage Paths → Immich DB Backups";
+    }
+    return job.destination_path ? getJobBandwidthError(job) : null;
+  },
+
+  create(ctx) {
+    const { job } = ctx;
+    const backupDir = job.source_path || getSetting("path_immich_db_backups") || "";
+    const retention = Math.max(1, parseInt(getSetting("immich_db_retention") || "14", 10) || 14);
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const dumpPath = path.join(backupDir, `${DUMP_PREFIX}${stamp}${DUMP_SUFFIX}`);
+    const partialPath = dumpPath + ".partial";
+
+    let dumpSize = 0;
+    let removed: string[] = [];
+    let uploadExit: ExitResult | null = null;
+    let dumpSaved = false;
+
+    return {
+      buildCommand() {
+        fs.mkdirSync(backupDir, { recursive: true });
+        ctx.log(`[dump] writing ${partialPath}\n`);
+        return buildDumpCommand();
+      },
+
+      // pg_dump only writes diagnostics to stderr; the dump itself goes through pipeStdout
+      parseOutput() {},
+
+      pipeStdout(stdout) {
+        const gzip = zlib.createGzip();
+        const out = fs.createWriteStream(partialPath);
+        gzip.on("data", (chunk: Buffer) => {
+          dumpSize += chunk.length;
+          ctx.reportProgress();
+        });
+
+        const written = new Promise<void>((resolve, reject) => {
+          out.on("finish", resolve);
+          out.on("error", reject);
+          gzip.on("error", reject);
+        });
+        stdout.pipe(gzip).pipe(out);
+        return written;
+      },
+
+      progress() {
+        if (dumpSaved) {
+          return {
+            bytes_transferred: dumpSize,
+            files_transferred: 1,
+            errors_count: 0,
+            short_summary: `Dump complete (${formatBytes(dumpSize)}) — uploading to ${job.destination_path}...`,
+            progress: makeProgress({ bytes: dumpSize, files: 1 }),
+          };
+        }
+        return {
+          bytes_transferred: dumpSize,
+          files_transferred: 0,
+          errors_count: 0,
+          short_summary: `Dumping Immich database... ${formatBytes(dumpSize)} compressed`,
+          progress: makeProgress({ bytes: dumpSize }),
+        };
+      },
+
+      async afterExit(exit) {
+        if (exit.code !== 0) return;
+
+        fs.renameSync(partialPath, dumpPath);
+        dumpSize = fs.statSync(dumpPath).size;
+        dumpSaved = true;
+        ctx.log(`[dump] done: ${path.basename(dumpPath)} (${formatBytes(dumpSize)})\n`);
+        ctx.recordFile({ path: dumpPath, action: "copied", size: dumpSize, error: null });
+
+        // ── Rotate old dumps ──────────────────────────────────
+        removed = rotateDumps(backupDir, retention);
+        for (const name of removed) {
+          ctx.log(`[rotate] removed ${name}\n`);
+          ctx.recordFile({ path: path.join(backupDir, name), action: "deleted", size: null, error: null });
+        }
+
+        // ── Optional offsite copy ─────────────────────────────
+        if (job.destination_path) {
+          const rcloneConfig = getRcloneConfigPath();
+          const rcloneArgs = ["copy", dumpPath, job.destination_path, "--config", rcloneConfig, "-v", ...bwlimitArgs(job)];
+          uploadExit = await ctx.spawnStep({ command: "rclone", args: rcloneArgs, env: { RCLONE_CONFIG: rcloneConfig } });
+        }
+      },
+
+      summarize(exit, durationSeconds) {
+        const totals = { bytes_transferred: dumpSize, files_transferred: dumpSaved ? 1 : 0 };
+        const stopped = (e: ExitResult) => e.signal === "SIGTERM" || e.signal === "SIGKILL";
+
+        if (stopped(exit)) {
+          return { ...totals, status: "cancelled", errors_count: 0, short_summary: "Stopped by user during database dump." };
+        }
+        if (exit.code !== 0) {
+          return { ...totals, status: "failure", errors_count: 1, short_summary: `pg_dump failed with exit code ${exit.code}. Check logs.` };
+        }
+        if (uploadExit && stopped(uploadExit)) {
+          return { ...totals, status: "cancelled", errors_count: 0, short_summary: `Dump saved (${formatBytes(dumpSize)}), offsite upload stopped by user.` };
+        }
+        if (uploadExit && uploadExit.code !== 0) {
+          return {
+            ...totals,
+            status: "failure",
+            errors_count: 1,
+            short_summary: `Dump saved locally (${formatBytes(dumpSize)}) but offsite upload to ${job.destination_path} failed with exit code ${uploadExit.code}.`,
+          };
+        }
+
+        const rotatedNote = removed.length > 0 ? ` Rotated ${removed.length} old dump(s), keeping ${retention}.` : "";
+        const offsiteNote = uploadExit ? ` Uploaded to ${job.destination_path}.` : "";
+        return {
+          ...totals,
+          status: "success",
+          errors_count: 0,
+          short_summary: `Dumped Immich DB to ${path.basename(dumpPath)} (${formatBytes(dumpSize)} compressed) in ${formatDuration(durationSeconds)}.${rotatedNote}${offsiteNote}`,
+        };
+      },
+
+      cleanup() {
+        // Only left behind when the dump was stopped, failed or crashed
+        fs.rmSync(partialPath, { force: true });
+      },
+    };
+  },
+};
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/** pg_dump either inside the Immich Postgres container or against a direct connection */
+function buildDumpCommand(): CommandSpec {
+  const method = getSetting("immich_db_method") || "docker";
+  const user = getSetting("immich_db_user") || "postgres";
+  const dbName = getSetting("immich_db_name") || "immich";
+  const password = getSetting("immich_db_password") || "";
+  const dumpArgs = ["pg_dump", "--clean", "--if-exists", "--username", user, "--dbname", dbName];
+
+  if (method === "direct") {
+    const host = getSetting("immich_db_host") || "localhost";
+    const port = getSetting("immich_db_port") || "5432";
+    return {
+      command: "pg_dump",
+      args: [...dumpArgs.slice(1), "--host", host, "--port", port],
+      env: password ? { PGPASSWORD: password } : {},
+    };
+  }
+
+  // `-e PGPASSWORD` without a value copies it from docker's own environment,
+  // so the password never appears in a command line
+  const container = getSetting("immich_db_container") || "immich_postgres";
+  return {
+    command: "docker",
+    args: ["exec", ...(password ? ["-e", "PGPASSWORD"] : []), container, ...dumpArgs],
+    env: password ? { PGPASSWORD: password } : {},
+  };
+}
+
+/** Keep the newest `keep` dumps (timestamped names sort chronologically) */
+function rotateDumps(dir: string, keep: number): string[] {
+  const dumps = fs.readdirSync(dir)
+    .filter((name) => name.startsWith(DUMP_PREFIX) && name.endsWith(DUMP_SUFFIX))
+    .sort()
+    .reverse();
+
+  const removed: string[] = [];
+  for (const name of dumps.slice(keep)) {
+    try {
+      fs.rmSync(path.join(dir, name));
+      removed.push(name);
+    } catch (err) {
+      console.error(`[immich-db] Failed to remove old dump ${name}:`, err);
+    }
+  }
+  return removed;
+}
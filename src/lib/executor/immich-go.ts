@@ -0,0 +1,143 @@
+// ============================================================
+// immich-go import adapter
+// Runs `immich-go upload from-google-photos|from-folder` against the
+// Immich server from Settings, turns its progress output into run
+// progress and reports imported vs skipped assets at the end.
+// ============================================================
+
+import { getSetting } from "../db";
+import type { Job } from "../types";
+import { formatDuration, makeProgress, parseJobFlags } from "./helpers";
+import type { ExecutorAdapter } from "./types";
+
+/** Asset counters parsed from immich-go's "label : count" report lines */
+export interface ImmichGoCounters {
+  uploaded: number;
+  duplicates: number;   // server already has the same (or a better) asset
+  skipped: number;      // discarded / unsupported / not selected by filters
+  errors: number;
+}
+
+/** Google Takeout archives/folders use the takeout importer, everything else a plain folder import */
+export function getImmichGoSource(job: Job): "from-google-photos" | "from-folder" {
+  return /takeout|\.zip$/i.test(job.source_path) ? "from-google-photos" : "from-folder";
+}
+
+/**
+ * Fold one line of output into the counters. The final report uses
+ * "uploaded                  :   1234"; progress lines look like
+ * "Uploaded 120, Errors 0" — both are matched case-insensitively.
+ */
+export function parseImmichGoLine(line: string, counters: ImmichGoCounters): void {
+  const report = line.match(/^\s*([a-z' ]+?)\s*:\s*(\d+)\s*$/i);
+  if (report) {
+    const label = report[1].toLowerCase();
+    const value = parseInt(report[2], 10);
+    if (label === "uploaded") counters.uploaded = value;
+    else if (/upload error|errors?$/.test(label)) counters.errors = value;
+    else if (/server has (same|better) asset|duplicated/.test(label)) {
+      counters.duplicates = label.includes("better") || label.includes("duplicated")
+        ? counters.duplicates + value
+        : value;
+    } else if (/discarded|unsupported|not selected/.test(label)) counters.skipped += value;
+    return;
+  }
+
+  const uploaded = line.match(/uploaded[:\s]+(\d+)/i);
+  if (uploaded) counters.uploaded = Math.max(counters.uploaded, parseInt(uploaded[1], 10));
+  const errors = line.match(/errors?[:\s]+(\d+)/i);
+  if (errors) counters.errors = Math.max(counters.errors, parseInt(errors[1], 10));
+  const duplicates = line.match(/(?:duplicates?|server has same asset)[:\s]+(\d+)/i);
+  if (duplicates) counters.duplicates = Math.max(counters.duplicates, parseInt(duplicates[1], 10));
+}
+
+export function summarizeImmichGo(counters: ImmichGoCounters): string {
+  const skippedTotal = counters.duplicates + counters.skipped;
+  const parts = [`Imported ${counters.uploaded} assets`];
+  parts.push(`skipped ${skippedTotal} (${counters.duplicates} already on server, ${counters.skipped} filtered/unsupported)`);
+  if (counters.errors > 0) parts.push(`${counters.errors} error(s)`);
+  return parts.join(", ");
+}
+
+export const immichGoAdapter: ExecutorAdapter = {
+  label: "immich-go",
+
+  validate(job) {
+    // Uploads go straight to the Immich server configured in Settings
+    if (!job.source_path) return "Job source_path (Takeout archive or folder) must be configured";
+    if (!getSetting("immich_server_url") || !getSetting("immich_api_key")) {
+      return "Set the server URL and API key under Settings → Immich Server";
+    }
+    return null;
+  },
+
+  create({ job }) {
+    const counters: ImmichGoCounters = { uploaded: 0, duplicates: 0, skipped: 0, errors: 0 };
+
+    return {
+      buildCommand() {
+        const source = getImmichGoSource(job);
+        // The API key goes through the environment so it doesn't show up in
+        // `ps` / /proc/<pid>/cmdline; immich-go reads any flag from
+        // IMMICHGO_<COMMAND PATH>_<FLAG>
+        const apiKeyVar = `IMMICHGO_UPLOAD_${source.replace(/-/g, "_").toUpperCase()}_API_KEY`;
+        return {
+          command: getSetting("immich_go_path") || "immich-go",
+          args: [
+            "upload",
+            source,
+            `--server=${getSetting("immich_server_url") || ""}`,
+            "--no-ui",
+            ...parseJobFlags(job.flags),
+            job.source_path,
+          ],
+          env: { [apiKeyVar]: getSetting("immich_api_key") || "" },
+        };
+      },
+
+      // Single command, all state comes from its output
+      reattach() {},
+
+      parseOutput(line) {
+        parseImmichGoLine(line, counters);
+      },
+
+      progress() {
+        return {
+          bytes_transferred: 0,
+          files_transferred: counters.uploaded,
+          errors_count: counters.errors,
+          short_summary: `${summarizeImmichGo(counters)} so far`,
+          progress: makeProgress({ files: counters.uploaded, errors: counters.errors }),
+        };
+      },
+
+      summarize(exit, durationSeconds) {
+        const totals = { bytes_transferred: 0, files_transferred: counters.uploaded };
+
+        if (exit.signal === "SIGTERM" || exit.signal === "SIGKILL") {
+          return {
+            ...totals,
+            status: "cancelled",
+            errors_count: counters.errors,
+            short_summary: `Import stopped by user after ${formatDuration(durationSeconds)}. ${summarizeImmichGo(counters)}.`,
+          };
+        }
+        if (exit.code === 0) {
+          return {
+            ...totals,
+            status: "success",
+            errors_count: counters.errors,
+            short_summary: `${summarizeImmichGo(counters)} in ${formatDuration(durationSeconds)}.`,
+          };
+        }
+        return {
+          ...totals,
+          status: "failure",
+          errors_count: counters.errors || 1,
+          short_summary: `immich-go failed with exit code ${exit.code}. ${summarizeImmichGo(counters)}. Check logs.`,
+        };
+      },
+    };
+  },
+};
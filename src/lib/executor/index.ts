@@ -0,0 +1,574 @@
+// ============================================================
+// Run executor
+// Runs a job for a run that has already been created (and marked
+// running) in the DB: picks the adapter for the job type, spawns its
+// command, buffers the log, feeds output lines to the adapter, writes
+// progress every 5s, then completes the run and notifies. A watchdog
+// stops runs that exceed the job's max runtime or stop making progress.
+// Commands run supervised (lib/supervisor) so a run can be reattached
+// after a server restart; only steps whose stdout an adapter takes
+// over (pg_dump) are plain child processes.
+// ============================================================
+
+import { spawn } from "child_process";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import {
+  clearRunProcess,
+  completeRun,
+  getRunById,
+  insertRunFiles,
+  setRunOutputOffset,
+  setRunProcess,
+  updateRunProgress,
+} from "../db";
+import { emptyJobHooks, parseJobHooks } from "../hooks";
+import { sendJobNotification } from "../notifications";
+import {
+  childHandle,
+  claimRun,
+  isStopRequested,
+  registerProcess,
+  releaseRun,
+  stopProcess,
+  unregisterProcess,
+  type RcEndpoint,
+} from "../process-manager";
+import { openRunLog, type RunLogWriter } from "../run-logs";
+import { publishRunEvent } from "../run-events";
+import { planRetry, scheduleRetry } from "../retry";
+import { reportAuthExpired, reportRemotesOk } from "../rclone-auth";
+import {
+  followSupervised,
+  removeSupervisedOutput,
+  startSupervised,
+  supervisedHandle,
+  type SupervisedProcess,
+} from "../supervisor";
+import type { HookStage, Job, JobType, NewRunFile, Run, RunStatus, RunType } from "../types";
+import { formatBytes, formatDuration, toProgressColumns } from "./helpers";
+import { describeHookFailure, runHookCommand } from "./hooks";
+import { immichDbBackupAdapter } from "./immich-db-backup";
+import { immichGoAdapter } from "./immich-go";
+import { rcloneBackupAdapter, rcloneVerifyAdapter } from "./rclone";
+import type { CommandSpec, ExecutionContext, ExecutorAdapter, ExitResult, RunOptions, RunOutcome, RunResult } from "./types";
+
+export type { RunOptions, ExecutorAdapter } from "./types";
+export { formatBytes, formatDuration } from "./helpers";
+
+const PROGRESS_EVENT_INTERVAL_MS = 1000;
+const PROGRESS_DB_INTERVAL_MS = 5000;
+const LOG_EXCERPT_CHARS = 4000;
+const FILE_BATCH_SIZE = 200;
+const WATCHDOG_INTERVAL_MS = 15_000;
+
+const adapters: Record<JobType, ExecutorAdapter> = {
+  rclone_copy: rcloneBackupAdapter,
+  rclone_sync: rcloneBackupAdapter,
+  rclone_check: rcloneBackupAdapter,
+  immich_db_backup: immichDbBackupAdapter,
+  immich_go_import: immichGoAdapter,
+};
+
+/** Verify runs of non-check jobs compare the job's paths with rclone check */
+export function getAdapter(job: Job, runType: RunType = "backup"): ExecutorAdapter {
+  if (runType === "verify" && job.type !== "rclone_check") return rcloneVerifyAdapter;
+  return adapters[job.type] ?? rcloneBackupAdapter;
+}
+
+/** Why a job can't be run yet, or null if it is fully configured */
+export function getJobConfigError(job: Job, runType: RunType = "backup"): string | null {
+  return getAdapter(job, runType).validate(job);
+}
+
+/** Raised when a follow-up command is requested after the watchdog stopped the run */
+class TimedOutError extends Error {}
+
+/** Raised when a command is about to start after the user stopped the run */
+class StoppedError extends Error {}
+
+/** Raised when a pre-run hook failed, so the main command is never started */
+class PreHookError extends Error {
+  /** The hook was stopped by the user rather than failing by itself */
+  constructor(message: string, public stopped: boolean) {
+    super(message);
+  }
+}
+
+/** Raised when a command could not be spawned at all (binary missing, bad cwd...) */
+class SpawnError extends Error {
+  constructor(public command: string, cause: Error) {
+    super(cause.message);
+  }
+}
+
+/** Execute a run to completion. Resolves once the run is completed in the DB. */
+export function executeRun(job: Job, run: Run, options: RunOptions = {}): Promise<RunResult> {
+  return startEngine(job, run, options, null)!;
+}
+
+/**
+ * Continue a run whose supervised command outlived a server restart (or
+ * exited while the server was down). Returns null if the run's adapter
+ * can't pick up mid-run; the caller cancels it then.
+ */
+export function reattachRun(job: Job, run: Run, options: RunOptions = {}): Promise<RunResult> | null {
+  if (!run.pid || !run.output_path) return null;
+  return startEngine(job, run, options, { pid: run.pid, outputPath: run.output_path, child: null });
+}
+
+function startEngine(job: Job, run: Run, options: RunOptions, resume: SupervisedProcess | null): Promise<RunResult> | null {
+  const adapter = getAdapter(job, run.run_type);
+  let logFile: RunLogWriter | null = null;
+  // The full log goes to disk; only the tail is kept in memory for log_excerpt
+  let logTail = "";
+  let logLength = 0;
+  let lastProgressEvent = 0;
+  let lastProgressWrite = 0;
+  // File manifest entries are written in batches, not one INSERT per line
+  let pendingFiles: NewRunFile[] = [];
+  // Bytes of the supervised step's output parsed so far. After a restart the
+  // output is replayed from the start; lines before the stored offset are
+  // already in the log and run_files, so they are only parsed again.
+  let supervisedStep = false;
+  let outputOffset = 0;
+  let replayUntil = 0;
+  let replayingLine = false;
+  // Set by the watchdog once it stopped the run
+  let timedOut: string | null = null;
+
+  function flushFiles() {
+    try {
+      if (pendingFiles.length > 0) insertRunFiles(run.id, pendingFiles);
+      if (supervisedStep) setRunOutputOffset(run.id, outputOffset);
+    } catch (err) {
+      console.error(`[executor] Failed to record files for run ${run.id}:`, err);
+    }
+    pendingFiles = [];
+  }
+
+  const ctx: ExecutionContext = {
+    job,
+    run,
+    options,
+    log: (text) => {
+      if (!replayingLine) logFile?.write(text);
+      logLength += text.length;
+      logTail = (logTail + text).slice(-LOG_EXCERPT_CHARS);
+    },
+    reportProgress: () => writeProgress(false),
+    recordFile: (file) => {
+      if (replayingLine) return;
+      pendingFiles.push(file);
+      if (pendingFiles.length >= FILE_BATCH_SIZE) flushFiles();
+    },
+    abortStep: () => {
+      stopProcess(run.id);
+    },
+    stopRequested: () => isStopRequested(run.id),
+    spawnStep: (spec) => {
+      if (timedOut) return Promise.reject(new TimedOutError(timedOut));
+      writeProgress(true);
+      return runCommand(spec);
+    },
+  };
+  const execution = adapter.create(ctx);
+  if (resume && !execution.reattach) {
+    execution.cleanup?.();
+    return null;
+  }
+  logFile = openRunLog(run.id);
+  // From here until completeRun() the run is ours, even between steps
+  claimRun(run.id);
+
+  // Live clients get progress every second, SQLite only every 5s
+  function writeProgress(force: boolean) {
+    const now = Date.now();
+    if (!force && now - lastProgressEvent < PROGRESS_EVENT_INTERVAL_MS) return;
+    lastProgressEvent = now;
+    const update = execution.progress();
+    if (!update) return;
+
+    const { progress, ...totals } = update;
+    publishRunEvent({ type: "progress", run_id: run.id, job_id: job.id, progress, summary: totals.short_summary });
+    if (force || now - lastProgressWrite >= PROGRESS_DB_INTERVAL_MS) {
+      lastProgressWrite = now;
+      updateRunProgress(run.id, { ...totals, ...toProgressColumns(progress) });
+      flushFiles();
+    }
+  }
+
+  /** Log and parse one output line; `newline` is the separator it ended with */
+  function handleLine(line: string, newline: string) {
+    const end = outputOffset + Buffer.byteLength(line + newline);
+    replayingLine = end <= replayUntil;
+    ctx.log(line + newline);
+    outputOffset = end;
+    if (line.trim()) execution.parseOutput(line);
+    replayingLine = false;
+  }
+
+  // Output may split lines (and UTF-8 characters) across chunks — only parse complete ones
+  function makeLineReader() {
+    const decoder = new StringDecoder("utf8");
+    let pending = "";
+    return {
+      push(data: Buffer) {
+        const parts = (pending + decoder.write(data)).split(/(\r?\n|\r)/);
+        pending = parts.pop() ?? "";
+        for (let i = 0; i < parts.length; i += 2) handleLine(parts[i], parts[i + 1]);
+        writeProgress(false);
+      },
+      flush() {
+        pending += decoder.end();
+        if (pending) handleLine(pending, "");
+        pending = "";
+      },
+    };
+  }
+
+  /** Spawn one command, register it for stop/pause and wait for it to exit */
+  function runCommand(spec: CommandSpec, takeStdout?: (stdout: Readable) => Promise<void>): Promise<ExitResult> {
+    // Stop pressed between steps, with no process to signal
+    if (isStopRequested(run.id)) return Promise.reject(new StoppedError("Stopped by user"));
+    ctx.log(`$ ${spec.command} ${(spec.displayArgs ?? spec.args).join(" ")}\n`);
+    if (!takeStdout) return runSupervised(spec);
+
+    // The adapter consumes stdout as a stream, so this one stays a plain child
+    return new Promise<ExitResult>((resolve, reject) => {
+      const child = spawn(spec.command, spec.args, { env: { ...process.env, ...spec.env } });
+      registerProcess(run.id, childHandle(child), spec.rc);
+
+      const stderrReader = makeLineReader();
+      const stdoutDone = takeStdout(child.stdout);
+      stdoutDone.catch(() => { /* surfaced after exit */ });
+      child.stderr.on("data", (data: Buffer) => stderrReader.push(data));
+
+      child.on("error", (err) => {
+        unregisterProcess(run.id);
+        reject(new SpawnError(spec.command, err));
+      });
+      child.on("close", (code, signal) => {
+        unregisterProcess(run.id);
+        stderrReader.flush();
+        stdoutDone.then(() => resolve({ code, signal }), reject);
+      });
+    });
+  }
+
+  async function runSupervised(spec: CommandSpec): Promise<ExitResult> {
+    let proc: SupervisedProcess;
+    try {
+      proc = await startSupervised(run.id, spec.command, spec.args, { ...process.env, ...spec.env });
+    } catch (err) {
+      throw new SpawnError(spec.command, err as Error);
+    }
+    setRunProcess(run.id, {
+      pid: proc.pid,
+      output_path: proc.outputPath,
+      rc_port: spec.rc?.port ?? null,
+      rc_password: spec.rc?.password ?? null,
+    });
+    return followStep(proc, spec.rc ?? null, 0);
+  }
+
+  /** Read a supervised step's output until it exits; `consumed` bytes were handled before a restart */
+  async function followStep(proc: SupervisedProcess, rc: RcEndpoint | null, consumed: number): Promise<ExitResult> {
+    registerProcess(run.id, supervisedHandle(proc), rc);
+    supervisedStep = true;
+    outputOffset = 0;
+    replayUntil = consumed;
+    const reader = makeLineReader();
+    try {
+      const exit = await followSupervised(proc, (data) => reader.push(data));
+      reader.flush();
+      return exit;
+    } finally {
+      unregisterProcess(run.id);
+      flushFiles();
+      supervisedStep = false;
+      replayUntil = 0;
+      clearRunProcess(run.id);
+      removeSupervisedOutput(proc.outputPath);
+    }
+  }
+
+  // ── Watchdog ──────────────────────────────────────────────
+  /** Stop the run once it exceeds max runtime or makes no progress; returns the cleanup */
+  function startWatchdog(): () => void {
+    const maxRuntimeMs = Math.max(0, job.max_runtime_minutes || 0) * 60_000;
+    const stallMs = Math.max(0, job.stall_timeout_minutes || 0) * 60_000;
+    if (!maxRuntimeMs && !stallMs) return () => {};
+
+    let lastSignature = "";
+    let lastChange = Date.now();
+    let lastTick = Date.now();
+    let pausedMs = 0;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const tickMs = now - lastTick;
+      lastTick = now;
+      // Paused runs make no progress by design — neither clock runs meanwhile
+      if (getRunById(run.id)?.status === "paused") {
+        pausedMs += tickMs;
+        lastChange = now;
+        return;
+      }
+
+      const update = execution.progress();
+      const signature = update
+        ? [update.bytes_transferred, update.files_transferred, update.errors_count, update.progress.checks].join("/")
+        : "";
+      if (signature !== lastSignature) {
+        lastSignature = signature;
+        lastChange = now;
+      }
+
+      if (maxRuntimeMs && elapsedSeconds(run) * 1000 - pausedMs >= maxRuntimeMs) {
+        timedOut = `exceeded the max runtime of ${formatDuration(maxRuntimeMs / 1000)}`;
+      } else if (stallMs && now - lastChange >= stallMs) {
+        timedOut = `no progress for ${formatDuration(stallMs / 1000)}`;
+      }
+      if (timedOut) {
+        clearInterval(timer);
+        ctx.log(`\n[watchdog] Run ${timedOut} — stopping it\n`);
+        console.log(`[executor] Run ${run.id} ${timedOut}, stopping`);
+        stopProcess(run.id);
+      }
+    }, WATCHDOG_INTERVAL_MS);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  }
+
+  // ── Hooks ─────────────────────────────────────────────────
+  // Only backup runs have hooks; verify runs just read what is there
+  const hooks = run.run_type === "backup" ? parseJobHooks(job.hooks) : emptyJobHooks();
+
+  interface HookFailure {
+    message: string;
+    stopped: boolean;
+  }
+
+  /**
+   * Run a stage's hooks in order, with their output in the run log. Pre
+   * hooks stop at the first failure; post and on-failure hooks all run
+   * unless the user stops one. Hooks are registered as the run's
+   * process, so Stop reaches them.
+   */
+  async function runHooks(stage: HookStage, status?: RunStatus): Promise<HookFailure[]> {
+    const list = hooks[stage];
+    const failures: HookFailure[] = [];
+    const env = {
+      ...process.env,
+      BACKUP_JOB_ID: String(job.id),
+      BACKUP_JOB_NAME: job.name,
+      BACKUP_RUN_ID: String(run.id),
+      BACKUP_RUN_STATUS: status ?? "",
+    };
+    for (const [i, hook] of list.entries()) {
+      if (stage === "pre" && isStopRequested(run.id)) {
+        failures.push({ message: "stopped by user", stopped: true });
+        break;
+      }
+      const label = `[hook] ${stage} ${i + 1}/${list.length}`;
+      ctx.log(`\n${label}: ${hook.command}\n`);
+      let failure: string | null;
+      let stopped = false;
+      try {
+        const exit = await runHookCommand(hook, env, ctx.log, (child) => {
+          registerProcess(run.id, { ...childHandle(child, true), hook: true });
+        });
+        failure = describeHookFailure(hook, exit);
+        stopped = exit.signal != null && !exit.timedOut && isStopRequested(run.id);
+      } catch (err) {
+        failure = `could not be started: ${err instanceof Error ? err.message : String(err)}`;
+      } finally {
+        unregisterProcess(run.id);
+      }
+      ctx.log(`${label} ${failure ?? "finished"}\n`);
+      if (failure) {
+        failures.push({ message: `\`${hook.command}\` ${failure}`, stopped });
+        if (stage === "pre" || stopped) break;
+      }
+    }
+    return failures;
+  }
+
+  async function finishRun(): Promise<RunResult> {
+    const stopWatchdog = startWatchdog();
+    let outcome: RunOutcome;
+    let exitCode: number | null = null;
+    let spawnFailed = false;
+    try {
+      let exit: ExitResult;
+      if (resume) {
+        // After a restart the pre hooks already ran before the command was started
+        const rc = run.rc_port && run.rc_password ? { port: run.rc_port, password: run.rc_password } : null;
+        execution.reattach!({ rc });
+        ctx.log(`[system] Server restarted — reattached to process ${resume.pid}\n`);
+        exit = await followStep(resume, rc, run.output_offset);
+      } else {
+        const [preFailure] = await runHooks("pre");
+        if (preFailure) throw new PreHookError(preFailure.message, preFailure.stopped);
+        if (timedOut) throw new TimedOutError(timedOut);
+        const spec = await execution.buildCommand();
+        exit = await runCommand(spec, execution.pipeStdout?.bind(execution));
+      }
+      exitCode = exit.code;
+      if (execution.afterExit) await execution.afterExit(exit);
+      outcome = execution.summarize(exit, elapsedSeconds(run));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (err instanceof PreHookError) {
+        outcome = err.stopped
+          ? { status: "cancelled", bytes_transferred: 0, files_transferred: 0, errors_count: 0, short_summary: `Stopped during a pre-run hook; ${adapter.label} was not started.` }
+          : { status: "failure", bytes_transferred: 0, files_transferred: 0, errors_count: 1, short_summary: `Pre-run hook failed: ${err.message}. ${adapter.label} was not started.` };
+      } else if (err instanceof StoppedError) {
+        const progress = execution.progress();
+        outcome = {
+          bytes_transferred: progress?.bytes_transferred ?? 0,
+          files_transferred: progress?.files_transferred ?? 0,
+          status: "cancelled",
+          errors_count: progress?.errors_count ?? 0,
+          short_summary: `Stopped by user after ${formatDuration(elapsedSeconds(run))}.`,
+        };
+      } else if (err instanceof SpawnError) {
+        spawnFailed = true;
+        ctx.log(`ERROR: Could not execute ${err.command}.\n${msg}\n\nMake sure ${err.command} is installed in the Docker container.\n`);
+        outcome = { status: "failure", bytes_transferred: 0, files_transferred: 0, errors_count: 1, short_summary: `Failed to start ${adapter.label}: ${msg}` };
+      } else {
+        ctx.log(`ERROR: ${msg}\n`);
+        const progress = execution.progress();
+        outcome = {
+          bytes_transferred: progress?.bytes_transferred ?? 0,
+          files_transferred: progress?.files_transferred ?? 0,
+          status: "failure",
+          errors_count: 1,
+          short_summary: `${job.name} failed: ${msg}`,
+        };
+      }
+    } finally {
+      stopWatchdog();
+      try {
+        execution.cleanup?.();
+      } catch (err) {
+        console.error(`[executor] Cleanup for run ${run.id} failed:`, err);
+      }
+    }
+
+    // The adapter saw a stopped process; report why it was stopped
+    if (timedOut) {
+      outcome = {
+        ...outcome,
+        status: "timed_out",
+        errors_count: Math.max(1, outcome.errors_count),
+        short_summary: `Timed out: ${timedOut}. Transferred ${formatBytes(outcome.bytes_transferred)}, ${outcome.files_transferred} files.`,
+      };
+    }
+
+    // A step the user stopped that its adapter reported as a plain failure
+    if (outcome.status === "failure" && isStopRequested(run.id)) {
+      outcome = {
+        ...outcome,
+        status: "cancelled",
+        failure_reason: undefined,
+        auth_failure: undefined,
+        short_summary: `Stopped by user after ${formatDuration(elapsedSeconds(run))}. Transferred ${formatBytes(outcome.bytes_transferred)}, ${outcome.files_transferred} files.`,
+      };
+    }
+
+    // Post hooks always run so they can undo what the pre hooks set up;
+    // a failing one turns a successful run into a failure, one the user
+    // stopped leaves the outcome as it was
+    const postFailures = await runHooks("post", outcome.status);
+    const postErrors = postFailures.filter((f) => !f.stopped);
+    if (postErrors.length > 0) {
+      if (outcome.status === "success") {
+        outcome = { ...outcome, status: "failure", errors_count: outcome.errors_count + postErrors.length };
+      }
+      outcome.short_summary += ` · Post-run hook failed: ${postErrors.map((f) => f.message).join("; ")}.`;
+    }
+    if (postFailures.some((f) => f.stopped)) outcome.short_summary += " · Post-run hooks stopped by user.";
+
+    flushFiles();
+    const finalProgress = execution.progress()?.progress;
+
+    // ── Retry policy ──────────────────────────────────────────
+    const retryDelay = outcome.status === "failure"
+      ? planRetry(job, run, {
+        exitCode,
+        rateLimitHits: finalProgress?.rate_limit_hits ?? 0,
+        spawnFailed,
+        authExpired: outcome.failure_reason === "auth_expired",
+      })
+      : null;
+
+    // On-failure hooks run once, for the attempt that gives up
+    if ((outcome.status === "failure" || outcome.status === "timed_out") && retryDelay == null) {
+      const failureHookErrors = await runHooks("on_failure", outcome.status);
+      if (failureHookErrors.length > 0) {
+        outcome.short_summary += ` · On-failure hook failed: ${failureHookErrors.map((f) => f.message).join("; ")}.`;
+      }
+    }
+    if (retryDelay != null) {
+      outcome.short_summary += ` · Retrying in ${formatDuration(retryDelay)} (attempt ${run.attempt + 1}/${job.retry_max_attempts}).`;
+    } else if (run.attempt > 1) {
+      outcome.short_summary += ` · Attempt ${run.attempt}/${Math.max(run.attempt, job.retry_max_attempts)}.`;
+    }
+
+    completeRun(run.id, {
+      ...outcome,
+      ...(finalProgress ? toProgressColumns(finalProgress) : {}),
+      log_excerpt: logLength > LOG_EXCERPT_CHARS ? "...\n" + logTail : logTail,
+    });
+    releaseRun(run.id);
+    publishRunEvent({ type: "finished", run_id: run.id, job_id: job.id, status: outcome.status, summary: outcome.short_summary });
+    if (retryDelay != null) scheduleRetry(job, run, retryDelay);
+    await logFile?.close();
+
+    // What the run showed about its remotes' credentials; a fresh expiry
+    // sends AUTH_EXPIRED in place of the failure notification below
+    let authAlerted = false;
+    try {
+      if (outcome.auth_failure?.remote) {
+        authAlerted = await reportAuthExpired(outcome.auth_failure.remote, job.name, outcome.auth_failure.detail);
+      } else if (outcome.status === "success") {
+        await reportRemotesOk(job);
+      }
+    } catch (err) {
+      console.error(`[executor] Remote auth state for run ${run.id} failed:`, err);
+    }
+
+    // Send notification (not for user-cancelled runs, nor for failures that will be retried)
+    if (outcome.status !== "cancelled" && retryDelay == null && !authAlerted) {
+      const durationSeconds = elapsedSeconds(run);
+      try {
+        if (execution.notify && outcome.status !== "timed_out") {
+          await execution.notify(outcome, durationSeconds);
+        } else {
+          await sendJobNotification({
+            jobId: job.id,
+            jobName: job.name,
+            status: outcome.status,
+            bytesTransferred: outcome.bytes_transferred,
+            filesTransferred: outcome.files_transferred,
+            errorsCount: outcome.errors_count,
+            durationSeconds,
+            summary: outcome.short_summary,
+          });
+        }
+      } catch (err) {
+        console.error(`[executor] Notification for run ${run.id} failed:`, err);
+      }
+    }
+    return { status: outcome.status, retrying: retryDelay != null };
+  }
+
+  return finishRun();
+}
+
+function elapsedSeconds(run: Run): number {
+  const startedAtStr = run.started_at.endsWith("Z") ? run.started_at : run.started_at + "Z";
+  return Math.round((Date.now() - new Date(startedAtStr).getTime()) / 1000);
+}
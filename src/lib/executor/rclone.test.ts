@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { isRateLimitError } from "./rclone";
+
+test("stats lines never count as rate-limit hits", () => {
+  const stats = JSON.stringify({
+    level: "info",
+    msg: "4.092 MiB / 10 MiB, 40%, 403 KiB/s, ETA 15s",
+    stats: { bytes: 4290123, speed: 429000, eta: 403, transfers: 3, errors: 0 },
+  });
+  assert.equal(isRateLimitError(stats), false);
+});
+
+test("info lines mentioning quota or 429 in a path are not hits", () => {
+  assert.equal(isRateLimitError(JSON.stringify({ level: "info", msg: "quotaExceeded/429.jpg: Copied (new)" })), false);
+  assert.equal(isRateLimitError("2026/10/19 02:00:00 INFO  : photos/IMG_4290.jpg: Copied (new)"), false);
+});
+
+test("error entries from a throttling backend are hits", () => {
+  const json = JSON.stringify({
+    level: "error",
+    msg: "photos/a.jpg: Failed to copy: googleapi: Error 403: User Rate Limit Exceeded., userRateLimitExceeded",
+  });
+  assert.equal(isRateLimitError(json), true);
+  assert.equal(isRateLimitError("2026/10/19 02:00:00 ERROR : b.jpg: Failed to copy: HTTP 429 Too Many Requests"), true);
+  assert.equal(isRateLimitError(JSON.stringify({ level: "error", msg: "Failed to copy: directory not found" })), false);
+});
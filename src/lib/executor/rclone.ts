@@ -0,0 +1,559 @@
+// ============================================================
+// rclone adapters
+// Backup runs (rclone copy / sync / check --one-way) and verify
+// runs (rclone check --one-way against a backup job's paths).
+// Both read rclone's --use-json-log stats lines. A run whose remote
+// rejected its credentials fails with reason auth_expired.
+// ============================================================
+
+import { bwlimitArgs, getJobBandwidthError } from "../bandwidth";
+import { getSetting } from "../db";
+import { sendVerifyNotification } from "../notifications";
+import type { RcEndpoint } from "../process-manager";
+import {
+  applyTuning,
+  formatTuning,
+  getMaxTuningRestarts,
+  getRateLimitThreshold,
+  getStartingTuning,
+  lowerTuning,
+  saveJobTuning,
+  type RcloneTuning,
+} from "../rate-limit-tuning";
+import { findFreePort, generateRcPassword, rcFlags } from "../rclone-rc";
+import type { Job, NewRunFile } from "../types";
+import { formatBytes, formatDuration, formatEta, makeProgress, parseJobFlags, parseTransferredBytes, percentOf } from "./helpers";
+import type { AuthFailure, CommandSpec, ExecutorAdapter, ExitResult } from "./types";
+
+export function getRcloneConfigPath(): string {
+  return process.env.RCLONE_CONFIG || getSetting("rclone_config_path") || "/etc/rclone/rclone.conf";
+}
+
+function validatePaths(job: Job): string | null {
+  if (!job.source_path || !job.destination_path) {
+    return "Job source_path and destination_path must be configured";
+  }
+  return null;
+}
+
+function validateBackup(job: Job): string | null {
+  return validatePaths(job) ?? getJobBandwidthError(job);
+}
+
+/**
+ * Map an rclone per-object log line ("Copied (new)", "Updated ...",
+ * "Deleted", or an error about an object) to a manifest entry.
+ */
+function parseFileEvent(line: string): NewRunFile | null {
+  let level: string;
+  let object: string;
+  let msg: string;
+  let size: number | null = null;
+
+  try {
+    const entry = JSON.parse(line);
+    if (typeof entry.object !== "string" || !entry.object || typeof entry.msg !== "string") return null;
+    level = String(entry.level || "info").toLowerCase();
+    object = entry.object;
+    msg = entry.msg;
+    if (typeof entry.size === "number") size = entry.size;
+  } catch {
+    // Plain text log: "2024/01/01 02:00:00 INFO  : path/to/file: Copied (new)"
+    const match = line.match(/^\d{4}\/\d\d\/\d\d \d\d:\d\d:\d\d (\w+)\s*: (.+?): (.+)$/);
+    if (!match) return null;
+    [, level, object, msg] = match;
+    level = level.toLowerCase();
+  }
+
+  if (/^Copied \(new\)/.test(msg)) return { path: object, action: "copied", size, error: null };
+  if (/^Copied \(replaced existing\)|^Updated /.test(msg)) return { path: object, action: "updated", size, error: null };
+  if (/^Deleted/.test(msg)) return { path: object, action: "deleted", size, error: null };
+  if (level === "error") return { path: object, action: "error", size, error: msg };
+  return null;
+}
+
+// What Google and other backends answer when throttling: the API reason
+// codes, or the HTTP status as rclone prints it in an error
+const RATE_LIMIT_PATTERN = /rateLimitExceeded|userRateLimitExceeded|quotaExceeded|\bError (403|429)\b|\bHTTP 429\b/i;
+
+/**
+ * Whether an rclone output line is an error caused by rate limiting. Only
+ * error-level entries count — stats lines carry byte counts, speeds and
+ * file names that can contain "403", "429" or "quota" by chance.
+ */
+export function isRateLimitError(line: string): boolean {
+  try {
+    const entry = JSON.parse(line);
+    if (entry && typeof entry === "object") {
+      if (entry.stats || entry.level !== "error") return false;
+      return typeof entry.msg === "string" && RATE_LIMIT_PATTERN.test(entry.msg);
+    }
+  } catch {
+    // Plain text log line
+  }
+  return /\bERROR\b/.test(line) && RATE_LIMIT_PATTERN.test(line);
+}
+
+// ── Expired credentials ──────────────────────────────────────
+
+// OAuth refresh failures: Google answers invalid_grant ("Token has been
+// expired or revoked") or 401 Invalid Credentials
+const AUTH_ERROR_PATTERN = /invalid_grant|expired or revoked|(couldn't|cannot) fetch token|Error 401\b|\b401 Unauthorized|Invalid Credentials|unauthorized_client|invalid_client/i;
+
+/** The message of an rclone output line that reports rejected credentials, or null */
+export function detectAuthError(line: string): string | null {
+  if (!AUTH_ERROR_PATTERN.test(line)) return null;
+  let msg = line;
+  try {
+    const entry = JSON.parse(line);
+    if (typeof entry.msg === "string") msg = entry.msg;
+  } catch {
+    // Plain text line — keep it whole
+  }
+  msg = msg.trim();
+  return msg.length > 200 ? msg.slice(0, 200) + "…" : msg;
+}
+
+/** "gdrive:backups/photos" → "gdrive"; null for local paths and URLs */
+export function getRemoteName(path: string): string | null {
+  const match = path.trim().match(/^(\w[\w.\- ]*):(?!\/\/)/);
+  return match ? match[1] : null;
+}
+
+/** rclone remotes a job reads from or writes to */
+export function getJobRemotes(job: Job): string[] {
+  const paths = job.type === "immich_db_backup"
+    ? [job.destination_path]
+    : job.type.startsWith("rclone_") ? [job.source_path, job.destination_path] : [];
+  return [...new Set(paths.map(getRemoteName).filter((remote): remote is string => !!remote))];
+}
+
+/** Track the first auth error in a run's output, attributed to the remote it names */
+function authErrorTracker(job: Job) {
+  let failure: AuthFailure | null = null;
+  return {
+    parse(line: string) {
+      if (failure) return;
+      const detail = detectAuthError(line);
+      if (!detail) return;
+      const remotes = getJobRemotes(job);
+      failure = { remote: remotes.find((r) => line.includes(`${r}:`)) ?? remotes[0] ?? null, detail };
+    },
+    get failure() {
+      return failure;
+    },
+  };
+}
+
+function authFailureOutcome(auth: AuthFailure) {
+  const remote = auth.remote ? `remote "${auth.remote}"` : "the rclone remote";
+  const fix = auth.remote ? ` Run \`rclone config reconnect ${auth.remote}:\` on the server.` : "";
+  return {
+    status: "failure" as const,
+    failure_reason: "auth_expired" as const,
+    auth_failure: auth,
+    short_summary: `Authentication failed for ${remote}: the token expired or was revoked.${fix} (${auth.detail})`,
+  };
+}
+
+// ── Backup (rclone copy/sync/check) ──────────────────────────
+
+export const rcloneBackupAdapter: ExecutorAdapter = {
+  label: "rclone",
+  validate: validateBackup,
+
+  create(ctx) {
+    const { job, recordFile } = ctx;
+    const startTime = Date.now();
+    let bytesTransferred = 0;
+    let filesTransferred = 0;
+    let errorsCount = 0;
+    let speed = 0;
+    let eta: number | null = null;
+    let totalBytes = 0;
+    let totalTransfers = 0;
+    let checks = 0;
+    let rateLimitHits = 0;
+    const auth = authErrorTracker(job);
+
+    // ── Adaptive rate-limit tuning (not for check jobs) ──────
+    const jobFlags = parseJobFlags(job.flags);
+    const threshold = job.type === "rclone_check" ? 0 : getRateLimitThreshold();
+    let tuning = getStartingTuning(job, jobFlags);
+    let tuningActive = job.tuned_tpslimit != null || job.tuned_transfers != null;
+    let attemptHits = 0;          // hits of the current rclone process
+    let restarts = 0;
+    let pendingTuning: RcloneTuning | null = null;
+    let finalExit: ExitResult | null = null;
+    // A restarted rclone reports stats from zero; earlier attempts' work is carried over
+    let carriedBytes = 0;
+    let carriedFiles = 0;
+    // Remote control for live bandwidth changes; kept across tuning restarts
+    let rc: RcEndpoint | null = null;
+
+    const rateLimitNote = () => {
+      let note = rateLimitHits > 0 ? ` Rate-limit hits: ${rateLimitHits}.` : "";
+      if (restarts > 0) note += ` Restarted ${restarts}× with lower limits (${formatTuning(tuning)}).`;
+      return note;
+    };
+
+    function buildSpec(): CommandSpec {
+      const rcloneConfig = getRcloneConfigPath();
+
+      // Determine rclone sub-command from job type
+      const rcloneCmd = job.type === "rclone_sync" ? "sync" : job.type === "rclone_check" ? "check" : "copy";
+
+      const args: string[] = [
+        rcloneCmd,
+        job.source_path,
+        job.destination_path,
+        "--config", rcloneConfig,
+        "--stats-one-line",
+        "--stats", "2s",
+        "-v",
+        "--use-json-log",
+      ];
+
+      // For rclone_check jobs, add --one-way flag
+      if (job.type === "rclone_check") args.push("--one-way");
+      args.push(...bwlimitArgs(job));
+      const rcSetup = rc ? rcFlags(rc) : null;
+      if (rcSetup) args.push(...rcSetup.args);
+      args.push(...(tuningActive ? applyTuning(jobFlags, tuning) : jobFlags));
+
+      return {
+        command: "rclone",
+        args,
+        env: { RCLONE_CONFIG: rcloneConfig, ...rcSetup?.env },
+        rc: rc ?? undefined,
+      };
+    }
+
+    return {
+      async buildCommand() {
+        if (tuningActive) ctx.log(`[tuning] starting with learned limits ${formatTuning(tuning)}\n`);
+        try {
+          rc = { port: await findFreePort(), password: generateRcPassword() };
+        } catch (err) {
+          // Not fatal — the run just can't be throttled while it is live
+          ctx.log(`[rc] no free port for remote control: ${err instanceof Error ? err.message : err}\n`);
+        }
+        return buildSpec();
+      },
+
+      reattach(step) {
+        // Tuning restarts after the reattach keep the same rc port and password
+        rc = step.rc;
+      },
+
+      parseOutput(line) {
+        auth.parse(line);
+
+        // Detect rate-limit errors (403/429)
+        if (isRateLimitError(line)) {
+          rateLimitHits++;
+          attemptHits++;
+          // Too many in this process — stop it and go again with lower limits
+          if (threshold > 0 && attemptHits >= threshold && !pendingTuning && restarts < getMaxTuningRestarts()) {
+            pendingTuning = lowerTuning(tuning);
+            if (pendingTuning) {
+              ctx.log(`\n[tuning] ${attemptHits} rate-limit hits — restarting with ${formatTuning(pendingTuning)}\n`);
+              ctx.abortStep();
+            }
+          }
+        }
+
+        const file = parseFileEvent(line);
+        if (file) recordFile(file);
+
+        try {
+          const entry = JSON.parse(line);
+          if (entry.stats) {
+            if (entry.stats.bytes != null) bytesTransferred = carriedBytes + entry.stats.bytes;
+            if (entry.stats.transfers != null) filesTransferred = carriedFiles + entry.stats.transfers;
+            if (entry.stats.errors != null) errorsCount = entry.stats.errors;
+            if (entry.stats.speed != null) speed = entry.stats.speed;
+            if (entry.stats.eta != null) eta = entry.stats.eta;
+            if (entry.stats.totalBytes != null) totalBytes = carriedBytes + entry.stats.totalBytes;
+            if (entry.stats.totalTransfers != null) totalTransfers = carriedFiles + entry.stats.totalTransfers;
+            if (entry.stats.checks != null) checks = entry.stats.checks;
+          }
+        } catch {
+          const bytesMatch = line.match(/Transferred:\s+([\d.]+)\s*(\w+)/);
+          if (bytesMatch) bytesTransferred = carriedBytes + parseTransferredBytes(bytesMatch[1], bytesMatch[2]);
+          const filesMatch = line.match(/Transferred:\s+(\d+)\s*\/\s*\d+,/);
+          if (filesMatch) filesTransferred = carriedFiles + parseInt(filesMatch[1], 10);
+          const errMatch = line.match(/Errors:\s+(\d+)/);
+          if (errMatch) errorsCount = parseInt(errMatch[1], 10);
+        }
+      },
+
+      progress() {
+        const elapsed = (Date.now() - startTime) / 1000;
+
+        // Build rich summary
+        const parts: string[] = [formatBytes(bytesTransferred)];
+        if (totalBytes > 0) {
+          const pct = Math.round((bytesTransferred / totalBytes) * 100);
+          parts[0] = `${formatBytes(bytesTransferred)} / ${formatBytes(totalBytes)} (${pct}%)`;
+        }
+
+        // Files progress
+        parts.push(totalTransfers > 0 ? `${filesTransferred}/${totalTransfers} files` : `${filesTransferred} files`);
+
+        // Speed: show both instant and average
+        if (speed > 0) {
+          const avgSpeed = elapsed > 0 ? bytesTransferred / elapsed : 0;
+          if (avgSpeed > 0 && Math.abs(speed - avgSpeed) / avgSpeed > 0.3) {
+            // Show both if they differ significantly
+            parts.push(`${formatBytes(speed)}/s (avg ${formatBytes(avgSpeed)}/s)`);
+          } else {
+            parts.push(`${formatBytes(speed)}/s`);
+          }
+        }
+
+        // Files per second
+        if (elapsed > 10 && filesTransferred > 0) {
+          parts.push(`${(filesTransferred / elapsed).toFixed(1)} files/s`);
+        }
+
+        if (eta != null && eta > 0) parts.push(`ETA ${formatEta(eta)}`);
+
+        // Rate-limit warning
+        if (rateLimitHits > 0) parts.push(`⚠ ${rateLimitHits} rate-limit hits`);
+
+        return {
+          bytes_transferred: bytesTransferred,
+          files_transferred: filesTransferred,
+          errors_count: errorsCount,
+          short_summary: parts.join(" · "),
+          progress: makeProgress({
+            bytes: bytesTransferred,
+            total_bytes: totalBytes || null,
+            files: filesTransferred,
+            total_files: totalTransfers || null,
+            checks,
+            errors: errorsCount,
+            rate_limit_hits: rateLimitHits,
+            speed_bps: speed || null,
+            eta_seconds: eta,
+            percent: percentOf(bytesTransferred, totalBytes),
+          }),
+        };
+      },
+
+      async afterExit(mainExit) {
+        let exit = mainExit;
+        // Restart unless rclone managed to finish before the stop landed,
+        // or the user pressed Stop while the tuning stop was pending
+        while (pendingTuning && exit.code !== 0 && !ctx.stopRequested()) {
+          tuning = pendingTuning;
+          pendingTuning = null;
+          tuningActive = true;
+          restarts++;
+          saveJobTuning(job.id, tuning, ctx.run.id, attemptHits, "restart");
+          attemptHits = 0;
+          carriedBytes = bytesTransferred;
+          carriedFiles = filesTransferred;
+          exit = await ctx.spawnStep(buildSpec());
+        }
+        pendingTuning = null;
+        finalExit = exit;
+
+        // Still rate limited when it ended — start the next run lower
+        if (threshold > 0 && attemptHits >= threshold) {
+          const next = lowerTuning(tuning);
+          if (next) {
+            saveJobTuning(job.id, next, ctx.run.id, attemptHits, "next_run");
+            ctx.log(`[tuning] next runs will start with ${formatTuning(next)}\n`);
+          }
+        }
+      },
+
+      summarize(mainExit, durationSeconds) {
+        const exit = finalExit ?? mainExit;
+        const totals = { bytes_transferred: bytesTransferred, files_transferred: filesTransferred };
+
+        if (exit.signal === "SIGTERM" || exit.signal === "SIGKILL") {
+          return {
+            ...totals,
+            status: "cancelled",
+            errors_count: errorsCount,
+            short_summary: `Stopped by user after ${formatDuration(durationSeconds)}. Transferred ${formatBytes(bytesTransferred)}, ${filesTransferred} files.${rateLimitNote()}`,
+          };
+        }
+        if (exit.code === 0) {
+          const avgSpeed = durationSeconds > 0 ? bytesTransferred / durationSeconds : 0;
+          const filesPerSec = durationSeconds > 0 ? (filesTransferred / durationSeconds).toFixed(1) : "0";
+          return {
+            ...totals,
+            status: "success",
+            errors_count: errorsCount,
+            short_summary: `Transferred ${formatBytes(bytesTransferred)}, ${filesTransferred} files in ${formatDuration(durationSeconds)}. Avg ${formatBytes(avgSpeed)}/s (${filesPerSec} files/s). ${errorsCount} errors.${rateLimitNote()}`,
+          };
+        }
+        if (auth.failure) {
+          return { ...totals, errors_count: errorsCount || 1, ...authFailureOutcome(auth.failure) };
+        }
+        return {
+          ...totals,
+          status: "failure",
+          errors_count: errorsCount || 1,
+          short_summary: `Failed with exit code ${exit.code}. ${errorsCount} errors.${rateLimitNote()} Check logs.`,
+        };
+      },
+    };
+  },
+};
+
+// ── Verification (rclone check --one-way) ────────────────────
+
+/** Only filter flags carry over to a verify run, so it checks the same subset that was backed up */
+function getVerifyFilterFlags(flags: string[]): string[] {
+  const kept: string[] = [];
+  let i = 0;
+  while (i < flags.length) {
+    const flag = flags[i];
+    if (/^--(exclude|min-size|max-size)=/.test(flag)) {
+      kept.push(flag);
+      i++;
+    } else if ((flag === "--exclude" || flag === "--min-size" || flag === "--max-size") && i + 1 < flags.length) {
+      kept.push(flag, flags[i + 1]);
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return kept;
+}
+
+export const rcloneVerifyAdapter: ExecutorAdapter = {
+  label: "rclone check",
+  validate: validatePaths,
+
+  create({ job, options }) {
+    const useChecksum = !!options.checksum;
+    let matchedFiles = 0;
+    let mismatchedFiles = 0;
+    let missingFiles = 0;   // files in source not in dest
+    let errorsCount = 0;
+    let totalChecks = 0;
+    const auth = authErrorTracker(job);
+
+    return {
+      buildCommand() {
+        const rcloneConfig = getRcloneConfigPath();
+        const args: string[] = [
+          "check",
+          job.source_path,
+          job.destination_path,
+          "--config", rcloneConfig,
+          "--one-way",           // Only check that source files exist in destination
+          "--stats-one-line",
+          "--stats", "2s",
+          "-v",
+          "--use-json-log",
+        ];
+        if (useChecksum) args.push("--checksum");
+        args.push(...getVerifyFilterFlags(parseJobFlags(job.flags)));
+
+        return { command: "rclone", args, env: { RCLONE_CONFIG: rcloneConfig } };
+      },
+
+      // Single command, all state comes from its output
+      reattach() {},
+
+      parseOutput(line) {
+        auth.parse(line);
+        try {
+          const entry = JSON.parse(line);
+
+          // rclone check JSON stats
+          if (entry.stats) {
+            if (entry.stats.checks != null) matchedFiles = entry.stats.checks;
+            if (entry.stats.totalChecks != null) totalChecks = entry.stats.totalChecks;
+            if (entry.stats.errors != null) errorsCount = entry.stats.errors;
+            if (entry.stats.transfers != null) mismatchedFiles = entry.stats.transfers;
+          }
+
+          // rclone check emits "msg":"...not in..." for missing files
+          if (entry.msg && /not in/i.test(entry.msg)) missingFiles++;
+        } catch {
+          // Text-based parsing fallback
+          const checksMatch = line.match(/Checks:\s+(\d+)\s*\/\s*(\d+)/);
+          if (checksMatch) {
+            matchedFiles = parseInt(checksMatch[1], 10);
+            totalChecks = parseInt(checksMatch[2], 10);
+          }
+          const errMatch = line.match(/Errors:\s+(\d+)/);
+          if (errMatch) errorsCount = parseInt(errMatch[1], 10);
+        }
+      },
+
+      progress() {
+        const parts: string[] = [];
+        if (totalChecks > 0) {
+          const pct = Math.round((matchedFiles / totalChecks) * 100);
+          parts.push(`Checked ${matchedFiles}/${totalChecks} files (${pct}%)`);
+        } else {
+          parts.push(`Checked ${matchedFiles} files`);
+        }
+        if (errorsCount > 0) parts.push(`${errorsCount} differences found`);
+
+        return {
+          bytes_transferred: 0,
+          files_transferred: matchedFiles,
+          errors_count: errorsCount,
+          short_summary: parts.join(" · "),
+          progress: makeProgress({
+            checks: matchedFiles,
+            total_checks: totalChecks || null,
+            errors: errorsCount,
+            percent: percentOf(matchedFiles, totalChecks),
+          }),
+        };
+      },
+
+      summarize(exit, durationSeconds) {
+        const totals = { bytes_transferred: 0, files_transferred: matchedFiles, errors_count: errorsCount };
+        const mode = useChecksum ? "checksum" : "size/modtime";
+
+        if (exit.signal === "SIGTERM" || exit.signal === "SIGKILL") {
+          return { ...totals, status: "cancelled", short_summary: `Verification cancelled by user after ${formatDuration(durationSeconds)}.` };
+        }
+        if (exit.code === 0 && errorsCount === 0) {
+          return {
+            ...totals,
+            status: "success",
+            short_summary: `Verified: all ${matchedFiles} files match between source and destination. (${mode} verified) Duration: ${formatDuration(durationSeconds)}.`,
+          };
+        }
+
+        if (auth.failure) return { ...totals, ...authFailureOutcome(auth.failure) };
+
+        const issues: string[] = [];
+        if (errorsCount > 0) issues.push(`${errorsCount} differences`);
+        if (missingFiles > 0) issues.push(`${missingFiles} files missing from destination`);
+        if (mismatchedFiles > 0) issues.push(`${mismatchedFiles} files mismatched`);
+        if (issues.length === 0) issues.push(`rclone check exited with code ${exit.code}`);
+        return {
+          ...totals,
+          status: "failure",
+          short_summary: `Verification FAILED: ${issues.join(", ")}. ${matchedFiles} files matched. (${mode}) Duration: ${formatDuration(durationSeconds)}.`,
+        };
+      },
+
+      async notify(outcome, durationSeconds) {
+        await sendVerifyNotification({
+          jobId: job.id,
+          jobName: job.name,
+          status: outcome.status as "success" | "failure",
+          matchedFiles,
+          errorsCount: outcome.errors_count,
+          durationSeconds,
+          summary: outcome.short_summary,
+        });
+      },
+    };
+  },
+};
@@ -0,0 +1,119 @@
+// ============================================================
+// Executor types
+// An adapter describes how one job type runs: which command to
+// spawn, how to read its output and how to summarize the result.
+// The engine in ./index.ts owns spawning, log buffering, progress
+// writes, completion and notifications.
+// ============================================================
+
+import type { Readable } from "stream";
+import type { RcEndpoint } from "../process-manager";
+import type { FailureReason, Job, NewRunFile, Run, RunProgress } from "../types";
+
+/** Per-run options stored with the queued run (runs.options) */
+export interface RunOptions {
+  checksum?: boolean;
+}
+
+export interface CommandSpec {
+  command: string;
+  args: string[];
+  /** Extra environment on top of process.env */
+  env?: Record<string, string>;
+  /** Args as written to the run log (secrets redacted); defaults to args */
+  displayArgs?: string[];
+  /** rclone's remote control (--rc), registered with the process */
+  rc?: RcEndpoint;
+}
+
+export interface ExitResult {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/** Counters stored on the run row */
+export interface RunTotals {
+  bytes_transferred: number;
+  files_transferred: number;
+  errors_count: number;
+  short_summary: string;
+}
+
+export interface ProgressUpdate extends RunTotals {
+  /** Structured fields pushed to live clients */
+  progress: RunProgress;
+}
+
+export interface RunOutcome extends RunTotals {
+  status: "success" | "failure" | "timed_out" | "cancelled";
+  /** Stored on the run when the adapter knows why it failed */
+  failure_reason?: FailureReason;
+  /** Set with failure_reason "auth_expired" */
+  auth_failure?: AuthFailure;
+}
+
+/** A remote rejected rclone's credentials (expired or revoked OAuth token) */
+export interface AuthFailure {
+  /** null when the job's paths name no remote */
+  remote: string | null;
+  /** rclone's error message */
+  detail: string;
+}
+
+/** What executeRun() resolves with once the run is completed */
+export interface RunResult {
+  status: RunOutcome["status"];
+  /** A retry attempt was queued; the run's chain waits for the final attempt */
+  retrying: boolean;
+}
+
+export interface ExecutionContext {
+  job: Job;
+  run: Run;
+  options: RunOptions;
+  /** Append text to the run log */
+  log(text: string): void;
+  /** Publish a progress snapshot (throttled to 1/s) and write it to the DB (every 5s) */
+  reportProgress(): void;
+  /** Add a file to the run's manifest (run_files) */
+  recordFile(file: NewRunFile): void;
+  /** Stop the command that is currently running (SIGTERM), e.g. to restart it with other flags */
+  abortStep(): void;
+  /** Whether the user pressed Stop — a step ended by abortStep() doesn't count */
+  stopRequested(): boolean;
+  /** Spawn a follow-up command (e.g. an offsite copy); output is logged and parsed like the main one */
+  spawnStep(spec: CommandSpec): Promise<ExitResult>;
+}
+
+/** One run of an adapter — keeps its parsing state in closure */
+export interface RunExecution {
+  buildCommand(): CommandSpec | Promise<CommandSpec>;
+  /** Called with every complete stdout/stderr line */
+  parseOutput(line: string): void;
+  /** Take over the main command's stdout as a raw stream; resolves once it is fully consumed */
+  pipeStdout?(stdout: Readable): Promise<void>;
+  /** Current progress, written to the run while it is active */
+  progress(): ProgressUpdate | null;
+  /** Follow-up work once the main command exited (rotation, uploads...) */
+  afterExit?(exit: ExitResult): Promise<void>;
+  summarize(exit: ExitResult, durationSeconds: number): RunOutcome;
+  /** Defaults to sendJobNotification; never called for cancelled runs */
+  notify?(outcome: RunOutcome, durationSeconds: number): Promise<void>;
+  /**
+   * Pick up a supervised command that outlived a server restart: restore
+   * what buildCommand() would have set up, then its output is replayed
+   * through parseOutput from the start. Runs of adapters without it are
+   * cancelled on restart.
+   */
+  reattach?(step: { rc: RcEndpoint | null }): void;
+  /** Always called last, also when the run crashed */
+  cleanup?(): void;
+}
+
+export interface ExecutorAdapter {
+  /** Tool name used in messages, e.g. "Failed to start rclone" */
+  label: string;
+  /** Why a job of this type can't run yet, or null if it is fully configured */
+  validate(job: Job): string | null;
+  create(ctx: ExecutionContext): RunExecution;
+}
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEFAULT_HOOK_TIMEOUT_SECONDS, countJobHooks, parseJobHooks, validateJobHooks } from "./hooks";
+
+test("parseJobHooks trims commands and fills in the default timeout", () => {
+  const hooks = parseJobHooks(JSON.stringify({
+    pre: [{ command: "  docker stop immich_server " }, { command: "sync", timeout_seconds: 12.4 }],
+    on_failure: [{ command: "curl -fsS https://example.com/fail", timeout_seconds: -5 }],
+  }));
+  assert.deepEqual(hooks, {
+    pre: [
+      { command: "docker stop immich_server", timeout_seconds: DEFAULT_HOOK_TIMEOUT_SECONDS },
+      { command: "sync", timeout_seconds: 12 },
+    ],
+    post: [],
+    on_failure: [{ command: "curl -fsS https://example.com/fail", timeout_seconds: DEFAULT_HOOK_TIMEOUT_SECONDS }],
+  });
+  assert.equal(countJobHooks(hooks), 3);
+});
+
+test("parseJobHooks drops what it can't run", () => {
+  const empty = { pre: [], post: [], on_failure: [] };
+  assert.deepEqual(parseJobHooks(null), empty);
+  assert.deepEqual(parseJobHooks("{not json"), empty);
+  assert.deepEqual(parseJobHooks('"pre"'), empty);
+  assert.deepEqual(parseJobHooks(JSON.stringify({ pre: "echo hi", post: [null, { command: "  " }, { cmd: "x" }] })), empty);
+});
+
+test("validateJobHooks accepts stored hooks and an empty value", () => {
+  assert.equal(validateJobHooks(""), null);
+  assert.equal(validateJobHooks("{}"), null);
+  assert.equal(validateJobHooks(JSON.stringify({ pre: [{ command: "true", timeout_seconds: 60 }], post: [], on_failure: [] })), null);
+});
+
+test("validateJobHooks names the offending stage and hook", () => {
+  assert.equal(validateJobHooks("{"), "Hooks must be valid JSON");
+  assert.equal(validateJobHooks("[]"), "Hooks must be an object with pre, post and on_failure lists");
+  assert.equal(validateJobHooks(JSON.stringify({ before: [] })), 'Unknown hook stage "before"');
+  assert.equal(validateJobHooks(JSON.stringify({ post: { command: "true" } })), 'Hooks for "post" must be a list');
+  assert.equal(validateJobHooks(JSON.stringify({ post: [{ command: "true" }, { command: " " }] })), "post hook #2 needs a command");
+  assert.match(validateJobHooks(JSON.stringify({ pre: [{ command: "true", timeout_seconds: 0 }] }))!, /^pre hook #1: timeout must be between 1 and/);
+  assert.match(validateJobHooks(JSON.stringify({ pre: [{ command: "true", timeout_seconds: 1.5 }] }))!, /timeout must be/);
+});
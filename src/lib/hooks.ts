@@ -0,0 +1,78 @@
+// ============================================================
+// Job hooks
+// Shell commands run around a backup run: "pre" before the transfer
+// (a failure skips it), "post" afterwards whatever the result, and
+// "on_failure" when the run failed or timed out and no retry follows.
+// Stored as JSON on jobs.hooks; executed by lib/executor/hooks. No
+// Node imports here, the job form parses hooks too.
+// ============================================================
+
+import type { HookCommand, HookStage, JobHooks } from "./types";
+
+export const HOOK_STAGES: HookStage[] = ["pre", "post", "on_failure"];
+
+export const DEFAULT_HOOK_TIMEOUT_SECONDS = 300;
+const MAX_HOOK_TIMEOUT_SECONDS = 24 * 3600;
+
+export function emptyJobHooks(): JobHooks {
+  return { pre: [], post: [], on_failure: [] };
+}
+
+/** Hooks stored on a job; malformed JSON or entries are dropped */
+export function parseJobHooks(json: string | null | undefined): JobHooks {
+  const hooks = emptyJobHooks();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json || "{}");
+  } catch {
+    return hooks;
+  }
+  if (!raw || typeof raw !== "object") return hooks;
+
+  for (const stage of HOOK_STAGES) {
+    const list = (raw as Record<string, unknown>)[stage];
+    if (!Array.isArray(list)) continue;
+    for (const entry of list) {
+      if (!entry || typeof entry.command !== "string" || !entry.command.trim()) continue;
+      const timeout = Number(entry.timeout_seconds);
+      hooks[stage].push({
+        command: entry.command.trim(),
+        timeout_seconds: Number.isFinite(timeout) && timeout > 0 ? Math.round(timeout) : DEFAULT_HOOK_TIMEOUT_SECONDS,
+      });
+    }
+  }
+  return hooks;
+}
+
+/** Why a hooks JSON value can't be saved, or null if it is fine */
+export function validateJobHooks(json: string): string | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json || "{}");
+  } catch {
+    return "Hooks must be valid JSON";
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return "Hooks must be an object with pre, post and on_failure lists";
+  }
+
+  for (const [stage, list] of Object.entries(raw)) {
+    if (!HOOK_STAGES.includes(stage as HookStage)) return `Unknown hook stage "${stage}"`;
+    if (!Array.isArray(list)) return `Hooks for "${stage}" must be a list`;
+    for (const [i, entry] of (list as Partial<HookCommand>[]).entries()) {
+      const where = `${stage} hook #${i + 1}`;
+      if (!entry || typeof entry.command !== "string" || !entry.command.trim()) return `${where} needs a command`;
+      if (entry.timeout_seconds !== undefined) {
+        const timeout = Number(entry.timeout_seconds);
+        if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_HOOK_TIMEOUT_SECONDS) {
+          return `${where}: timeout must be between 1 and ${MAX_HOOK_TIMEOUT_SECONDS} seconds`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function countJobHooks(hooks: JobHooks): number {
+  return hooks.pre.length + hooks.post.length + hooks.on_failure.length;
+}
@@ -0,0 +1,150 @@
+// ============================================================
+// Notification channels
+// The kinds of channel a notification can go to and the fields each
+// one is configured with. A channel's config is stored as a JSON
+// object on notification_channels.config; the providers that send
+// to them live in lib/channels. No Node imports here, the Settings
+// page builds its channel form from this list.
+// ============================================================
+
+import type { NotificationChannel } from "./types";
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+  /** Rendered as a password input */
+  secret?: boolean;
+  /** A fixed set of values instead of free text */
+  options?: { value: string; label: string }[];
+  /** Used when the field is left empty */
+  default?: string;
+  hint?: string;
+}
+
+export interface ChannelTypeInfo {
+  label: string;
+  description: string;
+  fields: ChannelField[];
+}
+
+export const CHANNEL_TYPES: Record<NotificationChannel, ChannelTypeInfo> = {
+  telegram: {
+    label: "Telegram",
+    description: "Message to a chat via a bot",
+    fields: [
+      { key: "bot_token", label: "Bot Token", placeholder: "123456:ABC-DEF...", required: true, secret: true, hint: "Create via @BotFather in Telegram" },
+      { key: "chat_id", label: "Chat ID", placeholder: "-1001234567890", required: true, hint: "Find via @userinfobot in Telegram" },
+    ],
+  },
+  webhook: {
+    label: "Webhook",
+    description: "POST a JSON payload to any URL",
+    fields: [
+      { key: "url", label: "URL", placeholder: "https://example.com/hooks/backup", required: true },
+      { key: "auth_header", label: "Authorization Header", placeholder: "Bearer secret-token", secret: true, hint: "Sent as the Authorization header, if set" },
+    ],
+  },
+  ntfy: {
+    label: "ntfy",
+    description: "Push notification via an ntfy server",
+    fields: [
+      { key: "server", label: "Server", placeholder: "https://ntfy.sh", default: "https://ntfy.sh" },
+      { key: "topic", label: "Topic", placeholder: "homelab-backups", required: true },
+      { key: "token", label: "Access Token", placeholder: "tk_...", secret: true, hint: "Only for protected topics" },
+    ],
+  },
+  gotify: {
+    label: "Gotify",
+    description: "Push notification via a Gotify server",
+    fields: [
+      { key: "server", label: "Server", placeholder: "https://gotify.example.com", required: true },
+      { key: "token", label: "App Token", placeholder: "AbCdEf123", required: true, secret: true },
+    ],
+  },
+  discord: {
+    label: "Discord",
+    description: "Message to a channel via a Discord webhook",
+    fields: [
+      { key: "webhook_url", label: "Webhook URL", placeholder: "https://discord.com/api/webhooks/...", required: true, secret: true },
+    ],
+  },
+  slack: {
+    label: "Slack",
+    description: "Slack-compatible incoming webhook (Slack, Mattermost, Rocket.Chat)",
+    fields: [
+      { key: "webhook_url", label: "Webhook URL", placeholder: "https://hooks.slack.com/services/...", required: true, secret: true },
+    ],
+  },
+  email: {
+    label: "Email",
+    description: "Mail via an SMTP server",
+    fields: [
+      { key: "host", label: "SMTP Host", placeholder: "smtp.example.com", required: true },
+      { key: "port", label: "Port", placeholder: "587", default: "587" },
+      {
+        key: "security",
+        label: "Security",
+        default: "starttls",
+        options: [
+          { value: "starttls", label: "STARTTLS (587)" },
+          { value: "tls", label: "TLS (465)" },
+          { value: "none", label: "None (25)" },
+        ],
+      },
+      { key: "username", label: "Username", placeholder: "backups@example.com" },
+      { key: "password", label: "Password", secret: true },
+      { key: "from", label: "From", placeholder: "backups@example.com", required: true },
+      { key: "to", label: "To", placeholder: "me@example.com, other@example.com", required: true, hint: "Comma-separated" },
+    ],
+  },
+};
+
+export const CHANNEL_TYPE_LIST = Object.keys(CHANNEL_TYPES) as NotificationChannel[];
+
+/** A channel's stored config with defaults filled in; malformed JSON or values are dropped */
+export function parseChannelConfig(type: NotificationChannel, json: string | null | undefined): Record<string, string> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json || "{}");
+  } catch {
+    raw = {};
+  }
+  const values = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const config: Record<string, string> = {};
+  for (const field of CHANNEL_TYPES[type]?.fields ?? []) {
+    const value = typeof values[field.key] === "string" || typeof values[field.key] === "number" ? String(values[field.key]).trim() : "";
+    config[field.key] = value || field.default || "";
+  }
+  return config;
+}
+
+/** Why a channel can't be saved, or null if it is fine */
+export function validateChannel(type: unknown, name: unknown, config: Record<string, unknown>): string | null {
+  const info = CHANNEL_TYPES[type as NotificationChannel];
+  if (!info) return `Unknown channel type "${type}"`;
+  if (typeof name !== "string" || !name.trim()) return "Name is required";
+
+  for (const field of info.fields) {
+    const value = config[field.key] == null ? "" : String(config[field.key]).trim();
+    if (!value) {
+      if (field.required) return `${field.label} is required`;
+      continue;
+    }
+    if (field.options && !field.options.some((o) => o.value === value)) return `${field.label}: invalid value "${value}"`;
+    if (/url$|^server$/.test(field.key) && !/^https?:\/\/\S+$/i.test(value)) return `${field.label} must be an http(s) URL`;
+  }
+
+  if (type === "email") {
+    const port = Number(config.port || 587);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return "Port must be between 1 and 65535";
+    const to = String(config.to ?? "").split(",").map((a) => a.trim()).filter(Boolean);
+    if (to.some((address) => !address.includes("@") || /[\r\n]/.test(address))) {
+      return "To must be a comma-separated list of addresses";
+    }
+    const from = String(config.from ?? "");
+    if (!from.includes("@") || /[\r\n]/.test(from)) return "From must be an email address";
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+// ============================================================
+// Notification routing rules
+// A rule matches notifications by job or job tag, event and minimum
+// severity, and names the channels they go to — none means they are
+// dropped. Rules are tried in position order; the first enabled one
+// that matches decides. Notifications no rule matches go to every
+// enabled channel, unless their Notification Events toggle is off.
+// The dispatcher applies this in lib/channels; no Node imports here,
+// the Settings rules editor uses the same lists.
+// ============================================================
+
+import type { Channel, Job, NotificationEventType, NotificationMessage, NotificationRule, NotificationSeverity } from "./types";
+
+export const NOTIFICATION_EVENTS: Record<NotificationEventType, string> = {
+  RUN_FAILED: "Run failed",
+  RUN_TIMED_OUT: "Run timed out",
+  RUN_SUCCEEDED: "Run succeeded",
+  RUN_SKIPPED: "Run skipped",
+  LOW_DISK_SPACE: "Low disk space",
+  AUTH_EXPIRED: "Remote auth expired",
+  DAILY_DIGEST: "Daily digest",
+};
+
+export const NOTIFICATION_EVENT_LIST = Object.keys(NOTIFICATION_EVENTS) as NotificationEventType[];
+
+export const SEVERITIES: NotificationSeverity[] = ["info", "warning", "critical"];
+
+/** The Settings toggle that applies when no rule matches; events without one always go out */
+export const EVENT_TOGGLES: Partial<Record<NotificationEventType, string>> = {
+  RUN_FAILED: "notify_on_failure",
+  RUN_TIMED_OUT: "notify_on_failure",
+  RUN_SUCCEEDED: "notify_on_success",
+  RUN_SKIPPED: "notify_on_skip",
+  LOW_DISK_SPACE: "notify_low_disk",
+  AUTH_EXPIRED: "notify_auth_expired",
+};
+
+/** "Media, immich ,media" → ["media", "immich"] */
+export function parseJobTags(tags: string): string[] {
+  return [...new Set(tags.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function parseRuleEvents(events: string): NotificationEventType[] {
+  return events.split(",").map((e) => e.trim()).filter((e): e is NotificationEventType => e in NOTIFICATION_EVENTS);
+}
+
+export function parseRuleChannelIds(json: string): number[] {
+  try {
+    const parsed = JSON.parse(json || "[]");
+    return Array.isArray(parsed) ? parsed.map(Number).filter(Number.isInteger) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Whether `rule` applies to `message`; `job` is the job the message is about, if any */
+export function ruleMatches(rule: NotificationRule, message: NotificationMessage, job: Pick<Job, "id" | "tags"> | null): boolean {
+  if (rule.job_id != null && job?.id !== rule.job_id) return false;
+  if (rule.job_tag && !parseJobTags(job?.tags ?? "").includes(rule.job_tag)) return false;
+  const events = parseRuleEvents(rule.events);
+  if (events.length > 0 && (message.event === "TEST" || !events.includes(message.event))) return false;
+  if (rule.min_severity && SEVERITIES.indexOf(message.severity) < SEVERITIES.indexOf(rule.min_severity)) return false;
+  return true;
+}
+
+/** Short description of what a rule matches: "Photos · Run failed, Run timed out · warning+" */
+export function describeRuleMatch(rule: NotificationRule, jobs: Pick<Job, "id" | "name">[]): string {
+  const parts: string[] = [];
+  if (rule.job_id != null) parts.push(jobs.find((j) => j.id === rule.job_id)?.name ?? `Job #${rule.job_id}`);
+  if (rule.job_tag) parts.push(`#${rule.job_tag}`);
+  const events = parseRuleEvents(rule.events);
+  parts.push(events.length > 0 ? events.map((e) => NOTIFICATION_EVENTS[e]).join(", ") : "any event");
+  if (rule.min_severity) parts.push(`${rule.min_severity}+`);
+  return parts.join(" · ");
+}
+
+/** Why a rule can't be saved, or null if it is fine */
+export function validateNotificationRule(
+  rule: Record<string, unknown>,
+  known: { jobs: Pick<Job, "id">[]; channels: Pick<Channel, "id">[] }
+): string | null {
+  if (typeof rule.name !== "string" || !rule.name.trim()) return "Name is required";
+  if (rule.job_id != null && !known.jobs.some((j) => j.id === Number(rule.job_id))) return "Job not found";
+  if (rule.job_tag != null && typeof rule.job_tag !== "string") return "Job tag must be text";
+  if (typeof rule.job_tag === "string" && rule.job_tag.includes(",")) return "Only one job tag per rule";
+
+  const events = typeof rule.events === "string" ? rule.events.split(",").map((e) => e.trim()).filter(Boolean) : [];
+  const unknown = events.find((e) => !(e in NOTIFICATION_EVENTS));
+  if (unknown) return `Unknown event "${unknown}"`;
+  if (rule.min_severity && !SEVERITIES.includes(rule.min_severity as NotificationSeverity)) {
+    return `Invalid severity "${rule.min_severity}"`;
+  }
+
+  const channelIds = parseRuleChannelIds(typeof rule.channel_ids === "string" ? rule.channel_ids : "[]");
+  const missing = channelIds.find((id) => !known.channels.some((c) => c.id === id));
+  if (missing != null) return `Channel #${missing} not found`;
+  return null;
+}
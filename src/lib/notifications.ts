@@ -1,12 +1,16 @@
 // ============================================================
-// Telegram Notification Utility
+// Notification Utility
+// Builds the run, skip, verify and auth messages and hands them to the
+// notification channels (lib/channels); the routing rules and the
+// Notification Events toggles decide which ones get them.
 // ============================================================
 
-import { getSetting } from "./db";
+import { sendNotification } from "./channels";
 
 interface JobNotificationData {
+  jobId: number;
   jobName: string;
-  status: "success" | "failure";
+  status: "success" | "failure" | "timed_out";
   bytesTransferred: number;
   filesTransferred: number;
   errorsCount: number;
@@ -15,53 +19,80 @@ interface JobNotificationData {
 }
 
 export async function sendJobNotification(data: JobNotificationData): Promise<void> {
-  const enabled = getSetting("telegram_enabled");
-  if (enabled !== "true") return;
+  const emoji = data.status === "success" ? "✅" : data.status === "timed_out" ? "⏰" : "❌";
+  const statusText = data.status === "success" ? "Success" : data.status === "timed_out" ? "Timed Out" : "Failed";
 
-  const botToken = getSetting("telegram_bot_token");
-  const chatId = getSetting("telegram_chat_id");
-  if (!botToken || !chatId) return;
+  const body = [
+    `📊 ${formatBytes(data.bytesTransferred)} transferred, ${data.filesTransferred} files`,
+    `⏱ Duration: ${formatDuration(data.durationSeconds)}`,
+    ...(data.errorsCount > 0 ? [`⚠️ Errors: ${data.errorsCount}`] : []),
+    "",
+    data.summary,
+  ].join("\n");
+
+  const error = await sendNotification({
+    event: data.status === "success" ? "RUN_SUCCEEDED" : data.status === "timed_out" ? "RUN_TIMED_OUT" : "RUN_FAILED",
+    severity: data.status === "success" ? "info" : data.status === "timed_out" ? "warning" : "critical",
+    title: `${emoji} Backup ${statusText}: ${data.jobName}`,
+    body,
+    job_id: data.jobId,
+  });
+  if (error) console.error(`[notify] Run notification not sent: ${error}`);
+}
 
-  // Check if we should notify for this status
-  if (data.status === "success" && getSetting("notify_on_success") !== "true") return;
-  if (data.status === "failure" && getSetting("notify_on_failure") !== "true") return;
+// ── Run Skipped ──────────────────────────────────────────────
 
-  const emoji = data.status === "success" ? "\u2705" : "\u274C";
-  const statusText = data.status === "success" ? "Success" : "Failed";
+interface RunSkippedNotificationData {
+  jobId: number;
+  jobName: string;
+  summary: string;    // the skipped run's "Skipped: ..." summary
+}
 
-  const message = [
-    `${emoji} *Backup ${statusText}*: ${escapeMarkdown(data.jobName)}`,
-    "",
-    `\uD83D\uDCCA ${formatBytes(data.bytesTransferred)} transferred, ${data.filesTransferred} files`,
-    `\u23F1 Duration: ${formatDuration(data.durationSeconds)}`,
-    data.errorsCount > 0 ? `\u26A0\uFE0F Errors: ${data.errorsCount}` : "",
+/** RUN_SKIPPED: a run was recorded as skipped instead of being started */
+export async function sendRunSkippedNotification(data: RunSkippedNotificationData): Promise<void> {
+  const error = await sendNotification({
+    event: "RUN_SKIPPED",
+    severity: "warning",
+    title: `⏭ Backup Skipped: ${data.jobName}`,
+    body: data.summary,
+    job_id: data.jobId,
+  });
+  if (error) console.error(`[notify] Skipped run notification not sent: ${error}`);
+}
+
+// ── Auth Expired ─────────────────────────────────────────────
+
+interface AuthExpiredNotificationData {
+  remote: string;
+  /** The job whose run hit it; null when the remote health probe found it */
+  jobName: string | null;
+  detail: string;
+}
+
+/** AUTH_EXPIRED: an rclone remote rejected its credentials. Sent once per expiry. */
+export async function sendAuthExpiredNotification(data: AuthExpiredNotificationData): Promise<void> {
+  const body = [
+    data.jobName
+      ? `Run of ${data.jobName} failed: the token expired or was revoked.`
+      : "Remote health check failed: the token expired or was revoked.",
+    `Fix on the server: rclone config reconnect ${data.remote}:`,
     "",
-    escapeMarkdown(data.summary),
-  ].filter(Boolean).join("\n");
-
-  try {
-    const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: "Markdown",
-      }),
-    });
-    const result = await res.json();
-    if (!result.ok) {
-      console.error("[telegram] API error:", result.description);
-    }
-  } catch (err) {
-    console.error("[telegram] Failed to send notification:", err);
-  }
+    data.detail,
+  ].join("\n");
+
+  const error = await sendNotification({
+    event: "AUTH_EXPIRED",
+    severity: "critical",
+    title: `🔑 Remote Auth Expired: ${data.remote}`,
+    body,
+  });
+  if (error) console.error(`[notify] Auth expired notification not sent: ${error}`);
 }
 
 // ── Verify Notification ──────────────────────────────────────
 
 interface VerifyNotificationData {
+  jobId: number;
   jobName: string;
   status: "success" | "failure";
   matchedFiles: number;
@@ -71,52 +102,25 @@ interface VerifyNotificationData {
 }
 
 export async function sendVerifyNotification(data: VerifyNotificationData): Promise<void> {
-  const enabled = getSetting("telegram_enabled");
-  if (enabled !== "true") return;
-
-  const botToken = getSetting("telegram_bot_token");
-  const chatId = getSetting("telegram_chat_id");
-  if (!botToken || !chatId) return;
-
-  // Notify on both success and failure for verification
-  if (data.status === "failure" && getSetting("notify_on_failure") !== "true") return;
-  if (data.status === "success" && getSetting("notify_on_success") !== "true") return;
-
-  const emoji = data.status === "success" ? "\u2705" : "\u274C";
+  const emoji = data.status === "success" ? "✅" : "❌";
   const statusText = data.status === "success" ? "Verified" : "Verification Failed";
 
-  const message = [
-    `${emoji} *Backup ${statusText}*: ${escapeMarkdown(data.jobName)}`,
-    "",
-    `\uD83D\uDD0D ${data.matchedFiles} files checked`,
-    data.errorsCount > 0 ? `\u26A0\uFE0F ${data.errorsCount} differences found` : "\u2705 All files match",
-    `\u23F1 Duration: ${formatDuration(data.durationSeconds)}`,
+  const body = [
+    `🔍 ${data.matchedFiles} files checked`,
+    data.errorsCount > 0 ? `⚠️ ${data.errorsCount} differences found` : "✅ All files match",
+    `⏱ Duration: ${formatDuration(data.durationSeconds)}`,
     "",
-    escapeMarkdown(data.summary),
-  ].filter(Boolean).join("\n");
-
-  try {
-    const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: "Markdown",
-      }),
-    });
-    const result = await res.json();
-    if (!result.ok) {
-      console.error("[telegram] Verify notification API error:", result.description);
-    }
-  } catch (err) {
-    console.error("[telegram] Failed to send verify notification:", err);
-  }
-}
-
-function escapeMarkdown(text: string): string {
-  return text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, "\\$1");
+    data.summary,
+  ].join("\n");
+
+  const error = await sendNotification({
+    event: data.status === "success" ? "RUN_SUCCEEDED" : "RUN_FAILED",
+    severity: data.status === "success" ? "info" : "critical",
+    title: `${emoji} Backup ${statusText}: ${data.jobName}`,
+    body,
+    job_id: data.jobId,
+  });
+  if (error) console.error(`[notify] Verify notification not sent: ${error}`);
 }
 
 function formatBytes(bytes: number): string {
@@ -1,34 +1,159 @@
 // ============================================================
 // In-memory tracker for running rclone child processes
-// Allows force-stopping jobs via their run ID
+// Allows force-stopping jobs via their run ID, and remembers the
+// local remote-control port and password of rclone processes
+// started with --rc.
+// Supervised commands run detached in their own process group, so
+// signals go to the whole group; after a server restart they are
+// registered again by PID (see lib/supervisor).
+// Runs the user stopped are remembered until they complete, so no
+// further step of theirs is started.
+// A run is claimed by the executor for as long as it executes it: it
+// has gaps between steps where no process is registered, and only the
+// executor may complete the run then.
 // ============================================================
 
 import type { ChildProcess } from "child_process";
 
-const runningProcesses = new Map<number, ChildProcess>();
+export interface ProcessHandle {
+  pid: number;
+  /** Signal the whole process group (detached, supervised commands) */
+  group: boolean;
+  /** A job hook rather than one of the run's own commands */
+  hook?: boolean;
+  isAlive(): boolean;
+}
+
+/** Where and how to reach an rclone process's remote control */
+export interface RcEndpoint {
+  port: number;
+  password: string;
+}
+
+// Kept on globalThis: runs can be started from route handlers and from the
+// queue dispatcher in instrumentation, which Next.js may bundle separately
+const globalForProcesses = globalThis as unknown as {
+  __runningProcesses?: Map<number, ProcessHandle>;
+  __stopRequests?: Set<number>;
+  __rcEndpoints?: Map<number, RcEndpoint>;
+  __claimedRuns?: Set<number>;
+};
+const runningProcesses = (globalForProcesses.__runningProcesses ??= new Map<number, ProcessHandle>());
+const stopRequests = (globalForProcesses.__stopRequests ??= new Set<number>());
+const rcEndpoints = (globalForProcesses.__rcEndpoints ??= new Map<number, RcEndpoint>());
+const claimedRuns = (globalForProcesses.__claimedRuns ??= new Set<number>());
+
+/** Handle for a child spawned by this server process */
+export function childHandle(child: ChildProcess, group = false): ProcessHandle {
+  return {
+    pid: child.pid ?? 0,
+    group,
+    // `child.killed` only means a signal was sent (SIGSTOP included) — check the exit state instead
+    isAlive: () => !!child.pid && child.exitCode === null && child.signalCode === null,
+  };
+}
+
+function signal(handle: ProcessHandle, sig: NodeJS.Signals): boolean {
+  try {
+    process.kill(handle.group ? -handle.pid : handle.pid, sig);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-export function registerProcess(runId: number, child: ChildProcess): void {
-  runningProcesses.set(runId, child);
+function getLiveHandle(runId: number): ProcessHandle | null {
+  const handle = runningProcesses.get(runId);
+  return handle && handle.pid && handle.isAlive() ? handle : null;
+}
+
+export function registerProcess(runId: number, handle: ProcessHandle, rc?: RcEndpoint | null): void {
+  runningProcesses.set(runId, handle);
+  if (rc) rcEndpoints.set(runId, rc);
+  else rcEndpoints.delete(runId);
 }
 
 export function unregisterProcess(runId: number): void {
   runningProcesses.delete(runId);
+  rcEndpoints.delete(runId);
+}
+
+/** rclone remote control of the run's current process, if it was started with --rc */
+export function getRcEndpoint(runId: number): RcEndpoint | null {
+  return getLiveHandle(runId) ? rcEndpoints.get(runId) ?? null : null;
 }
 
 export function stopProcess(runId: number): boolean {
-  const child = runningProcesses.get(runId);
-  if (!child || child.killed) return false;
-  child.kill("SIGTERM");
+  const handle = getLiveHandle(runId);
+  if (!handle) return false;
+  signal(handle, "SIGTERM");
+  // A suspended (paused) process only acts on SIGTERM once it is continued
+  signal(handle, "SIGCONT");
   // Force kill after 5 seconds if still alive
   setTimeout(() => {
-    if (!child.killed) {
-      child.kill("SIGKILL");
+    if (handle.isAlive()) {
+      signal(handle, "SIGKILL");
     }
   }, 5000);
   return true;
 }
 
+/**
+ * Stop a run on the user's behalf. Unlike a plain stopProcess() (an
+ * adapter restarting a step, the watchdog), this is remembered until the
+ * run completes, so the executor doesn't start the run's next step.
+ */
+export function requestStop(runId: number): boolean {
+  stopRequests.add(runId);
+  return stopProcess(runId);
+}
+
+export function isStopRequested(runId: number): boolean {
+  return stopRequests.has(runId);
+}
+
+export function clearStopRequest(runId: number): void {
+  stopRequests.delete(runId);
+}
+
+export function claimRun(runId: number): void {
+  claimedRuns.add(runId);
+}
+
+/** The run is completed — forget its claim and any pending stop */
+export function releaseRun(runId: number): void {
+  claimedRuns.delete(runId);
+  stopRequests.delete(runId);
+}
+
+/** Whether an executor in this server is running the run (between steps too) */
+export function isRunClaimed(runId: number): boolean {
+  return claimedRuns.has(runId);
+}
+
+/** Suspend a running process (SIGSTOP) — it keeps its connections but stops transferring */
+export function suspendProcess(runId: number): boolean {
+  const handle = getLiveHandle(runId);
+  if (!handle) return false;
+  return signal(handle, "SIGSTOP");
+}
+
+/** Resume a process previously suspended with suspendProcess() */
+export function resumeProcess(runId: number): boolean {
+  const handle = getLiveHandle(runId);
+  if (!handle) return false;
+  return signal(handle, "SIGCONT");
+}
+
+export function getRunningRunIds(): number[] {
+  return [...runningProcesses.keys()];
+}
+
 export function isProcessRunning(runId: number): boolean {
-  const child = runningProcesses.get(runId);
-  return !!child && !child.killed;
+  return getLiveHandle(runId) != null;
+}
+
+/** Whether the run's current process is one of its job hooks */
+export function isHookRunning(runId: number): boolean {
+  return getLiveHandle(runId)?.hook === true;
 }
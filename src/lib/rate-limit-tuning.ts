@@ -0,0 +1,97 @@
+// ============================================================
+// Adaptive rate-limit tuning
+// When an rclone run keeps hitting 403/429 rate limits it is
+// restarted with a lower --tpslimit and --transfers. The values the
+// run ended up with are stored on the job, so later runs start from
+// them instead of rediscovering the limit every night.
+// ============================================================
+
+import { getSetting, setJobTuning } from "./db";
+import type { Job, JobTuningEntry } from "./types";
+
+export interface RcloneTuning {
+  tpslimit: number | null;   // null = unlimited (rclone's default)
+  transfers: number;
+}
+
+/** rclone's default --transfers */
+const DEFAULT_TRANSFERS = 4;
+/** First --tpslimit tried when the job had none */
+const INITIAL_TPSLIMIT = 10;
+
+/** Rate-limit hits within one rclone process before it is re-tuned; 0 disables tuning */
+export function getRateLimitThreshold(): number {
+  const value = parseInt(getSetting("rate_limit_threshold") ?? "20", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 20;
+}
+
+/** How often one run may restart rclone with lower limits */
+export function getMaxTuningRestarts(): number {
+  const value = parseInt(getSetting("rate_limit_max_restarts") ?? "2", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 2;
+}
+
+/** Value of `--flag N` or `--flag=N` in an rclone arg list */
+function readNumericFlag(flags: string[], flag: string): number | null {
+  for (let i = 0; i < flags.length; i++) {
+    if (flags[i] === flag && i + 1 < flags.length) return parseFloat(flags[i + 1]);
+    if (flags[i].startsWith(`${flag}=`)) return parseFloat(flags[i].slice(flag.length + 1));
+  }
+  return null;
+}
+
+/** Limits a run of the job starts with: learned values first, then the job's own flags */
+export function getStartingTuning(job: Job, flags: string[]): RcloneTuning {
+  const flagTps = readNumericFlag(flags, "--tpslimit");
+  const flagTransfers = readNumericFlag(flags, "--transfers");
+  return {
+    tpslimit: job.tuned_tpslimit ?? (flagTps && flagTps > 0 ? flagTps : null),
+    transfers: job.tuned_transfers ?? (flagTransfers && flagTransfers > 0 ? flagTransfers : DEFAULT_TRANSFERS),
+  };
+}
+
+/** Replace any --tpslimit/--transfers in `flags` with the tuned values */
+export function applyTuning(flags: string[], tuning: RcloneTuning): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < flags.length; i++) {
+    const flag = flags[i];
+    if (flag === "--tpslimit" || flag === "--transfers") {
+      i++; // skip the value too
+      continue;
+    }
+    if (flag.startsWith("--tpslimit=") || flag.startsWith("--transfers=")) continue;
+    out.push(flag);
+  }
+  if (tuning.tpslimit != null) out.push("--tpslimit", String(tuning.tpslimit));
+  out.push("--transfers", String(tuning.transfers));
+  return out;
+}
+
+/** Halve both limits; null once there is nothing left to lower */
+export function lowerTuning(current: RcloneTuning): RcloneTuning | null {
+  const next: RcloneTuning = {
+    tpslimit: current.tpslimit == null ? INITIAL_TPSLIMIT : Math.max(1, Math.floor(current.tpslimit / 2)),
+    transfers: Math.max(1, Math.ceil(current.transfers / 2)),
+  };
+  if (next.tpslimit === current.tpslimit && next.transfers === current.transfers) return null;
+  return next;
+}
+
+export function formatTuning(tuning: RcloneTuning): string {
+  return `--tpslimit ${tuning.tpslimit ?? "unlimited"} --transfers ${tuning.transfers}`;
+}
+
+/** Remember limits for the job's next runs */
+export function saveJobTuning(
+  jobId: number,
+  tuning: RcloneTuning,
+  runId: number,
+  rateLimitHits: number,
+  reason: JobTuningEntry["reason"]
+): void {
+  try {
+    setJobTuning(jobId, tuning, { run_id: runId, rate_limit_hits: rateLimitHits, reason });
+  } catch (err) {
+    console.error(`[tuning] Failed to save limits for job ${jobId}:`, err);
+  }
+}
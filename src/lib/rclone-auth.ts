@@ -0,0 +1,160 @@
+// ============================================================
+// rclone remote credentials
+// OAuth remotes (Google Drive) stop working once their token
+// expires or is revoked. Runs that hit it fail with reason
+// auth_expired (see executor/rclone); between runs the scheduler
+// probes the remotes of enabled jobs with `rclone about` (`lsd` for
+// backends without it) every remote_probe_interval_hours, so an
+// expiry is caught before the nightly run. The last known state per
+// remote lives in the remote_auth_state setting: AUTH_EXPIRED goes
+// out once when a remote stops authenticating, and a short note
+// once it works again.
+// ============================================================
+
+import { execFile } from "child_process";
+import { getAllJobs, getSetting, setSetting } from "./db";
+import { detectAuthError, getJobRemotes, getRcloneConfigPath } from "./executor/rclone";
+import { sendNotification } from "./channels";
+import { sendAuthExpiredNotification } from "./notifications";
+import type { Job, RemoteHealth } from "./types";
+
+const PROBE_TIMEOUT_MS = 60_000;
+
+type RemoteState = Pick<RemoteHealth, "status" | "checked_at" | "detail">;
+
+// A probe round takes a while; route handlers and the scheduler may
+// hold separate module copies, so the guard lives on globalThis
+const globalForProbe = globalThis as unknown as {
+  __remoteProbeRunning?: boolean;
+};
+
+function loadState(): Record<string, RemoteState> {
+  try {
+    const parsed = JSON.parse(getSetting("remote_auth_state") || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Enabled jobs' remotes → names of the jobs using them */
+function getRemoteJobs(): Map<string, string[]> {
+  const remotes = new Map<string, string[]>();
+  for (const job of getAllJobs()) {
+    if (!job.enabled) continue;
+    for (const remote of getJobRemotes(job)) remotes.set(remote, [...(remotes.get(remote) ?? []), job.name]);
+  }
+  return remotes;
+}
+
+/** Every remote an enabled job uses, with its last known state */
+export function getRemoteHealth(): RemoteHealth[] {
+  const state = loadState();
+  return [...getRemoteJobs().entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([remote, jobs]) => ({ remote, jobs, ...(state[remote] ?? { status: "unknown", checked_at: null, detail: "" }) }));
+}
+
+/**
+ * Store what was just learned about a remote and alert on the
+ * transitions. Resolves true when it sent AUTH_EXPIRED.
+ */
+async function updateRemote(remote: string, status: RemoteState["status"], detail: string, jobName: string | null): Promise<boolean> {
+  const state = loadState();
+  const previous = state[remote]?.status ?? "unknown";
+  // A network hiccup says nothing about the token — keep it expired until it works again
+  const next = status === "error" && previous === "expired" ? "expired" : status;
+  state[remote] = { status: next, checked_at: new Date().toISOString(), detail };
+  setSetting("remote_auth_state", JSON.stringify(state));
+
+  if (next === "expired" && previous !== "expired") {
+    console.log(`[auth] Remote "${remote}" rejected its credentials${jobName ? ` in a run of "${jobName}"` : ""}: ${detail}`);
+    await sendAuthExpiredNotification({ remote, jobName, detail });
+    return true;
+  }
+  if (next === "ok" && previous === "expired") {
+    console.log(`[auth] Remote "${remote}" authenticates again`);
+    const error = await sendNotification({
+      event: "AUTH_EXPIRED",
+      severity: "info",
+      title: `✅ Remote Reconnected: ${remote}`,
+      body: "rclone can authenticate again.",
+    });
+    if (error) console.error(`[auth] Reconnected notification not sent: ${error}`);
+  }
+  return false;
+}
+
+/**
+ * A run of `jobName` failed because `remote` rejected its credentials.
+ * Resolves true when this sent AUTH_EXPIRED — a remote that was already
+ * known to be expired doesn't alert again.
+ */
+export function reportAuthExpired(remote: string, jobName: string, detail: string): Promise<boolean> {
+  return updateRemote(remote, "expired", detail, jobName);
+}
+
+/** A run of the job finished fine, so the remotes it used authenticate */
+export async function reportRemotesOk(job: Job): Promise<void> {
+  for (const remote of getJobRemotes(job)) await updateRemote(remote, "ok", "", job.name);
+}
+
+// ── Probe ───────────────────────────────────────────────────
+
+function runRclone(args: string[]): Promise<{ ok: boolean; output: string }> {
+  const config = getRcloneConfigPath();
+  return new Promise((resolve) => {
+    execFile(
+      "rclone",
+      [...args, "--config", config],
+      { timeout: PROBE_TIMEOUT_MS, env: { ...process.env, RCLONE_CONFIG: config } },
+      (err, _stdout, stderr) => resolve({ ok: !err, output: String(stderr || err?.message || "").trim() }),
+    );
+  });
+}
+
+/** Check one remote: `rclone about`, or `rclone lsd` for backends that can't report usage */
+async function probeRemote(remote: string): Promise<{ status: RemoteState["status"]; detail: string }> {
+  let result = await runRclone(["about", `${remote}:`]);
+  if (!result.ok && /doesn't support about|not supported/i.test(result.output)) {
+    result = await runRclone(["lsd", `${remote}:`]);
+  }
+  if (result.ok) return { status: "ok", detail: "" };
+
+  const lines = result.output.split("\n").map((line) => line.trim()).filter(Boolean);
+  for (const line of lines) {
+    const auth = detectAuthError(line);
+    if (auth) return { status: "expired", detail: auth };
+  }
+  const last = lines[lines.length - 1] ?? "rclone exited with an error";
+  return { status: "error", detail: last.length > 200 ? last.slice(0, 200) + "…" : last };
+}
+
+/**
+ * Probe the remotes of enabled jobs whose last check is older than
+ * `maxAgeMs` (0 = all of them). Resolves with the resulting health.
+ */
+export async function probeRemotes(maxAgeMs = 0): Promise<RemoteHealth[]> {
+  if (globalForProbe.__remoteProbeRunning) return getRemoteHealth();
+  globalForProbe.__remoteProbeRunning = true;
+  try {
+    const state = loadState();
+    for (const remote of getRemoteJobs().keys()) {
+      const checkedAt = state[remote]?.checked_at;
+      if (maxAgeMs > 0 && checkedAt && Date.now() - Date.parse(checkedAt) < maxAgeMs) continue;
+      const { status, detail } = await probeRemote(remote);
+      console.log(`[auth] Probed remote "${remote}": ${status}${detail ? ` (${detail})` : ""}`);
+      await updateRemote(remote, status, detail, null);
+    }
+  } finally {
+    globalForProbe.__remoteProbeRunning = false;
+  }
+  return getRemoteHealth();
+}
+
+/** Scheduler hook: probe the remotes that are due; remote_probe_interval_hours = 0 turns it off */
+export function checkRemoteAuth(): void {
+  const hours = Number(getSetting("remote_probe_interval_hours") || "6");
+  if (!Number.isFinite(hours) || hours <= 0) return;
+  probeRemotes(hours * 3600_000).catch((err) => console.error("[auth] Remote probe failed:", err));
+}
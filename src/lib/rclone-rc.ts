@@ -0,0 +1,96 @@
+// ============================================================
+// rclone remote control
+// Backup runs start rclone with --rc on a free port bound to
+// 127.0.0.1, so a live transfer can be throttled or unthrottled
+// (core/bwlimit) without restarting it. Each run gets its own rc
+// password, so other local users can't drive it.
+// ============================================================
+
+import crypto from "crypto";
+import net from "net";
+import { getRunById } from "./db";
+import { getRcEndpoint, getRunningRunIds, type RcEndpoint } from "./process-manager";
+
+const RC_TIMEOUT_MS = 5000;
+const RC_USER = "backup-control";
+
+/** Ask the OS for a free local port */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      server.close(() => (port ? resolve(port) : reject(new Error("No free port"))));
+    });
+  });
+}
+
+/** A fresh password for one run's rc server */
+export function generateRcPassword(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * rclone flags and environment for a private rc server on the given
+ * port. The password goes through RCLONE_RC_PASS (same as --rc-pass)
+ * so it doesn't show up in `ps` or the run log.
+ */
+export function rcFlags(rc: RcEndpoint): { args: string[]; env: Record<string, string> } {
+  return {
+    args: ["--rc", "--rc-addr", `127.0.0.1:${rc.port}`, "--rc-user", RC_USER],
+    env: { RCLONE_RC_PASS: rc.password },
+  };
+}
+
+async function rcCall<T>(rc: RcEndpoint, command: string, params: Record<string, unknown> = {}): Promise<T> {
+  const auth = Buffer.from(`${RC_USER}:${rc.password}`, "utf8").toString("base64");
+  const res = await fetch(`http://127.0.0.1:${rc.port}/${command}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Basic ${auth}` },
+    body: JSON.stringify(params),
+    signal: AbortSignal.timeout(RC_TIMEOUT_MS),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `rclone rc ${command} failed with HTTP ${res.status}`);
+  return data as T;
+}
+
+// ── Bandwidth ────────────────────────────────────────────────
+
+export interface BandwidthResult {
+  run_id: number;
+  ok: boolean;
+  rate?: string;
+  error?: string;
+  /** rclone could not be reached or refused the call, as opposed to the run not being throttleable */
+  rcFailed?: boolean;
+}
+
+/** Set (or with `rate` omitted, read) the bandwidth limit of a running run */
+export async function setRunBandwidth(runId: number, rate?: string): Promise<BandwidthResult> {
+  const run = getRunById(runId);
+  if (!run) return { run_id: runId, ok: false, error: "Run not found" };
+  // A suspended process can't answer
+  if (run.status === "paused") return { run_id: runId, ok: false, error: "Run is paused" };
+  if (run.status !== "running") return { run_id: runId, ok: false, error: "Run is not currently running" };
+
+  const rc = getRcEndpoint(runId);
+  if (!rc) return { run_id: runId, ok: false, error: "This run has no rclone remote control" };
+
+  try {
+    const result = await rcCall<{ rate: string }>(rc, "core/bwlimit", rate ? { rate } : {});
+    if (rate) console.log(`[rclone-rc] Run ${runId} bandwidth set to ${result.rate}`);
+    return { run_id: runId, ok: true, rate: result.rate };
+  } catch (err) {
+    return { run_id: runId, ok: false, rcFailed: true, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Apply a bandwidth limit to every running run that has remote control */
+export async function setAllRunsBandwidth(rate: string): Promise<BandwidthResult[]> {
+  const runIds = getRunningRunIds().filter((id) => getRcEndpoint(id) != null);
+  return Promise.all(runIds.map((id) => setRunBandwidth(id, rate)));
+}
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getRetryDelaySeconds, parseRetryExitCodes, planRetry, type FailureInfo } from "./retry";
+import type { Job, Run } from "./types";
+
+const job = (policy: Partial<Job>) => ({
+  retry_max_attempts: 3,
+  retry_backoff_seconds: 60,
+  retry_exit_codes: "",
+  retry_on_rate_limit: 0,
+  ...policy,
+}) as Job;
+const attempt = (n: number) => ({ attempt: n }) as Run;
+const failure = (info: Partial<FailureInfo> = {}): FailureInfo => ({
+  exitCode: 1,
+  rateLimitHits: 0,
+  spawnFailed: false,
+  authExpired: false,
+  ...info,
+});
+
+test("parseRetryExitCodes keeps the numbers of a loose list", () => {
+  assert.deepEqual(parseRetryExitCodes("1, 5,  7"), [1, 5, 7]);
+  assert.deepEqual(parseRetryExitCodes("3 x 9"), [3, 9]);
+  assert.deepEqual(parseRetryExitCodes(""), []);
+});
+
+test("backoff doubles per attempt and is capped at six hours", () => {
+  assert.equal(getRetryDelaySeconds(job({}), 1), 60);
+  assert.equal(getRetryDelaySeconds(job({}), 2), 120);
+  assert.equal(getRetryDelaySeconds(job({}), 4), 480);
+  assert.equal(getRetryDelaySeconds(job({ retry_backoff_seconds: 3600 }), 10), 6 * 3600);
+  assert.equal(getRetryDelaySeconds(job({ retry_backoff_seconds: 0 }), 3), 0);
+});
+
+test("planRetry stops at the last attempt", () => {
+  assert.equal(planRetry(job({}), attempt(1), failure()), 60);
+  assert.equal(planRetry(job({}), attempt(2), failure()), 120);
+  assert.equal(planRetry(job({}), attempt(3), failure()), null);
+  assert.equal(planRetry(job({ retry_max_attempts: 0 }), attempt(1), failure()), null);
+});
+
+test("failures a retry can't fix are not retried", () => {
+  assert.equal(planRetry(job({}), attempt(1), failure({ spawnFailed: true })), null);
+  assert.equal(planRetry(job({}), attempt(1), failure({ authExpired: true })), null);
+});
+
+test("with exit codes listed, only those codes or rate limiting are retried", () => {
+  const policy = job({ retry_exit_codes: "5, 7" });
+  assert.equal(planRetry(policy, attempt(1), failure({ exitCode: 7 })), 60);
+  assert.equal(planRetry(policy, attempt(1), failure({ exitCode: 1 })), null);
+  assert.equal(planRetry(policy, attempt(1), failure({ exitCode: null })), null);
+  assert.equal(planRetry(policy, attempt(1), failure({ exitCode: 1, rateLimitHits: 4 })), null);
+  const rateLimited = job({ retry_exit_codes: "5", retry_on_rate_limit: 1 });
+  assert.equal(planRetry(rateLimited, attempt(1), failure({ exitCode: 1, rateLimitHits: 4 })), 60);
+});
@@ -0,0 +1,75 @@
+// ============================================================
+// Retry policy
+// A failed run is queued again after an exponential backoff while
+// the job's policy allows it. Retries point at the first attempt via
+// parent_run_id and carry an attempt number; only the final attempt
+// of a chain sends a notification.
+// ============================================================
+
+import { createQueuedRun } from "./db";
+import { publishRunEvent } from "./run-events";
+import type { Job, Run } from "./types";
+
+/** Backoff doubles per attempt but never waits longer than this */
+const MAX_BACKOFF_SECONDS = 6 * 3600;
+
+export interface FailureInfo {
+  /** Exit code of the main command; null when it never exited normally */
+  exitCode: number | null;
+  rateLimitHits: number;
+  /** The command could not be started at all — retrying won't help */
+  spawnFailed: boolean;
+  /** The remote rejected its credentials — neither will it until someone reconnects it */
+  authExpired: boolean;
+}
+
+/** "1, 5,  7" → [1, 5, 7]; anything unparseable is dropped */
+export function parseRetryExitCodes(value: string): number[] {
+  return value
+    .split(/[\s,]+/)
+    .map((part) => parseInt(part, 10))
+    .filter((code) => Number.isFinite(code));
+}
+
+/** Delay before attempt `attempt + 1`, given that `attempt` just failed */
+export function getRetryDelaySeconds(job: Job, attempt: number): number {
+  const base = Math.max(0, job.retry_backoff_seconds || 0);
+  return Math.min(base * 2 ** (attempt - 1), MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * Seconds until the failed run should be retried, or null when the
+ * policy says this was the final attempt.
+ */
+export function planRetry(job: Job, run: Run, failure: FailureInfo): number | null {
+  if (run.attempt >= (job.retry_max_attempts || 1)) return null;
+  if (failure.spawnFailed || failure.authExpired) return null;
+
+  const codes = parseRetryExitCodes(job.retry_exit_codes || "");
+  if (codes.length > 0) {
+    const codeMatches = failure.exitCode != null && codes.includes(failure.exitCode);
+    const rateLimited = !!job.retry_on_rate_limit && failure.rateLimitHits > 0;
+    if (!codeMatches && !rateLimited) return null;
+  }
+  return getRetryDelaySeconds(job, run.attempt);
+}
+
+/** Queue the next attempt of a failed run, due after `delaySeconds` */
+export function scheduleRetry(job: Job, run: Run, delaySeconds: number): Run {
+  const notBefore = new Date(Date.now() + delaySeconds * 1000).toISOString().replace(/\.\d{3}Z$/, "Z");
+  let options: Record<string, unknown> = {};
+  try {
+    options = JSON.parse(run.options || "{}");
+  } catch {
+    // Malformed options — retry with defaults
+  }
+
+  const retry = createQueuedRun(job.id, run.run_type, options, {
+    parent_run_id: run.parent_run_id ?? run.id,
+    attempt: run.attempt + 1,
+    not_before: notBefore,
+  });
+  console.log(`[retry] Run ${run.id} of "${job.name}" failed — attempt ${retry.attempt} queued as run ${retry.id}, due ${notBefore}`);
+  publishRunEvent({ type: "queued", run_id: retry.id, job_id: job.id, run_type: retry.run_type, queue_position: null });
+  return retry;
+}
@@ -0,0 +1,47 @@
+// ============================================================
+// Pause / resume of running runs
+// The process is suspended with SIGSTOP — it keeps its open
+// connections and continues exactly where it was on SIGCONT — and
+// the run is marked "paused" so the UI shows it. Used by the
+// pause/resume routes and by the scheduler's blackout window.
+// Immich DB backups can't be paused: SIGSTOP only reaches the local
+// `docker exec`, while pg_dump keeps running inside the container.
+// Job hooks aren't paused either: their timeout keeps counting, so a
+// suspended hook would fail the run. The blackout window tries again
+// on its next check, once the transfer itself is running.
+// ============================================================
+
+import { getJobById, getRunById, markRunPaused, markRunResumed } from "./db";
+import { isHookRunning, resumeProcess, suspendProcess } from "./process-manager";
+import { publishRunEvent } from "./run-events";
+import type { PauseReason } from "./types";
+
+/** Pause a running run. Returns why it couldn't be paused, or null on success. */
+export function pauseRun(runId: number, summary = "Paused by user.", pausedBy: PauseReason = "user"): string | null {
+  const run = getRunById(runId);
+  if (!run) return "Run not found";
+  if (run.status !== "running") return "Run is not currently running";
+  if (getJobById(run.job_id)?.type === "immich_db_backup") {
+    return "Immich database backups can't be paused — pg_dump would keep running inside the container";
+  }
+  if (isHookRunning(runId)) return "A job hook is running — pause once the transfer has started";
+  if (!suspendProcess(runId)) return "Process not found in memory";
+
+  markRunPaused(runId, summary, pausedBy);
+  publishRunEvent({ type: "paused", run_id: runId, job_id: run.job_id, summary });
+  console.log(`[run-control] Run ${runId} paused`);
+  return null;
+}
+
+/** Resume a paused run. Returns why it couldn't be resumed, or null on success. */
+export function resumeRun(runId: number): string | null {
+  const run = getRunById(runId);
+  if (!run) return "Run not found";
+  if (run.status !== "paused") return "Run is not paused";
+  if (!resumeProcess(runId)) return "Process not found in memory";
+
+  markRunResumed(runId, "Resumed...");
+  publishRunEvent({ type: "resumed", run_id: runId, job_id: run.job_id });
+  console.log(`[run-control] Run ${runId} resumed`);
+  return null;
+}
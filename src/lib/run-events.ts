@@ -0,0 +1,38 @@
+// ============================================================
+// In-process run event bus
+// The queue and executor publish run lifecycle and progress events;
+// /api/events relays them to browsers as server-sent events.
+// ============================================================
+
+import { EventEmitter } from "events";
+import type { RunEvent } from "./types";
+
+type ProgressEvent = Extract<RunEvent, { type: "progress" }>;
+
+// Kept on globalThis: publishers (instrumentation's queue) and the SSE
+// route may live in separately bundled module instances
+const globalForEvents = globalThis as unknown as {
+  __runEvents?: EventEmitter;
+  __runLatestProgress?: Map<number, ProgressEvent>;
+};
+const emitter = (globalForEvents.__runEvents ??= new EventEmitter().setMaxListeners(0));
+const latestProgress = (globalForEvents.__runLatestProgress ??= new Map<number, ProgressEvent>());
+
+export function publishRunEvent(event: RunEvent): void {
+  if (event.type === "progress") latestProgress.set(event.run_id, event);
+  if (event.type === "finished") latestProgress.delete(event.run_id);
+  emitter.emit("run", event);
+}
+
+/** Returns an unsubscribe function */
+export function subscribeRunEvents(listener: (event: RunEvent) => void): () => void {
+  emitter.on("run", listener);
+  return () => {
+    emitter.off("run", listener);
+  };
+}
+
+/** Last progress event of every active run, sent to clients when they connect */
+export function getLatestProgress(): ProgressEvent[] {
+  return [...latestProgress.values()];
+}
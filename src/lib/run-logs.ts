@@ -0,0 +1,252 @@
+// ============================================================
+// Full run logs on disk
+// data/logs/run-<id>.log is appended to while the run is active and
+// gzip-compressed to run-<id>.log.gz once it finishes. Offsets used
+// by the read helpers always refer to the uncompressed text.
+// Retention: Settings → Run Logs (max age in days, total size cap).
+// ============================================================
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+import { getSetting } from "./db";
+
+const LOG_DIR = path.join(process.cwd(), "data", "logs");
+const LOG_FILE_RE = /^run-(\d+)\.log(\.gz)?$/;
+
+// Kept on globalThis for the same reason as the process registry: the
+// retention sweep must not compress a log another bundle is still writing
+const globalForLogs = globalThis as unknown as { __openRunLogs?: Set<number> };
+const openLogs = (globalForLogs.__openRunLogs ??= new Set<number>());
+
+export interface RunLogWriter {
+  write(text: string): void;
+  /** Close, compress and apply retention. Never throws. */
+  close(): Promise<void>;
+}
+
+export interface RunLogChunk {
+  text: string;
+  /** Byte offset of `text` in the full log */
+  offset: number;
+  /** Offset to continue reading from */
+  next_offset: number;
+  /** Total size of the log so far (uncompressed) */
+  size: number;
+  compressed: boolean;
+}
+
+function plainPath(runId: number): string {
+  return path.join(LOG_DIR, `run-${runId}.log`);
+}
+
+function gzPath(runId: number): string {
+  return path.join(LOG_DIR, `run-${runId}.log.gz`);
+}
+
+// ── Writing ──────────────────────────────────────────────────
+
+export function openRunLog(runId: number): RunLogWriter {
+  let fd: number | null = null;
+  try {
+    fs.mkdirSync(LOG_DIR, { recursive: true });
+    fd = fs.openSync(plainPath(runId), "a");
+    openLogs.add(runId);
+  } catch (err) {
+    console.error(`[logs] Cannot open log for run ${runId}:`, err);
+  }
+
+  return {
+    write(text) {
+      if (fd === null) return;
+      try {
+        fs.writeSync(fd, text);
+      } catch (err) {
+        console.error(`[logs] Write failed for run ${runId}, disabling log:`, err);
+        fs.closeSync(fd);
+        fd = null;
+      }
+    },
+
+    async close() {
+      if (fd !== null) {
+        fs.closeSync(fd);
+        fd = null;
+      }
+      openLogs.delete(runId);
+      try {
+        await compressRunLog(runId);
+        enforceLogRetention();
+      } catch (err) {
+        console.error(`[logs] Failed to finalize log for run ${runId}:`, err);
+      }
+    },
+  };
+}
+
+async function compressRunLog(runId: number): Promise<void> {
+  const src = plainPath(runId);
+  if (!fs.existsSync(src)) return;
+  const tmp = gzPath(runId) + ".tmp";
+  await pipeline(fs.createReadStream(src), zlib.createGzip(), fs.createWriteStream(tmp));
+  fs.renameSync(tmp, gzPath(runId));
+  fs.rmSync(src, { force: true });
+}
+
+/**
+ * Delete logs older than log_retention_days, then the oldest ones until
+ * the directory fits in log_retention_max_mb. Plain logs left behind by
+ * a crash are compressed on the way.
+ */
+export function enforceLogRetention(): void {
+  if (!fs.existsSync(LOG_DIR)) return;
+
+  const maxAgeDays = parseInt(getSetting("log_retention_days") || "30", 10);
+  const maxMb = parseInt(getSetting("log_retention_max_mb") || "1024", 10);
+  const now = Date.now();
+
+  const files: { name: string; runId: number; size: number; mtime: number }[] = [];
+  for (const name of fs.readdirSync(LOG_DIR)) {
+    const match = name.match(LOG_FILE_RE);
+    if (!match) continue;
+    const runId = parseInt(match[1], 10);
+    if (openLogs.has(runId)) continue;
+
+    const stat = fs.statSync(path.join(LOG_DIR, name));
+    if (!match[2]) {
+      compressRunLog(runId).catch((err) => console.error(`[logs] Failed to compress ${name}:`, err));
+      continue;
+    }
+    files.push({ name, runId, size: stat.size, mtime: stat.mtimeMs });
+  }
+
+  files.sort((a, b) => a.mtime - b.mtime);
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+
+  for (const file of files) {
+    const tooOld = maxAgeDays > 0 && now - file.mtime > maxAgeDays * 86400_000;
+    const overCap = maxMb > 0 && total > maxMb * 1024 * 1024;
+    if (!tooOld && !overCap) continue;
+    try {
+      fs.rmSync(path.join(LOG_DIR, file.name));
+      total -= file.size;
+    } catch (err) {
+      console.error(`[logs] Failed to remove ${file.name}:`, err);
+    }
+  }
+}
+
+// ── Reading ──────────────────────────────────────────────────
+
+export function hasRunLog(runId: number): boolean {
+  return fs.existsSync(plainPath(runId)) || fs.existsSync(gzPath(runId));
+}
+
+/** Uncompressed log content as a stream, or null if the run has no log on disk */
+export function openRunLogStream(runId: number): Readable | null {
+  if (fs.existsSync(plainPath(runId))) return fs.createReadStream(plainPath(runId));
+  if (fs.existsSync(gzPath(runId))) return fs.createReadStream(gzPath(runId)).pipe(zlib.createGunzip());
+  return null;
+}
+
+/**
+ * Up to `limit` bytes starting at `offset`. Unless the end of the log is
+ * reached the text is cut after the last newline, so lines are never split.
+ */
+export async function readRunLogRange(runId: number, offset: number, limit: number): Promise<RunLogChunk | null> {
+  const plain = plainPath(runId);
+  if (fs.existsSync(plain)) {
+    const fd = fs.openSync(plain, "r");
+    try {
+      const size = fs.fstatSync(fd).size;
+      const start = Math.min(Math.max(0, offset), size);
+      const buf = Buffer.alloc(Math.min(limit, size - start));
+      const read = fs.readSync(fd, buf, 0, buf.length, start);
+      return toChunk(buf.subarray(0, read), start, size, false);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  if (!fs.existsSync(gzPath(runId))) return null;
+
+  // Compressed: stream through, keeping only the requested window
+  const parts: Buffer[] = [];
+  let collected = 0;
+  let pos = 0;
+  for await (const chunk of openRunLogStream(runId)!) {
+    const buf = chunk as Buffer;
+    const chunkStart = pos;
+    pos += buf.length;
+    if (pos <= offset || collected >= limit) continue;
+    const from = Math.max(0, offset - chunkStart);
+    const piece = buf.subarray(from, from + (limit - collected));
+    parts.push(piece);
+    collected += piece.length;
+  }
+  const start = Math.min(Math.max(0, offset), pos);
+  return toChunk(Buffer.concat(parts), start, pos, true);
+}
+
+/** The last `lines` lines of the log */
+export async function readRunLogTail(runId: number, lines: number): Promise<RunLogChunk | null> {
+  const plain = plainPath(runId);
+  if (fs.existsSync(plain)) {
+    // Read backwards in growing blocks until enough newlines are found
+    const fd = fs.openSync(plain, "r");
+    try {
+      const size = fs.fstatSync(fd).size;
+      let blockSize = 64 * 1024;
+      for (;;) {
+        const start = Math.max(0, size - blockSize);
+        const buf = Buffer.alloc(size - start);
+        fs.readSync(fd, buf, 0, buf.length, start);
+        const text = buf.toString("utf-8");
+        const all = text.split("\n");
+        if (all.length > lines + 1 || start === 0) {
+          const kept = start === 0 ? all : all.slice(1);
+          const tailText = kept.slice(-(lines + 1)).join("\n");
+          const tailStart = size - Buffer.byteLength(tailText);
+          return { text: tailText, offset: tailStart, next_offset: size, size, compressed: false };
+        }
+        blockSize *= 4;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  const stream = openRunLogStream(runId);
+  if (!stream) return null;
+
+  const kept: string[] = [];
+  let pending = "";
+  let size = 0;
+  for await (const chunk of stream) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    const parts = (pending + buf.toString("utf-8")).split("\n");
+    pending = parts.pop() ?? "";
+    kept.push(...parts);
+    if (kept.length > lines) kept.splice(0, kept.length - lines);
+  }
+  const tailText = kept.join("\n") + (kept.length > 0 ? "\n" : "") + pending;
+  return { text: tailText, offset: size - Buffer.byteLength(tailText), next_offset: size, size, compressed: true };
+}
+
+function toChunk(buf: Buffer, start: number, size: number, compressed: boolean): RunLogChunk {
+  let end = buf.length;
+  if (start + buf.length < size) {
+    const lastNewline = buf.lastIndexOf(0x0a);
+    if (lastNewline >= 0) end = lastNewline + 1;
+  }
+  return {
+    text: buf.subarray(0, end).toString("utf-8"),
+    offset: start,
+    next_offset: start + end,
+    size,
+    compressed,
+  };
+}
@@ -0,0 +1,218 @@
+// ============================================================
+// Persistent run queue
+// Every run (manual, scheduled, verify) is inserted as "queued" and
+// started by the dispatcher once fewer than max_concurrent_jobs runs
+// are active. Queued rows live in SQLite, so they survive a restart.
+// Retries carry a not_before time and are skipped until it passes.
+// Runs whose supervised process survived a restart are reattached.
+// When a job's regular run finishes, runs of the jobs that depend on
+// it are queued (job_dependencies, validated in lib/dependencies).
+// Backups onto a critically full disk are skipped (lib/disks).
+// ============================================================
+
+import {
+  createQueuedRun,
+  getQueuedRuns,
+  countRunningRuns,
+  markRunStarted,
+  getJobById,
+  getRunById,
+  getSetting,
+  completeRun,
+  getActiveRuns,
+  recoverStaleRunningRuns,
+  getJobDependents,
+  createSkippedRun,
+} from "./db";
+import { executeRun, getJobConfigError, reattachRun, type RunOptions } from "./executor";
+import type { RunResult } from "./executor/types";
+import { publishRunEvent } from "./run-events";
+import { sendRunSkippedNotification } from "./notifications";
+import { getDiskBlockReason } from "./disks";
+import { hasExitStatus, isSupervisedAlive, terminateSupervised } from "./supervisor";
+import type { DependencyTrigger, Job, Run, RunStatus, RunType } from "./types";
+
+// Kept on globalThis for the same reason as the process registry:
+// route handlers and instrumentation may hold separate module copies
+const globalForQueue = globalThis as unknown as {
+  __queueWakeTimer?: ReturnType<typeof setTimeout> | null;
+};
+
+export function getMaxConcurrentJobs(): number {
+  const value = parseInt(getSetting("max_concurrent_jobs") || "1", 10);
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+/** Manual and scheduled runs of a check job are verifications; everything else is a backup */
+export function getDefaultRunType(job: Job): RunType {
+  return job.type === "rclone_check" ? "verify" : "backup";
+}
+
+/** Queue a run and immediately try to start it. Returns the run as it is after dispatch. */
+export function enqueueRun(jobId: number, runType: RunType = "backup", options: RunOptions = {}): Run {
+  const run = createQueuedRun(jobId, runType, { ...options });
+  console.log(`[queue] Run ${run.id} (job=${jobId}, ${runType}) queued`);
+  publishRunEvent({
+    type: "queued",
+    run_id: run.id,
+    job_id: jobId,
+    run_type: runType,
+    queue_position: getRunById(run.id)?.queue_position ?? null,
+  });
+  dispatchQueue();
+  return getRunById(run.id) ?? run;
+}
+
+/**
+ * Start queued runs (oldest first) while slots are free. Synchronous up to
+ * the point each run is marked running, so two calls can't overbook slots.
+ */
+export function dispatchQueue(): void {
+  const max = getMaxConcurrentJobs();
+  let running = countRunningRuns();
+  const now = Date.now();
+  let nextDue: number | null = null;
+
+  for (const queued of getQueuedRuns()) {
+    const dueAt = queued.not_before ? Date.parse(queued.not_before) : 0;
+    if (dueAt > now) {
+      nextDue = nextDue == null ? dueAt : Math.min(nextDue, dueAt);
+      continue;
+    }
+    if (running >= max) continue;
+
+    const job = getJobById(queued.job_id);
+    if (!job) {
+      const summary = "Cancelled: job no longer exists.";
+      completeRun(queued.id, { status: "cancelled", short_summary: summary });
+      publishRunEvent({ type: "finished", run_id: queued.id, job_id: queued.job_id, status: "cancelled", summary });
+      continue;
+    }
+
+    const diskBlock = getDiskBlockReason(job, queued.run_type);
+    if (diskBlock) {
+      const summary = `Skipped: ${diskBlock}.`;
+      console.log(`[queue] Run ${queued.id} of "${job.name}" skipped: ${diskBlock}`);
+      completeRun(queued.id, { status: "skipped", short_summary: summary });
+      publishRunEvent({ type: "finished", run_id: queued.id, job_id: job.id, status: "skipped", summary });
+      sendRunSkippedNotification({ jobId: job.id, jobName: job.name, summary })
+        .catch((err) => console.error(`[queue] Skipped run notification for "${job.name}" failed:`, err));
+      continue;
+    }
+
+    const run = markRunStarted(queued.id);
+    if (!run) continue;
+    running++;
+    publishRunEvent({ type: "started", run_id: run.id, job_id: job.id, run_type: run.run_type });
+
+    console.log(`[queue] Starting run ${run.id} for job "${job.name}" (${running}/${max} slots)`);
+    executeRun(job, run, parseOptions(run))
+      .then((result) => queueDependentRuns(job, run, result))
+      .catch((err) => console.error(`[queue] Run ${run.id} crashed:`, err))
+      .finally(() => dispatchQueue());
+  }
+
+  scheduleWake(nextDue);
+}
+
+/** Re-run the dispatcher when the earliest waiting retry becomes due */
+function scheduleWake(dueAt: number | null): void {
+  if (globalForQueue.__queueWakeTimer) clearTimeout(globalForQueue.__queueWakeTimer);
+  globalForQueue.__queueWakeTimer = null;
+  if (dueAt == null) return;
+  const delay = Math.max(1000, dueAt - Date.now() + 500);
+  globalForQueue.__queueWakeTimer = setTimeout(() => dispatchQueue(), delay);
+  globalForQueue.__queueWakeTimer.unref?.();
+}
+
+/** Remove a run from the queue before it started */
+export function cancelQueuedRun(runId: number): boolean {
+  const queued = getQueuedRuns().find((r) => r.id === runId);
+  if (!queued) return false;
+  const summary = "Cancelled by user while waiting in queue.";
+  completeRun(runId, { status: "cancelled", short_summary: summary });
+  publishRunEvent({ type: "finished", run_id: runId, job_id: queued.job_id, status: "cancelled", summary });
+  return true;
+}
+
+/**
+ * On startup: reattach to running/paused runs whose supervised process is
+ * still alive or exited while the server was down, and cancel the rest.
+ * Call before dispatchQueue() so reattached runs keep their slots.
+ */
+export function recoverActiveRuns(): { reattached: number; cancelled: number } {
+  const reattached: number[] = [];
+
+  for (const run of getActiveRuns()) {
+    if (!run.pid || !run.output_path) continue;
+    const alive = isSupervisedAlive(run.pid, run.output_path);
+    if (!alive && !hasExitStatus(run.output_path)) continue;
+
+    const job = getJobById(run.job_id);
+    const resumed = job ? reattachRun(job, run, parseOptions(run)) : null;
+    if (!resumed) {
+      // Can't be tracked any more — don't leave it running unseen
+      if (alive) terminateSupervised(run.pid);
+      continue;
+    }
+    reattached.push(run.id);
+    console.log(`[queue] Reattached run ${run.id} (pid ${run.pid}${alive ? "" : ", already exited"})`);
+    resumed
+      .then((result) => queueDependentRuns(job!, run, result))
+      .catch((err) => console.error(`[queue] Run ${run.id} crashed:`, err))
+      .finally(() => dispatchQueue());
+  }
+
+  return { reattached: reattached.length, cancelled: recoverStaleRunningRuns(reattached) };
+}
+
+// ── Job chains ──────────────────────────────────────────────
+
+/** Whether a finished run with `status` fires an edge with `trigger`. Cancelled runs never do. */
+function dependencyMatches(trigger: DependencyTrigger, status: RunStatus): boolean {
+  if (status === "cancelled") return false;
+  if (trigger === "always") return true;
+  if (trigger === "success") return status === "success";
+  return status === "failure" || status === "timed_out";
+}
+
+/**
+ * Queue the runs of jobs that depend on the finished run's job. Only a
+ * job's regular run passes the chain on, and a failure that will be
+ * retried waits for its final attempt. The caller dispatches afterwards.
+ */
+function queueDependentRuns(job: Job, run: Run, result: RunResult): void {
+  if (result.retrying || run.run_type !== getDefaultRunType(job)) return;
+
+  for (const dep of getJobDependents(job.id)) {
+    if (!dependencyMatches(dep.trigger, result.status)) continue;
+    const target = getJobById(dep.job_id);
+    if (!target?.enabled) {
+      console.log(`[queue] Skipping chained run of disabled job ${dep.job_id} after run ${run.id}`);
+      continue;
+    }
+    const configError = getJobConfigError(target, dep.run_type);
+    if (configError) {
+      const skipped = createSkippedRun(target.id, `Skipped: ${configError}`, dep.run_type);
+      publishRunEvent({ type: "finished", run_id: skipped.id, job_id: target.id, status: "skipped", summary: skipped.short_summary });
+      sendRunSkippedNotification({ jobId: target.id, jobName: target.name, summary: skipped.short_summary })
+        .catch((err) => console.error(`[queue] Skipped run notification for "${target.name}" failed:`, err));
+      continue;
+    }
+
+    const queued = createQueuedRun(target.id, dep.run_type, {}, undefined, {
+      run_id: run.id,
+      summary: `Triggered by "${job.name}" (${result.status}), waiting in queue...`,
+    });
+    console.log(`[queue] Run ${queued.id} (job=${target.id}, ${dep.run_type}) queued after run ${run.id} of "${job.name}"`);
+    publishRunEvent({ type: "queued", run_id: queued.id, job_id: target.id, run_type: dep.run_type, queue_position: null });
+  }
+}
+
+function parseOptions(run: Run): RunOptions {
+  try {
+    return JSON.parse(run.options || "{}");
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { isInBlackout, parseTimeOfDay } from "./scheduler";
+
+const at = (time: string) => {
+  const [hour, minute] = time.split(":").map(Number);
+  return { hour, minute };
+};
+
+test("parseTimeOfDay reads HH:MM and rejects anything else", () => {
+  assert.equal(parseTimeOfDay("00:00"), 0);
+  assert.equal(parseTimeOfDay("7:05"), 425);
+  assert.equal(parseTimeOfDay(" 23:59 "), 1439);
+  assert.equal(parseTimeOfDay("24:00"), null);
+  assert.equal(parseTimeOfDay("12:60"), null);
+  assert.equal(parseTimeOfDay("noon"), null);
+});
+
+test("a same-day window includes its start and excludes its end", () => {
+  const window = { startMin: 18 * 60, endMin: 23 * 60 };
+  assert.equal(isInBlackout(window, at("17:59")), false);
+  assert.equal(isInBlackout(window, at("18:00")), true);
+  assert.equal(isInBlackout(window, at("22:59")), true);
+  assert.equal(isInBlackout(window, at("23:00")), false);
+});
+
+test("a window wrapping past midnight covers both sides of it", () => {
+  const window = { startMin: 22 * 60, endMin: 2 * 60 };
+  assert.equal(isInBlackout(window, at("21:59")), false);
+  assert.equal(isInBlackout(window, at("22:00")), true);
+  assert.equal(isInBlackout(window, at("00:30")), true);
+  assert.equal(isInBlackout(window, at("01:59")), true);
+  assert.equal(isInBlackout(window, at("02:00")), false);
+  assert.equal(isInBlackout(window, at("12:00")), false);
+});
@@ -1,25 +1,61 @@
 /**
  * Background scheduler — checks every 60 seconds which jobs need to run
- * based on their schedule string, then triggers them via the local API.
+ * based on their schedule string, then queues them in-process via the run queue.
  *
  * All time comparisons are done in the user's configured timezone
  * (Settings → Timezone). No complex UTC↔TZ conversion needed.
+ *
+ * Besides its regular schedule, a backup job can have verify schedules:
+ * a size/modtime check and a --checksum check, each tracked against the
+ * job's last verify run of the same kind.
+ *
+ * Once a day, at daily_digest_time, it also sends the daily digest.
+ * Every check also re-measures the configured disks (lib/disks) and
+ * probes rclone remotes whose credentials are due a check (lib/rclone-auth).
+ *
+ * Scheduled (not manual) runs respect the blackout window from Settings:
+ * due jobs are either deferred until the window ends (and then started
+ * even if their schedule no longer reads as due) or recorded as skipped,
+ * and running jobs can optionally be paused for its duration.
  */
 
-import { getAllJobs, getSetting, getDb } from "./db";
-import type { Job } from "./types";
-import { isProcessRunning } from "./process-manager";
+import { getAllJobs, getSetting, setSetting, getDb, createSkippedRun, getBlackoutPausedRunIds } from "./db";
+import type { Job, MissedSchedule, RunType } from "./types";
+import { isProcessRunning, getRunningRunIds } from "./process-manager";
+import { pauseRun, resumeRun } from "./run-control";
+import { getJobConfigError } from "./executor";
+import { enqueueRun, getDefaultRunType } from "./run-queue";
+import type { RunOptions } from "./executor";
+import { publishRunEvent } from "./run-events";
+import { looksLikeCron, parseCron, previousCronTime, compareCronTime } from "./cron";
+import { buildDailyDigest } from "./digest";
+import { sendNotification } from "./channels";
+import { sendRunSkippedNotification } from "./notifications";
+import { checkDiskSpace } from "./disks";
+import { checkRemoteAuth } from "./rclone-auth";
 
 const CHECK_INTERVAL_MS = 60_000; // 1 minute
+const DIGEST_WINDOW_MS = 24 * 3600_000;
+// A schedule only counts as missed once its run had this long to start
+const MISSED_GRACE_MS = 15 * 60_000;
 let intervalId: ReturnType<typeof setInterval> | null = null;
 
-// Track jobs we've already triggered this cycle to avoid double-fire
-const recentlyTriggered = new Map<number, number>(); // jobId → timestamp(ms)
+// Track schedules we've already triggered this cycle to avoid double-fire
+const recentlyTriggered = new Map<string, number>(); // ScheduledRun.key → timestamp(ms)
+
+// Invalid cron expressions we've already warned about (avoid log spam every minute)
+const warnedSchedules = new Set<string>();
+
+// Runs we suspended for the blackout window. Deferred schedules are kept
+// in the blackout_deferred setting; blackout pauses are also recorded on
+// the run (paused_by), so the set is rebuilt on startup.
+const blackoutPausedRuns = new Set<number>();
 
 export function startScheduler(): void {
   if (intervalId) return;
 
   console.log("[scheduler] Starting background scheduler (checking every 60s)");
+  for (const runId of getBlackoutPausedRunIds()) blackoutPausedRuns.add(runId);
 
   // Initial check after 15s to let the server fully boot
   setTimeout(() => {
@@ -45,37 +81,319 @@ async function checkAndRun(): Promise<void> {
     const jobs = getAllJobs();
     const tz = getSetting("timezone") || "UTC";
     const nowTz = getTimeInTz(new Date(), tz);
+    const blackout = getBlackoutWindow();
+    const inBlackout = blackout !== null && isInBlackout(blackout, nowTz);
+
+    applyBlackoutToRunningJobs(blackout, inBlackout);
+    if (!inBlackout) startDeferredRuns(jobs);
 
     for (const job of jobs) {
       if (!job.enabled) continue;
-      if (!job.schedule) continue;
-      if (!job.source_path || !job.destination_path) continue;
-
-      // Skip if we triggered this job within the last 5 minutes
-      const lastTriggered = recentlyTriggered.get(job.id) || 0;
-      if (Date.now() - lastTriggered < 5 * 60_000) continue;
 
-      // Skip if the job is currently running
-      if (isJobRunning(job.id)) continue;
-
-      const due = isDue(job, tz, nowTz);
-      if (due) {
-        console.log(`[scheduler] Job "${job.name}" (id=${job.id}) is due — triggering now`);
-        recentlyTriggered.set(job.id, Date.now());
-        await triggerJob(job.id);
+      for (const entry of getScheduledRuns(job)) {
+        if (getJobConfigError(job, entry.runType)) continue;
+
+        // Skip if we triggered this schedule within the last 5 minutes
+        const lastTriggered = recentlyTriggered.get(entry.key) || 0;
+        if (Date.now() - lastTriggered < 5 * 60_000) continue;
+
+        // Skip if the job is currently running (a backup or a verify)
+        if (isJobRunning(job.id)) continue;
+
+        const due = isDue(job, entry, tz, nowTz);
+        if (due && inBlackout) {
+          handleDueInBlackout(job, entry, blackout!);
+          continue;
+        }
+        if (due) {
+          console.log(`[scheduler] Job "${job.name}" (id=${job.id}) ${entry.label} is due — triggering now`);
+          recentlyTriggered.set(entry.key, Date.now());
+          triggerJob(job, entry);
+        }
       }
     }
+
+    checkDailyDigest(nowTz);
+    checkDiskSpace();
+    checkRemoteAuth();
   } catch (err) {
     console.error("[scheduler] Error during check:", err);
   }
 }
 
+// ═════════════════════════════════════════════════════════════
+// Schedules of a job
+// ═════════════════════════════════════════════════════════════
+
+/** One schedule of a job and the run it starts */
+interface ScheduledRun {
+  key: string;        // "<jobId>:<kind>" — double-fire and deferral bookkeeping
+  label: string;      // for logs and skipped-run summaries
+  schedule: string;
+  runType: RunType;
+  checksum: boolean;  // verify with --checksum; previous runs are matched on it too
+}
+
+function getScheduledRuns(job: Job): ScheduledRun[] {
+  const entries: ScheduledRun[] = [];
+  if (job.schedule?.trim()) {
+    entries.push({ key: `${job.id}:run`, label: "schedule", schedule: job.schedule.trim(), runType: getDefaultRunType(job), checksum: false });
+  }
+  // Check jobs are verifications already — their regular schedule covers it
+  if (job.type !== "rclone_check") {
+    if (job.verify_schedule?.trim()) {
+      entries.push({ key: `${job.id}:verify`, label: "verify schedule", schedule: job.verify_schedule.trim(), runType: "verify", checksum: false });
+    }
+    if (job.verify_checksum_schedule?.trim()) {
+      entries.push({ key: `${job.id}:checksum`, label: "checksum verify schedule", schedule: job.verify_checksum_schedule.trim(), runType: "verify", checksum: true });
+    }
+  }
+  return entries;
+}
+
+// ═════════════════════════════════════════════════════════════
+// Daily digest
+// ═════════════════════════════════════════════════════════════
+
+/**
+ * Send the digest once the configured time has passed today. The date is
+ * recorded before sending, so a failing channel isn't retried every minute
+ * and a restart doesn't send it twice.
+ */
+function checkDailyDigest(nowTz: TzTime): void {
+  if (getSetting("notify_daily_digest") !== "true") return;
+  const target = parseTimeOfDay(getSetting("daily_digest_time") || "08:00");
+  if (target == null || nowTz.hour * 60 + nowTz.minute < target) return;
+
+  const today = `${nowTz.year}-${pad(nowTz.month)}-${pad(nowTz.day)}`;
+  if (getSetting("daily_digest_last_sent") === today) return;
+  setSetting("daily_digest_last_sent", today);
+
+  console.log("[scheduler] Sending daily digest");
+  sendDailyDigest()
+    .then((error) => {
+      if (error) console.error(`[scheduler] Daily digest not sent: ${error}`);
+    })
+    .catch((err) => console.error("[scheduler] Daily digest failed:", err));
+}
+
+/** Build the digest of the last 24 hours and send it; resolves with an error description or null */
+export function sendDailyDigest(): Promise<string | null> {
+  const since = Date.now() - DIGEST_WINDOW_MS;
+  return sendNotification(buildDailyDigest(since, getMissedSchedules(since)));
+}
+
+/**
+ * Schedules that came due between `sinceMs` and a grace period ago with no
+ * run of their kind started since (skipped runs don't count) — the job was
+ * running, deferred for good, disabled meanwhile or the server was down.
+ */
+export function getMissedSchedules(sinceMs: number): MissedSchedule[] {
+  const tz = getSetting("timezone") || "UTC";
+  const now = Date.now();
+  const nowTz = getTimeInTz(new Date(now), tz);
+  const missed: MissedSchedule[] = [];
+
+  for (const job of getAllJobs()) {
+    if (!job.enabled) continue;
+    for (const entry of getScheduledRuns(job)) {
+      const dueAt = getLastOccurrenceMs(job, entry, nowTz, now);
+      if (dueAt == null || dueAt < sinceMs || dueAt > now - MISSED_GRACE_MS) continue;
+      if (hasRunSince(job.id, entry, dueAt - CHECK_INTERVAL_MS)) continue;
+      missed.push({ job_id: job.id, job_name: job.name, label: entry.label, schedule: entry.schedule, due_at: toIso(dueAt) });
+    }
+  }
+  return missed;
+}
+
+/** When the schedule last came due, at or before now (UTC ms); null if it never has or can't be parsed */
+function getLastOccurrenceMs(job: Job, entry: ScheduledRun, nowTz: TzTime, now: number): number | null {
+  const schedule = entry.schedule;
+  const nowMinOfDay = nowTz.hour * 60 + nowTz.minute;
+  // Wall-clock minutes ago → UTC ms, at the start of that minute
+  const minutesAgo = (minutes: number) => now - nowTz.second * 1000 - (now % 1000) - minutes * 60_000;
+
+  const dailyMatch = schedule.match(/^daily\s+(\d{1,2}):(\d{2})$/i);
+  if (dailyMatch) {
+    const target = parseInt(dailyMatch[1], 10) * 60 + parseInt(dailyMatch[2], 10);
+    return minutesAgo((nowMinOfDay - target + 1440) % 1440);
+  }
+
+  const everyMatch = schedule.match(/^every\s+(\d+)h$/i);
+  if (everyMatch) {
+    // Due one interval after the last run; a job that never ran isn't overdue yet
+    const lastRunMs = getLastRunTimeMs(job.id, entry);
+    return lastRunMs == null ? null : lastRunMs + parseInt(everyMatch[1], 10) * 3600_000;
+  }
+
+  const weeklyMatch = schedule.match(/^weekly\s+(\w+)\s+(\d{1,2}):(\d{2})$/i);
+  if (weeklyMatch) {
+    const targetDay = parseDayOfWeek(weeklyMatch[1]);
+    if (targetDay < 0) return null;
+    const target = parseInt(weeklyMatch[2], 10) * 60 + parseInt(weeklyMatch[3], 10);
+    let minutes = ((nowTz.dayOfWeek - targetDay + 7) % 7) * 1440 + nowMinOfDay - target;
+    if (minutes < 0) minutes += 7 * 1440;
+    return minutesAgo(minutes);
+  }
+
+  if (looksLikeCron(schedule)) {
+    let prev;
+    try {
+      prev = previousCronTime(parseCron(schedule), nowTz);
+    } catch {
+      return null;
+    }
+    if (!prev) return null;
+    const wallClock = (t: { year: number; month: number; day: number; hour: number; minute: number }) =>
+      Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute);
+    return minutesAgo(Math.round((wallClock(nowTz) - wallClock(prev)) / 60_000));
+  }
+
+  return null;
+}
+
+// ═════════════════════════════════════════════════════════════
+// Blackout window — "HH:MM"–"HH:MM" in the user's timezone
+// ═════════════════════════════════════════════════════════════
+
+interface BlackoutWindow {
+  startMin: number;   // minute of day, inclusive
+  endMin: number;     // minute of day, exclusive
+  label: string;      // "18:00–23:00" for summaries/logs
+  action: "defer" | "skip";
+  runningAction: "none" | "pause";
+}
+
+function getBlackoutWindow(): BlackoutWindow | null {
+  if (getSetting("blackout_enabled") === "false") return null;
+
+  const start = parseTimeOfDay(getSetting("blackout_start") || "");
+  const end = parseTimeOfDay(getSetting("blackout_end") || "");
+  if (start === null || end === null || start === end) return null;
+
+  return {
+    startMin: start,
+    endMin: end,
+    label: `${getSetting("blackout_start")}–${getSetting("blackout_end")}`,
+    action: getSetting("blackout_action") === "skip" ? "skip" : "defer",
+    runningAction: getSetting("blackout_running_action") === "pause" ? "pause" : "none",
+  };
+}
+
+/** Window may wrap past midnight (e.g. 22:00–02:00) */
+export function isInBlackout(window: Pick<BlackoutWindow, "startMin" | "endMin">, nowTz: Pick<TzTime, "hour" | "minute">): boolean {
+  const nowMin = nowTz.hour * 60 + nowTz.minute;
+  if (window.startMin < window.endMin) {
+    return nowMin >= window.startMin && nowMin < window.endMin;
+  }
+  return nowMin >= window.startMin || nowMin < window.endMin;
+}
+
+/**
+ * A job became due inside the window. "defer" records the schedule as
+ * pending; startDeferredRuns() starts it on the first check after the
+ * window ends. "skip" records a skipped run, which counts as the job's
+ * last run for this occurrence.
+ */
+function handleDueInBlackout(job: Job, entry: ScheduledRun, window: BlackoutWindow): void {
+  if (window.action === "skip") {
+    console.log(`[scheduler] Job "${job.name}" (id=${job.id}) ${entry.label} is due during blackout ${window.label} — skipping`);
+    recentlyTriggered.set(entry.key, Date.now());
+    const summary = `Skipped: scheduled ${entry.runType === "verify" ? "verification" : "run"} fell inside the blackout window (${window.label}).`;
+    const run = createSkippedRun(job.id, summary, entry.runType, entry.checksum ? { checksum: true } : {});
+    publishRunEvent({ type: "finished", run_id: run.id, job_id: job.id, status: "skipped", summary });
+    sendRunSkippedNotification({ jobId: job.id, jobName: job.name, summary })
+      .catch((err) => console.error(`[scheduler] Skipped run notification for "${job.name}" failed:`, err));
+    return;
+  }
+
+  const deferred = getDeferredRuns();
+  if (deferred[entry.key] == null) {
+    deferred[entry.key] = Date.now();
+    setSetting("blackout_deferred", JSON.stringify(deferred));
+    console.log(`[scheduler] Job "${job.name}" (id=${job.id}) ${entry.label} is due during blackout ${window.label} — deferred until the window ends`);
+  }
+}
+
+/** Deferred schedules: ScheduledRun.key → when it was deferred (UTC ms). Kept in settings so a restart doesn't drop them. */
+function getDeferredRuns(): Record<string, number> {
+  try {
+    const parsed = JSON.parse(getSetting("blackout_deferred") || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Outside the window: start what was deferred. A deferred schedule no
+ * longer reads as due once its day is over (a window wrapping past
+ * midnight), so it is started from the marker, not from isDue(). It stays
+ * pending while the job is busy and is dropped once a run of its kind
+ * started after it was deferred, or the job was disabled or removed.
+ */
+function startDeferredRuns(jobs: Job[]): void {
+  const deferred = getDeferredRuns();
+  if (Object.keys(deferred).length === 0) return;
+
+  const pending: Record<string, number> = {};
+  for (const job of jobs) {
+    if (!job.enabled) continue;
+    for (const entry of getScheduledRuns(job)) {
+      const deferredAt = deferred[entry.key];
+      if (deferredAt == null || hasRunSince(job.id, entry, deferredAt)) continue;
+      if (getJobConfigError(job, entry.runType)) continue;
+      if (isJobRunning(job.id)) {
+        pending[entry.key] = deferredAt;
+        continue;
+      }
+      console.log(`[scheduler] Blackout window over — starting deferred ${entry.label} of job "${job.name}" (id=${job.id})`);
+      recentlyTriggered.set(entry.key, Date.now());
+      triggerJob(job, entry);
+    }
+  }
+  setSetting("blackout_deferred", JSON.stringify(pending));
+}
+
+/** Suspend running transfers when the window opens, resume them when it closes */
+function applyBlackoutToRunningJobs(window: BlackoutWindow | null, inBlackout: boolean): void {
+  if (window && inBlackout) {
+    if (window.runningAction !== "pause") return;
+    for (const runId of getRunningRunIds()) {
+      if (blackoutPausedRuns.has(runId)) continue;
+      // Refused while a job hook runs — the next check tries again
+      if (!pauseRun(runId, "Paused for the blackout window — will resume when it ends.", "blackout")) {
+        blackoutPausedRuns.add(runId);
+        console.log(`[scheduler] Run ${runId} paused for blackout window`);
+      }
+    }
+    return;
+  }
+
+  for (const runId of blackoutPausedRuns) {
+    if (!resumeRun(runId)) {
+      console.log(`[scheduler] Run ${runId} resumed after blackout window`);
+    }
+  }
+  blackoutPausedRuns.clear();
+}
+
+/** "HH:MM" → minute of day, or null if it isn't a valid time */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const h = parseInt(match[1], 10);
+  const m = parseInt(match[2], 10);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
 // ═════════════════════════════════════════════════════════════
 // Schedule evaluation — all comparisons in the user's timezone
 // ═════════════════════════════════════════════════════════════
 
-function isDue(job: Job, tz: string, nowTz: TzTime): boolean {
-  const schedule = job.schedule.trim();
+function isDue(job: Job, entry: ScheduledRun, tz: string, nowTz: TzTime): boolean {
+  const schedule = entry.schedule;
   const nowMinOfDay = nowTz.hour * 60 + nowTz.minute;
 
   // ── "daily HH:MM" ──────────────────────────────────────────
@@ -91,7 +409,7 @@ function isDue(job: Job, tz: string, nowTz: TzTime): boolean {
     }
 
     // Check if already ran today at or after the target time
-    const lastRun = getLastRunInTz(job.id, tz);
+    const lastRun = getLastRunInTz(job.id, entry, tz);
     if (lastRun && isSameDate(lastRun, nowTz) && (lastRun.hour * 60 + lastRun.minute) >= targetMinOfDay) {
       return false;
     }
@@ -108,7 +426,7 @@ function isDue(job: Job, tz: string, nowTz: TzTime): boolean {
   const everyMatch = schedule.match(/^every\s+(\d+)h$/i);
   if (everyMatch) {
     const intervalMs = parseInt(everyMatch[1], 10) * 3600_000;
-    const lastRunMs = getLastRunTimeMs(job.id);
+    const lastRunMs = getLastRunTimeMs(job.id, entry);
 
     if (!lastRunMs) {
       console.log(`[scheduler] every-N check: job=${job.id} never ran → DUE`);
@@ -140,7 +458,7 @@ function isDue(job: Job, tz: string, nowTz: TzTime): boolean {
     if (nowMinOfDay < targetMinOfDay) return false;
 
     // Already ran today at or after target?
-    const lastRun = getLastRunInTz(job.id, tz);
+    const lastRun = getLastRunInTz(job.id, entry, tz);
     if (lastRun && isSameDate(lastRun, nowTz) && (lastRun.hour * 60 + lastRun.minute) >= targetMinOfDay) {
       return false;
     }
@@ -149,10 +467,68 @@ function isDue(job: Job, tz: string, nowTz: TzTime): boolean {
     return true;
   }
 
+  // ── cron "m h dom mon dow" (optionally prefixed with "cron") ──
+  if (looksLikeCron(schedule)) {
+    let cron;
+    try {
+      cron = parseCron(schedule);
+    } catch (err) {
+      if (!warnedSchedules.has(schedule)) {
+        warnedSchedules.add(schedule);
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[scheduler] Invalid cron schedule for job=${job.id} "${schedule}": ${msg}`);
+      }
+      return false;
+    }
+
+    // Most recent matching minute. It is due unless a run started at or
+    // after it, so an occurrence missed while the server was down is caught
+    // up later, across midnight too. A job that never ran only starts from
+    // today's occurrences, like the daily/weekly branches.
+    const prev = previousCronTime(cron, nowTz);
+    if (!prev) return false;
+
+    const lastRun = getLastRunInTz(job.id, entry, tz);
+    if (lastRun ? compareCronTime(lastRun, prev) >= 0 : !isSameDate(prev, nowTz)) {
+      return false;
+    }
+
+    console.log(
+      `[scheduler] cron check: job=${job.id} schedule="${schedule}" ` +
+      `occurrence=${pad(prev.hour)}:${pad(prev.minute)} ` +
+      `lastRun=${lastRun ? `${lastRun.year}-${pad(lastRun.month)}-${pad(lastRun.day)} ${pad(lastRun.hour)}:${pad(lastRun.minute)}` : "never"} → DUE`
+    );
+    return true;
+  }
+
   // Unknown format — skip
   return false;
 }
 
+/** Why a schedule string won't ever fire, or null if the scheduler understands it. Empty is valid (manual only). */
+export function validateSchedule(schedule: string): string | null {
+  const value = schedule.trim();
+  if (!value) return null;
+  const daily = value.match(/^daily\s+(\d{1,2}):(\d{2})$/i);
+  if (daily) return Number(daily[1]) <= 23 && Number(daily[2]) <= 59 ? null : `Invalid time in "${value}"`;
+  const every = value.match(/^every\s+(\d+)h$/i);
+  if (every) return Number(every[1]) > 0 ? null : `Interval in "${value}" must be at least 1 hour`;
+  const weekly = value.match(/^weekly\s+(\w+)\s+(\d{1,2}):(\d{2})$/i);
+  if (weekly) {
+    if (parseDayOfWeek(weekly[1]) < 0) return `Unknown weekday "${weekly[1]}"`;
+    return Number(weekly[2]) <= 23 && Number(weekly[3]) <= 59 ? null : `Invalid time in "${value}"`;
+  }
+  if (looksLikeCron(value)) {
+    try {
+      parseCron(value);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  return `Unknown schedule "${value}" — use "daily HH:MM", "every Nh", "weekly DAY HH:MM" or a cron expression`;
+}
+
 // ═════════════════════════════════════════════════════════════
 // Timezone helpers (simple — no UTC conversion needed)
 // ═════════════════════════════════════════════════════════════
@@ -206,7 +582,7 @@ function getTimeInTz(date: Date, tz: string): TzTime {
   }
 }
 
-function isSameDate(a: TzTime, b: TzTime): boolean {
+function isSameDate(a: Pick<TzTime, "year" | "month" | "day">, b: Pick<TzTime, "year" | "month" | "day">): boolean {
   return a.year === b.year && a.month === b.month && a.day === b.day;
 }
 
@@ -228,19 +604,26 @@ function parseDayOfWeek(day: string): number {
 // DB helpers
 // ═════════════════════════════════════════════════════════════
 
-/** Get the last run's start time as TzTime in the given timezone */
-function getLastRunInTz(jobId: number, tz: string): TzTime | null {
-  const ms = getLastRunTimeMs(jobId);
+/** Get the start time of the last run of this schedule's kind as TzTime in the given timezone */
+function getLastRunInTz(jobId: number, entry: ScheduledRun, tz: string): TzTime | null {
+  const ms = getLastRunTimeMs(jobId, entry);
   if (!ms) return null;
   return getTimeInTz(new Date(ms), tz);
 }
 
-/** Get the last run's start time in milliseconds (UTC) */
-function getLastRunTimeMs(jobId: number): number | null {
+/**
+ * Get the last run's start time in milliseconds (UTC). Only runs of the
+ * schedule's kind count, so a manual verify doesn't postpone a backup.
+ */
+function getLastRunTimeMs(jobId: number, entry: ScheduledRun): number | null {
   try {
     const row = getDb()
-      .prepare("SELECT started_at FROM runs WHERE job_id = ? ORDER BY started_at DESC LIMIT 1")
-      .get(jobId) as { started_at: string } | undefined;
+      .prepare(`
+        SELECT started_at FROM runs
+        WHERE job_id = ? AND run_type = ? AND COALESCE(json_extract(options, '$.checksum'), 0) = ?
+        ORDER BY started_at DESC LIMIT 1
+      `)
+      .get(jobId, entry.runType, entry.checksum ? 1 : 0) as { started_at: string } | undefined;
 
     if (!row) return null;
 
@@ -254,11 +637,32 @@ function getLastRunTimeMs(jobId: number): number | null {
   }
 }
 
-/** Check if a job currently has a "running" status in the DB */
+/** Whether a run of the schedule's kind, other than a skipped one, started at or after `sinceMs` */
+function hasRunSince(jobId: number, entry: ScheduledRun, sinceMs: number): boolean {
+  try {
+    const row = getDb()
+      .prepare(`
+        SELECT COUNT(*) as cnt FROM runs
+        WHERE job_id = ? AND run_type = ? AND COALESCE(json_extract(options, '$.checksum'), 0) = ?
+          AND status != 'skipped' AND started_at >= ?
+      `)
+      .get(jobId, entry.runType, entry.checksum ? 1 : 0, toIso(sinceMs)) as { cnt: number } | undefined;
+    return (row?.cnt ?? 0) > 0;
+  } catch {
+    return true;
+  }
+}
+
+/** UTC ms → the "YYYY-MM-DDTHH:MM:SSZ" format runs are stored with */
+function toIso(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/** Check if a job currently has a "running", "paused" or "queued" run in the DB */
 function isJobRunning(jobId: number): boolean {
   try {
     const row = getDb()
-      .prepare("SELECT COUNT(*) as cnt FROM runs WHERE job_id = ? AND status = 'running'")
+      .prepare("SELECT COUNT(*) as cnt FROM runs WHERE job_id = ? AND status IN ('running', 'paused', 'queued')")
       .get(jobId) as { cnt: number } | undefined;
     return (row?.cnt ?? 0) > 0;
   } catch {
@@ -267,22 +671,17 @@ function isJobRunning(jobId: number): boolean {
 }
 
 // ═════════════════════════════════════════════════════════════
-// Trigger via local API
+// Trigger — queue the run in-process
 // ═════════════════════════════════════════════════════════════
 
-async function triggerJob(jobId: number): Promise<void> {
-  const port = process.env.PORT || 3000;
-  const url = `http://localhost:${port}/api/jobs/${jobId}/run`;
-
+function triggerJob(job: Job, entry: ScheduledRun): void {
   try {
-    const res = await fetch(url, { method: "POST" });
-    const data = await res.json();
-    if (res.ok) {
-      console.log(`[scheduler] Job ${jobId} triggered successfully: ${data.message}`);
-    } else {
-      console.error(`[scheduler] Job ${jobId} trigger failed: ${data.error}`);
-    }
+    const options: RunOptions = entry.checksum ? { checksum: true } : {};
+    const run = enqueueRun(job.id, entry.runType, options);
+    console.log(
+      `[scheduler] Job ${job.id} triggered: run #${run.id} ${run.status === "queued" ? `queued at position ${run.queue_position}` : "started"}`
+    );
   } catch (err) {
-    console.error(`[scheduler] Failed to reach API for job ${jobId}:`, err);
+    console.error(`[scheduler] Failed to queue job ${job.id}:`, err);
   }
 }
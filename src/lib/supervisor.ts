@@ -0,0 +1,192 @@
+// ============================================================
+// Supervised commands
+// Commands run detached under a small sh wrapper that writes their
+// combined output to data/logs/run-<id>.out and the exit status to
+// run-<id>.out.exit. Nothing ties them to the server process, so a
+// restart (deploy, dev hot reload) leaves them running; the PID and
+// output path are stored on the run and the executor reattaches on
+// boot by reading the output file from the start.
+// ============================================================
+
+import { spawn, type ChildProcess } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { ProcessHandle } from "./process-manager";
+
+const OUTPUT_DIR = path.join(process.cwd(), "data", "logs");
+const POLL_INTERVAL_MS = 500;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * $1 = output file, $2 = exit file, rest = command. SIGTERM/SIGINT are
+ * forwarded to the command and the wrapper keeps waiting, so the exit
+ * file is written for stopped commands too (128 + signal number).
+ */
+const WRAPPER_SCRIPT = `
+out="$1"; exitfile="$2"; shift 2
+"$@" >>"$out" 2>&1 </dev/null &
+child=$!
+trap 'kill -TERM $child 2>/dev/null' TERM INT
+wait $child; code=$?
+while kill -0 $child 2>/dev/null; do wait $child; code=$?; done
+echo $code >"$exitfile.tmp" && mv "$exitfile.tmp" "$exitfile"
+`;
+
+export interface SupervisedProcess {
+  pid: number;
+  outputPath: string;
+  /** Only set when this server process spawned it */
+  child: ChildProcess | null;
+}
+
+export interface SupervisedExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+export function getOutputPath(runId: number): string {
+  return path.join(OUTPUT_DIR, `run-${runId}.out`);
+}
+
+function exitPath(outputPath: string): string {
+  return `${outputPath}.exit`;
+}
+
+/** Throws an ENOENT error like spawn() would when `command` isn't executable or not on PATH */
+function assertExecutable(command: string, env: NodeJS.ProcessEnv): void {
+  const candidates = command.includes("/")
+    ? [command]
+    : (env.PATH || "").split(path.delimiter).filter(Boolean).map((dir) => path.join(dir, command));
+  for (const candidate of candidates) {
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      if (fs.statSync(candidate).isFile()) return;
+    } catch {
+      // try the next one
+    }
+  }
+  throw Object.assign(new Error(`spawn ${command} ENOENT`), { code: "ENOENT" });
+}
+
+/** Start `command` detached, in its own process group, with output going to the run's output file */
+export function startSupervised(
+  runId: number,
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): Promise<SupervisedProcess> {
+  assertExecutable(command, env);
+  const outputPath = getOutputPath(runId);
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  fs.writeFileSync(outputPath, "");
+  fs.rmSync(exitPath(outputPath), { force: true });
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("sh", ["-c", WRAPPER_SCRIPT, "supervise", outputPath, exitPath(outputPath), command, ...args], {
+      env,
+      detached: true,
+      stdio: "ignore",
+    });
+    child.once("spawn", () => resolve({ pid: child.pid!, outputPath, child }));
+    child.once("error", reject);
+  });
+}
+
+/**
+ * Whether the wrapper for `outputPath` is still running as `pid`. The
+ * command line is checked where /proc exists, so a PID reused after a
+ * reboot isn't mistaken for the run.
+ */
+export function isSupervisedAlive(pid: number, outputPath: string): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EPERM") return false;
+  }
+  try {
+    return fs.readFileSync(`/proc/${pid}/cmdline`, "utf-8").includes(outputPath);
+  } catch {
+    return !fs.existsSync("/proc");
+  }
+}
+
+export function hasExitStatus(outputPath: string): boolean {
+  return fs.existsSync(exitPath(outputPath));
+}
+
+/** Process handle for the registry; signals go to the whole group */
+export function supervisedHandle(proc: SupervisedProcess): ProcessHandle {
+  const { pid, outputPath, child } = proc;
+  return {
+    pid,
+    group: true,
+    isAlive: child
+      ? () => child.exitCode === null && child.signalCode === null
+      : () => isSupervisedAlive(pid, outputPath),
+  };
+}
+
+/** SIGTERM a supervised process group that can't be reattached */
+export function terminateSupervised(pid: number): void {
+  try {
+    process.kill(-pid, "SIGTERM");
+    process.kill(-pid, "SIGCONT");
+  } catch {
+    // already gone
+  }
+}
+
+/**
+ * Feed the output file to `onData` from the start until the process has
+ * exited and everything is read, then resolve with its exit status. A
+ * wrapper killed before it could write the exit file counts as SIGKILL.
+ */
+export async function followSupervised(
+  proc: SupervisedProcess,
+  onData: (data: Buffer) => void
+): Promise<SupervisedExit> {
+  const handle = supervisedHandle(proc);
+  const fd = fs.openSync(proc.outputPath, "r");
+  const buf = Buffer.alloc(READ_CHUNK_BYTES);
+  let position = 0;
+  try {
+    for (;;) {
+      // Check before reading, so output written right before the exit is still picked up
+      const exited = !handle.isAlive();
+      const read = fs.readSync(fd, buf, 0, buf.length, position);
+      if (read > 0) {
+        position += read;
+        onData(Buffer.from(buf.subarray(0, read)));
+        continue;
+      }
+      if (exited) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return readExitStatus(proc.outputPath);
+}
+
+function readExitStatus(outputPath: string): SupervisedExit {
+  let code: number;
+  try {
+    code = parseInt(fs.readFileSync(exitPath(outputPath), "utf-8").trim(), 10);
+  } catch {
+    return { code: null, signal: "SIGKILL" };
+  }
+  if (!Number.isFinite(code)) return { code: null, signal: "SIGKILL" };
+  // sh reports a command killed by a signal as 128 + its number
+  if (code > 128) {
+    const name = Object.entries(os.constants.signals).find(([, num]) => num === code - 128)?.[0];
+    if (name) return { code: null, signal: name as NodeJS.Signals };
+  }
+  return { code, signal: null };
+}
+
+/** Delete the output and exit files once a step is fully consumed */
+export function removeSupervisedOutput(outputPath: string): void {
+  fs.rmSync(outputPath, { force: true });
+  fs.rmSync(exitPath(outputPath), { force: true });
+}
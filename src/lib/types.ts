@@ -13,16 +13,31 @@ export type RunType = "backup" | "verify";
 
 export type JobStatus = "active" | "disabled";
 
-export type RunStatus = "success" | "failure" | "running" | "cancelled" | "skipped";
+export type RunStatus = "success" | "failure" | "timed_out" | "running" | "paused" | "queued" | "cancelled" | "skipped";
 
-export type NotificationChannel = "telegram";
+/** Who suspended a paused run */
+export type PauseReason = "user" | "blackout";
+
+export type NotificationChannel = "telegram" | "webhook" | "ntfy" | "gotify" | "discord" | "slack" | "email";
+
+export type NotificationSeverity = "info" | "warning" | "critical";
+
+export type HookStage = "pre" | "post" | "on_failure";
+
+/** Which results of the upstream job's run start the dependent run */
+export type DependencyTrigger = "success" | "failure" | "always";
+
+/** Set on failed runs whose cause is known more precisely than an exit code */
+export type FailureReason = "auth_expired";
 
 export type NotificationEventType =
   | "RUN_FAILED"
+  | "RUN_TIMED_OUT"
   | "RUN_SUCCEEDED"
   | "RUN_SKIPPED"
   | "LOW_DISK_SPACE"
-  | "AUTH_EXPIRED";
+  | "AUTH_EXPIRED"
+  | "DAILY_DIGEST";
 
 // ── Database row types ──────────────────────────────────────
 
@@ -36,6 +51,23 @@ export interface Job {
   schedule: string;           // cron-like/human-readable; empty string = manual only
   flags: string;              // extra CLI flags (JSON or plain)
   description: string;
+  // Retry policy for failed runs
+  retry_max_attempts: number;     // total attempts including the first; 1 = never retry
+  retry_backoff_seconds: number;  // delay before the first retry, doubled for each further one
+  retry_exit_codes: string;       // comma-separated exit codes worth retrying; empty = any failure
+  retry_on_rate_limit: 0 | 1;     // with exit codes set: also retry when rate limiting was detected
+  // rclone limits learned from rate limiting; override --tpslimit/--transfers in flags
+  tuned_tpslimit: number | null;
+  tuned_transfers: number | null;
+  bwlimit: string;            // --bwlimit rate or timetable; empty = global bandwidth settings
+  // Watchdog — a run is stopped and marked timed_out; time spent paused doesn't count
+  max_runtime_minutes: number;    // 0 = no limit
+  stall_timeout_minutes: number;  // minutes without progress; 0 = off
+  hooks: string;              // JSON JobHooks, run around backup runs (see lib/hooks)
+  verify_schedule: string;          // scheduled size/modtime verification; same formats as schedule
+  verify_checksum_schedule: string; // scheduled --checksum verification
+  verify_max_age_days: number;      // verify badge turns stale after this many days without a successful verify; 0 = never
+  tags: string;               // comma-separated, lowercase; matched by notification rules
   created_at: string;
   updated_at: string;
 }
@@ -55,8 +87,183 @@ export interface Run {
   errors_count: number;
   short_summary: string;
   log_excerpt: string;
+  failure_reason: FailureReason | null;
+  paused_by: PauseReason | null;  // set while status = "paused"
+  queued_at: string | null;   // when the run entered the queue
+  options: string;            // JSON run options (e.g. {"checksum":true} for verify)
+  queue_position?: number | null; // 1-based position while status = "queued"
+  // Structured progress — current values while running, final ones afterwards
+  speed_bps: number | null;      // current speed; average over the run once finished
+  eta_seconds: number | null;    // cleared when the run finishes
+  total_bytes: number | null;
+  total_transfers: number | null;
+  checks: number | null;
+  total_checks: number | null;
+  rate_limit_hits: number;
+  // Retries
+  parent_run_id: number | null;  // first attempt of the chain; null on the first attempt itself
+  attempt: number;               // 1-based
+  not_before: string | null;     // queued retries wait until this time
+  triggered_by_run_id: number | null; // upstream run that queued this one via a job dependency
+  // Supervised process of the current step, used to reattach after a server restart
+  pid: number | null;
+  output_path: string | null;    // combined stdout/stderr of the step; exit status in <output_path>.exit
+  output_offset: number;         // bytes of output already logged and recorded in run_files
+  rc_port: number | null;        // rclone remote-control port
+  rc_password: string | null;    // its per-run password (user "backup-control")
+}
+
+/** A configured notification destination; every enabled one receives the notifications */
+export interface Channel {
+  id: number;
+  type: NotificationChannel;
+  name: string;
+  enabled: 0 | 1;
+  config: string;             // JSON object of the provider's fields (see lib/notification-channels)
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewChannel = Pick<Channel, "type" | "name" | "config"> & { enabled?: boolean | 0 | 1 };
+
+/** One notification, formatted by each channel's provider */
+export interface NotificationMessage {
+  event: NotificationEventType | "TEST";
+  severity: NotificationSeverity;
+  title: string;              // may start with an emoji
+  body: string;               // plain text, one item per line
+  job_id?: number | null;     // the job it is about, if any
+}
+
+/**
+ * Sends matching notifications to chosen channels instead of all of
+ * them. Rules are tried in position order and the first enabled one
+ * that matches decides; see lib/notification-rules.
+ */
+export interface NotificationRule {
+  id: number;
+  name: string;
+  enabled: 0 | 1;
+  position: number;           // lowest is tried first
+  job_id: number | null;      // only notifications about this job
+  job_tag: string;            // only notifications about jobs with this tag; empty = any
+  events: string;             // comma-separated NotificationEventType; empty = any
+  min_severity: NotificationSeverity | "";  // empty = any
+  channel_ids: string;        // JSON number[]; empty = send nothing
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewNotificationRule = Pick<NotificationRule, "name" | "job_id" | "job_tag" | "events" | "min_severity" | "channel_ids"> & {
+  enabled?: boolean | 0 | 1;
+};
+
+/** Where a notification goes and why (also the rules dry run) */
+export interface NotificationRoute {
+  rule: Pick<NotificationRule, "id" | "name"> | null;   // null = no rule matched
+  channels: Pick<Channel, "id" | "name" | "type">[];   // enabled channels it is sent to
+  reason: string;
+}
+
+/** A shell command run before/after a backup run */
+export interface HookCommand {
+  command: string;
+  timeout_seconds: number;
+}
+
+/** Parsed jobs.hooks — each stage runs in list order */
+export type JobHooks = Record<HookStage, HookCommand[]>;
+
+/** Structured progress columns written by updateRunProgress / completeRun */
+export type RunProgressColumns = Pick<
+  Run,
+  "speed_bps" | "eta_seconds" | "total_bytes" | "total_transfers" | "checks" | "total_checks" | "rate_limit_hits"
+>;
+
+/** One change of a job's learned rclone limits */
+export interface JobTuningEntry {
+  id: number;
+  job_id: number;
+  run_id: number | null;
+  tpslimit: number | null;        // null = unlimited
+  transfers: number | null;
+  rate_limit_hits: number;
+  reason: "restart" | "next_run" | "reset";
+  created_at: string;
+}
+
+/** Edge of a job chain: job_id runs after depends_on_job_id finished */
+export interface JobDependency {
+  id: number;
+  job_id: number;
+  depends_on_job_id: number;
+  trigger: DependencyTrigger;
+  run_type: RunType;          // run queued for job_id
+  created_at: string;
+  job_name?: string;          // joined from jobs table
+  depends_on_job_name?: string;
+}
+
+export type NewJobDependency = Pick<JobDependency, "depends_on_job_id" | "trigger" | "run_type">;
+
+/** A schedule that came due without its run starting (daily digest) */
+export interface MissedSchedule {
+  job_id: number;
+  job_name: string;
+  label: string;      // "schedule", "verify schedule", ...
+  schedule: string;
+  due_at: string;     // ISO
+}
+
+/** What a run did to a single file, from rclone's per-object log lines */
+export type RunFileAction = "copied" | "updated" | "deleted" | "error";
+
+export interface RunFile {
+  id: number;
+  run_id: number;
+  path: string;
+  action: RunFileAction;
+  size: number | null;
+  error: string | null;
+  created_at: string;
 }
 
+/** A file entry as recorded by the executor, before it has an id */
+export type NewRunFile = Pick<RunFile, "path" | "action" | "size" | "error">;
+
+/** One touch of a file across runs (file history lookup) */
+export interface RunFileTouch extends RunFile {
+  job_id: number;
+  job_name: string;
+  run_type: RunType;
+  run_status: RunStatus;
+  started_at: string;
+}
+
+/** Structured live progress of an active run (pushed over /api/events) */
+export interface RunProgress {
+  bytes: number;
+  total_bytes: number | null;
+  files: number;
+  total_files: number | null;
+  checks: number | null;
+  total_checks: number | null;
+  errors: number;
+  rate_limit_hits: number;
+  speed_bps: number | null;
+  eta_seconds: number | null;
+  percent: number | null;     // 0–100, null when the total is unknown
+}
+
+/** Run lifecycle events published by the queue and executor */
+export type RunEvent =
+  | { type: "queued"; run_id: number; job_id: number; run_type: RunType; queue_position: number | null }
+  | { type: "started"; run_id: number; job_id: number; run_type: RunType }
+  | { type: "progress"; run_id: number; job_id: number; progress: RunProgress; summary: string }
+  | { type: "paused"; run_id: number; job_id: number; summary: string }
+  | { type: "resumed"; run_id: number; job_id: number }
+  | { type: "finished"; run_id: number; job_id: number; status: RunStatus; summary: string };
+
 export interface Settings {
   id: number;
   key: string;
@@ -87,8 +294,23 @@ export interface DiskInfo {
   used_gb: number;
   free_gb: number;
   usage_percent: number;
+  // Low disk space alerts fire when free space drops to these (per disk, or the Settings defaults)
+  warning_free_percent: number;
+  critical_free_percent: number;
 }
 
+/** Last known state of an rclone remote's credentials (remote_auth_state) */
+export interface RemoteHealth {
+  remote: string;
+  status: "ok" | "expired" | "error" | "unknown";
+  checked_at: string | null;
+  detail: string;            // rclone's error for "expired" / "error"
+  jobs: string[];            // names of the enabled jobs using the remote
+}
+
+/** Free space of a disk relative to its thresholds; "unknown" when it can't be read */
+export type DiskLevel = "ok" | "warning" | "critical" | "unknown";
+
 export interface JobWithLastRun extends Job {
   last_run_id: number | null;
   last_run_status: RunStatus | null;
@@ -102,4 +324,5 @@ export interface JobWithLastRun extends Job {
   last_verify_status: RunStatus | null;
   last_verify_at: string | null;
   last_verify_summary: string | null;
+  last_verify_ok_at: string | null;   // last successful verification
 }